@@ -0,0 +1,180 @@
+/**
+ * ENVIRONMENT PROFILES
+ *
+ * Picks the profile the suite runs against and applies environment-variable
+ * overrides on top of it. playwright.config.ts reads `activeProfile` for the
+ * base URL, timeouts and browser projects; tests can read it too.
+ *
+ * SELECTING A PROFILE (one flag):
+ *   SAUCE_PROFILE=local npx playwright test          # local, staging, production, slow-network
+ *
+ * OVERRIDES (optional, applied on top of the selected profile):
+ *   SAUCE_BASE_URL=https://...          base URL (replica profiles: http://localhost:<port>,
+ *                                       and the replica is started on that port)
+ *   SAUCE_TEST_TIMEOUT_MS=60000         test timeout
+ *   SAUCE_EXPECT_TIMEOUT_MS=10000       expect() timeout
+ *   SAUCE_ACTION_TIMEOUT_MS=10000       click()/fill() timeout
+ *   SAUCE_NAVIGATION_TIMEOUT_MS=30000   goto() timeout
+ *   SAUCE_PROJECTS=chromium,webkit      browser projects to run
+ *   SAUCE_TAX_RATE=0.08                 checkout tax rate (rounding stays the profile's)
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Record types as registries
+ * - Injecting process.env so the logic is testable
+ * - Validating strings before narrowing them to literal types
+ */
+
+import { EnvironmentProfile, BrowserProjectName, ProfileTaxRule } from './profile';
+import { localProfile } from './local';
+import { stagingProfile } from './staging';
+import { productionProfile } from './production';
+import { slowNetworkProfile } from './slow-network';
+
+export type { EnvironmentProfile, BrowserProjectName, ProfileTaxRule, RoundingMode } from './profile';
+
+// Every selectable profile, keyed by the value of SAUCE_PROFILE
+export const profiles: Readonly<Record<string, EnvironmentProfile>> = {
+  [localProfile.name]: localProfile,
+  [stagingProfile.name]: stagingProfile,
+  [productionProfile.name]: productionProfile,
+  [slowNetworkProfile.name]: slowNetworkProfile
+};
+
+export const DEFAULT_PROFILE = productionProfile.name;
+
+const BROWSER_PROJECTS: readonly BrowserProjectName[] = ['chromium', 'firefox', 'webkit'];
+
+// TYPESCRIPT: The shape of process.env - every value may be undefined
+type Env = Record<string, string | undefined>;
+
+/**
+ * Read a millisecond override, rejecting anything that isn't a whole number
+ * @returns The override, or the fallback when the variable is unset
+ */
+function readMs(env: Env, name: string, fallback: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a whole number of milliseconds, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read SAUCE_PROJECTS=chromium,firefox into a validated list
+ */
+function readProjects(env: Env, fallback: readonly BrowserProjectName[]): readonly BrowserProjectName[] {
+  const raw = env.SAUCE_PROJECTS;
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+
+  const names = raw.split(',').map(name => name.trim()).filter(name => name !== '');
+
+  // TYPESCRIPT: includes() on a readonly BrowserProjectName[] needs the cast to accept any string
+  const unknown = names.filter(name => !BROWSER_PROJECTS.includes(name as BrowserProjectName));
+  if (unknown.length > 0) {
+    throw new Error(
+      `SAUCE_PROJECTS contains unknown project(s): ${unknown.join(', ')}. Available: ${BROWSER_PROJECTS.join(', ')}`
+    );
+  }
+  return names as BrowserProjectName[];
+}
+
+/**
+ * Read SAUCE_TAX_RATE=0.08 on top of the profile's tax rule
+ * @returns The profile's rule (possibly undefined) when the variable is unset
+ */
+function readTax(env: Env, fallback: ProfileTaxRule | undefined): ProfileTaxRule | undefined {
+  const raw = env.SAUCE_TAX_RATE;
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+
+  const rate = Number(raw);
+  if (!Number.isFinite(rate) || rate < 0 || rate >= 1) {
+    throw new Error(`SAUCE_TAX_RATE must be a fraction between 0 and 1 (e.g. 0.08 for 8%), got "${raw}"`);
+  }
+  return { rate, rounding: fallback?.rounding ?? 'half-up' };
+}
+
+// Hosts the replica can be reached on - it only ever runs on this machine
+const REPLICA_HOSTS = ['localhost', '127.0.0.1'];
+
+/**
+ * The port the replica must listen on for a base URL to reach it
+ * playwright.config.ts starts the replica on this port (as SAUCE_LOCAL_PORT),
+ * so SAUCE_BASE_URL decides the port and the two can never disagree
+ *
+ * @example replicaPort('http://localhost:4300') // 4300
+ * @throws Error if the URL can't point at the replica (not http on localhost)
+ */
+export function replicaPort(baseURL: string): number {
+  let url: URL;
+  try {
+    url = new URL(baseURL);
+  } catch {
+    throw new Error(`SAUCE_BASE_URL is not a valid URL: "${baseURL}"`);
+  }
+
+  if (url.protocol !== 'http:' || !REPLICA_HOSTS.includes(url.hostname)) {
+    throw new Error(
+      `The replica runs on this machine, so its base URL must be http://localhost:<port>, got "${baseURL}". ` +
+      'Pick a profile with replica: false to test another host.'
+    );
+  }
+  // An empty port means the default one for http
+  return Number(url.port || 80);
+}
+
+/**
+ * Select a profile and apply overrides
+ *
+ * @param env - Environment variables (defaults to process.env; tests pass their own)
+ * @returns The profile with every override applied
+ * @throws Error if SAUCE_PROFILE names an unknown profile, an override is malformed,
+ *         or a replica profile's base URL can't reach the replica
+ */
+export function resolveProfile(env: Env = process.env): EnvironmentProfile {
+  const name = env.SAUCE_PROFILE || DEFAULT_PROFILE;
+  const base = profiles[name];
+
+  if (!base) {
+    throw new Error(`Unknown SAUCE_PROFILE "${name}". Available profiles: ${Object.keys(profiles).join(', ')}`);
+  }
+
+  const baseURL = env.SAUCE_BASE_URL || base.baseURL;
+  if (base.replica) {
+    replicaPort(baseURL);
+  }
+
+  return {
+    ...base,
+    baseURL,
+    timeouts: {
+      test: readMs(env, 'SAUCE_TEST_TIMEOUT_MS', base.timeouts.test),
+      expect: readMs(env, 'SAUCE_EXPECT_TIMEOUT_MS', base.timeouts.expect),
+      action: readMs(env, 'SAUCE_ACTION_TIMEOUT_MS', base.timeouts.action),
+      navigation: readMs(env, 'SAUCE_NAVIGATION_TIMEOUT_MS', base.timeouts.navigation)
+    },
+    projects: readProjects(env, base.projects),
+    tax: readTax(env, base.tax)
+  };
+}
+
+/**
+ * The profile for this run, resolved once from process.env
+ */
+export const activeProfile: EnvironmentProfile = resolveProfile();
+
+/**
+ * One-line summary for the report header, e.g.
+ * "local - Offline SauceDemo replica (server/) @ http://localhost:4300"
+ */
+export function describeProfile(profile: EnvironmentProfile): string {
+  return `${profile.name} - ${profile.description} @ ${profile.baseURL}`;
+}
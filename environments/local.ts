@@ -0,0 +1,28 @@
+/**
+ * LOCAL REPLICA PROFILE
+ *
+ * The offline SauceDemo replica in server/, started automatically by
+ * Playwright's webServer. Deterministic and fast - persona defects are
+ * reproduced exactly (see server/personas.ts).
+ *
+ * Select with SAUCE_PROFILE=local (or npm run test:local)
+ */
+
+import { EnvironmentProfile } from './profile';
+import { DEFAULT_PORT } from '../server/saucedemo-server';
+
+export const localProfile: EnvironmentProfile = {
+  name: 'local',
+  description: 'Offline SauceDemo replica (server/)',
+  baseURL: `http://localhost:${DEFAULT_PORT}`,
+  replica: true,
+  // Not a secret: SauceDemo prints this password on its login page
+  credentials: { password: 'secret_sauce' },
+  timeouts: {
+    test: 30 * 1000,
+    expect: 5000,
+    action: 0,
+    navigation: 0
+  },
+  projects: ['chromium', 'firefox', 'webkit']
+};
@@ -0,0 +1,23 @@
+/**
+ * PRODUCTION PROFILE (default)
+ *
+ * The public SauceDemo site. Select with SAUCE_PROFILE=production or leave SAUCE_PROFILE unset.
+ */
+
+import { EnvironmentProfile } from './profile';
+
+export const productionProfile: EnvironmentProfile = {
+  name: 'production',
+  description: 'Public SauceDemo site',
+  baseURL: 'https://www.saucedemo.com',
+  replica: false,
+  // Not a secret: SauceDemo prints this password on its login page
+  credentials: { password: 'secret_sauce' },
+  timeouts: {
+    test: 30 * 1000,
+    expect: 5000,
+    action: 0,
+    navigation: 0
+  },
+  projects: ['chromium', 'firefox', 'webkit']
+};
@@ -0,0 +1,60 @@
+/**
+ * ENVIRONMENT PROFILE TYPE
+ *
+ * Describes one place the suite can run against (local replica, staging,
+ * production, ...). Each profile lives in its own file in this folder and is
+ * selected with SAUCE_PROFILE - see index.ts.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Interfaces as a contract for config files
+ * - Nested readonly objects
+ * - String literal unions for closed sets of values
+ */
+
+// The browser projects defined in playwright.config.ts
+export type BrowserProjectName = 'chromium' | 'firefox' | 'webkit';
+
+export interface ProfileTimeouts {
+  // Maximum time for one test (Playwright's `timeout`)
+  readonly test: number;
+  // Maximum time for an expect() assertion to pass
+  readonly expect: number;
+  // Maximum time for one action such as click() or fill() (0 = no limit)
+  readonly action: number;
+  // Maximum time for page.goto() and other navigations (0 = no limit)
+  readonly navigation: number;
+}
+
+export interface ProfileCredentials {
+  // Password shared by every persona (SauceDemo uses one password for all users)
+  // Only for passwords that are public anyway; real secrets come from
+  // environment variables, .env or the encrypted file (see utils/credentials.ts)
+  readonly password?: string;
+}
+
+// How a tax amount with a fraction of a cent is rounded to whole cents
+export type RoundingMode = 'half-up' | 'half-even' | 'floor' | 'ceil';
+
+export interface ProfileTaxRule {
+  // Tax as a fraction of the item total, e.g. 0.08 for 8%
+  readonly rate: number;
+  readonly rounding: RoundingMode;
+}
+
+export interface EnvironmentProfile {
+  // Key used to select the profile: SAUCE_PROFILE=<name>
+  readonly name: string;
+  // One line shown in the report header
+  readonly description: string;
+  readonly baseURL: string;
+  // true = start the offline replica in server/ (Playwright's webServer) before the tests
+  readonly replica: boolean;
+  // Extra delay the replica adds to every response, to simulate a slow network (replica only)
+  readonly replicaLatencyMs?: number;
+  readonly credentials: ProfileCredentials;
+  readonly timeouts: ProfileTimeouts;
+  // Sales tax the checkout overview should charge (default: SauceDemo's 8%, see utils/tax.ts)
+  readonly tax?: ProfileTaxRule;
+  // Browser projects to run; the 'setup' project always runs, in the first of these browsers
+  readonly projects: readonly BrowserProjectName[];
+}
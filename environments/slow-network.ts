@@ -0,0 +1,27 @@
+/**
+ * SLOW NETWORK PROFILE
+ *
+ * The local replica with a delay on every response, to shake out tests that
+ * only pass on a fast connection. Timeouts are raised to match.
+ *
+ * Select with SAUCE_PROFILE=slow-network
+ */
+
+import { EnvironmentProfile } from './profile';
+import { localProfile } from './local';
+
+// TYPESCRIPT: Spread the local profile and override only what differs
+export const slowNetworkProfile: EnvironmentProfile = {
+  ...localProfile,
+  name: 'slow-network',
+  description: 'Offline replica with 750ms added to every response',
+  replicaLatencyMs: 750,
+  timeouts: {
+    test: 90 * 1000,
+    expect: 15 * 1000,
+    action: 15 * 1000,
+    navigation: 45 * 1000
+  },
+  // One browser is enough to catch timing assumptions
+  projects: ['chromium']
+};
@@ -0,0 +1,27 @@
+/**
+ * STAGING PROFILE
+ *
+ * A pre-production deployment of SauceDemo. SauceDemo has no public staging
+ * site, so point this at your own deployment with SAUCE_BASE_URL. Its
+ * passwords come from a credential provider (see utils/credentials.ts).
+ *
+ * Select with SAUCE_PROFILE=staging
+ */
+
+import { EnvironmentProfile } from './profile';
+
+export const stagingProfile: EnvironmentProfile = {
+  name: 'staging',
+  description: 'Pre-production SauceDemo deployment',
+  baseURL: 'https://staging.saucedemo.com',
+  replica: false,
+  credentials: {},
+  timeouts: {
+    // Staging hardware is smaller than production, so allow a little more time
+    test: 45 * 1000,
+    expect: 10 * 1000,
+    action: 0,
+    navigation: 0
+  },
+  projects: ['chromium', 'firefox']
+};
@@ -10,15 +10,26 @@
  * - Extending base test
  * - Type definitions for fixtures
  * - Async fixture functions
+ * - Fixtures whose value is a function (asUser)
+ * - Worker-scoped fixtures (one logged-in page shared by a worker's tests)
  */
 
 import { test as base, Page } from '@playwright/test';
 import { LoginPage } from '../pages/LoginPage';
 import { InventoryPage } from '../pages/InventoryPage';
 import { CartPage } from '../pages/CartPage';
-import { CheckoutPage } from '../pages/CheckoutPage';
+import { CheckoutInformationStep } from '../pages/CheckoutInformationStep';
+import { CheckoutOverviewStep } from '../pages/CheckoutOverviewStep';
+import { CheckoutCompleteStep } from '../pages/CheckoutCompleteStep';
 import { ProductPage } from '../pages/ProductPage';
-import users from '../test-data/users.json';
+import { restoreSession } from '../utils/session-cache';
+import { resetAppState } from '../utils/app-state';
+import { CartState } from '../utils/cart-state';
+import { getPersona } from '../utils/test-data';
+import { CheckoutIdentity, CheckoutIdentityGenerator, IdentityOptions, describeIdentity } from '../utils/checkout-identity';
+import { SeededRandom, seedFromEnv, setCurrentRandom } from '../utils/random';
+import { StepLog, setCurrentStepLog } from '../utils/steps';
+import { ACTION_TIMELINE_ATTACHMENT, ActionTimeline, setCurrentActionTimeline } from '../utils/action-trace';
 
 // TYPESCRIPT LEARNING: TYPE DEFINITION FOR FIXTURES
 // This interface defines what fixtures are available in tests
@@ -28,17 +39,49 @@ type AuthFixtures = {
   loginPage: LoginPage;
   inventoryPage: InventoryPage;
   cartPage: CartPage;
-  checkoutPage: CheckoutPage;
+  // One page object per checkout step
+  informationStep: CheckoutInformationStep;
+  overviewStep: CheckoutOverviewStep;
+  completeStep: CheckoutCompleteStep;
   productPage: ProductPage;
+
+  // Read and seed the localStorage cart directly
+  cartState: CartState;
+
+  // This test's random numbers - the same seed gives the same choices (automatic for every test)
+  random: SeededRandom;
+
+  // Every step() of this test, attached to the report as steps.jsonl (automatic for every test)
+  stepLog: StepLog;
+
+  // Every page-object call of this test, attached to the report as actions.json (automatic for every test)
+  actionTimeline: ActionTimeline;
+
+  // Realistic checkout names and postal codes, reproducible from the test's seed
+  checkoutIdentity: (options?: IdentityOptions) => CheckoutIdentity;
   
   // Authenticated page - already logged in
   authenticatedPage: Page;
+
+  // Log in as any persona by reusing its saved session
+  // TYPESCRIPT: The fixture's value is a FUNCTION type: takes a username, returns Promise<Page>
+  asUser: (username: string) => Promise<Page>;
+
+  // The worker's shared logged-in page, reset to an empty cart and default sort for this test
+  sessionPage: Page;
+};
+
+// TYPESCRIPT LEARNING: WORKER FIXTURES
+// Worker fixtures live as long as the worker process, not just one test,
+// so they get their own type and are passed as base.extend's second type argument
+type AuthWorkerFixtures = {
+  sharedSessionPage: Page;
 };
 
 // TYPESCRIPT LEARNING: EXTENDING THE BASE TEST
 // We extend Playwright's base test with our custom fixtures
 // This creates a new 'test' object with our fixtures available
-export const test = base.extend<AuthFixtures>({
+export const test = base.extend<AuthFixtures, AuthWorkerFixtures>({
   
   // FIXTURE: loginPage
   // Automatically creates a LoginPage instance for each test
@@ -62,10 +105,17 @@ export const test = base.extend<AuthFixtures>({
     await use(cartPage);
   },
 
-  // FIXTURE: checkoutPage
-  checkoutPage: async ({ page }, use) => {
-    const checkoutPage = new CheckoutPage(page);
-    await use(checkoutPage);
+  // FIXTURES: the three checkout steps
+  informationStep: async ({ page }, use) => {
+    await use(new CheckoutInformationStep(page));
+  },
+
+  overviewStep: async ({ page }, use) => {
+    await use(new CheckoutOverviewStep(page));
+  },
+
+  completeStep: async ({ page }, use) => {
+    await use(new CheckoutCompleteStep(page));
   },
 
   // FIXTURE: productPage
@@ -74,16 +124,80 @@ export const test = base.extend<AuthFixtures>({
     await use(productPage);
   },
 
+  // FIXTURE: cartState
+  // Seed the cart without clicking through the inventory, and read what the app stored
+  cartState: async ({ page }, use) => {
+    await use(new CartState(page));
+  },
+
+  // FIXTURE: random (automatic)
+  // Every test gets its own SeededRandom, seeded from SAUCE_SEED or at random.
+  // randomItem(), randomItems(), ... in test-helpers.ts use it too. The seed is
+  // recorded as an annotation (shown in the HTML report) and printed when the
+  // test fails, so the run can be replayed with SAUCE_SEED.
+  // TYPESCRIPT: [fixture, { auto: true }] - runs even when the test doesn't ask for it
+  random: [async ({}, use, testInfo) => {
+    const random = new SeededRandom(seedFromEnv());
+    testInfo.annotations.push({ type: 'seed', description: `${random.seed} (replay with SAUCE_SEED=${random.seed})` });
+
+    setCurrentRandom(random);
+    await use(random);
+    setCurrentRandom(undefined);
+
+    if (testInfo.status !== testInfo.expectedStatus) {
+      console.log(`[${testInfo.title}] failed with seed ${random.seed} - replay with SAUCE_SEED=${random.seed}`);
+    }
+  }, { auto: true }],
+
+  // FIXTURE: stepLog (automatic)
+  // Collects the steps reported through step() (utils/steps.ts) - including the
+  // page objects' own, like "Log in" - and attaches them as JSON Lines
+  stepLog: [async ({}, use, testInfo) => {
+    const log = new StepLog();
+    setCurrentStepLog(log);
+    await use(log);
+    setCurrentStepLog(undefined);
+
+    if (log.entries.length > 0) {
+      await testInfo.attach('steps.jsonl', { body: log.toJsonl(), contentType: 'application/x-ndjson' });
+    }
+  }, { auto: true }],
+
+  // FIXTURE: actionTimeline (automatic)
+  // Records the calls of @traced page objects (utils/action-trace.ts). The
+  // action summary reporter reads the attachments to rank actions across the run.
+  actionTimeline: [async ({}, use, testInfo) => {
+    const timeline = new ActionTimeline();
+    setCurrentActionTimeline(timeline);
+    await use(timeline);
+    setCurrentActionTimeline(undefined);
+
+    if (timeline.records.length > 0) {
+      await testInfo.attach(ACTION_TIMELINE_ATTACHMENT, { body: JSON.stringify(timeline.records, null, 2), contentType: 'application/json' });
+    }
+  }, { auto: true }],
+
+  // FIXTURE: checkoutIdentity
+  // const identity = checkoutIdentity({ locale: 'de-DE' });
+  // A generator seeded with the test's seed: same seed, same identities
+  // Each identity is recorded as an annotation (shown in the HTML report), like the seed
+  checkoutIdentity: async ({ random }, use, testInfo) => {
+    const generator = new CheckoutIdentityGenerator(random.seed);
+
+    await use(options => {
+      const identity = generator.next(options);
+      testInfo.annotations.push({ type: 'checkout identity', description: describeIdentity(identity) });
+      return identity;
+    });
+  },
+
   // FIXTURE: authenticatedPage
   // This is a special fixture that provides a page that's already logged in
   // This saves time by not having to login in every test
   authenticatedPage: async ({ page }, use) => {
-    // Perform login
-    const loginPage = new LoginPage(page);
-    const user = users.validUsers[0];
-    
-    await loginPage.goto();
-    await loginPage.login(user.username, user.password);
+    // Reuse the session saved by the setup project (logs in through the UI only if it expired)
+    const user = getPersona('standard_user');
+    await restoreSession(page, user.username);
     
     // Wait for inventory page to ensure login is complete
     const inventoryPage = new InventoryPage(page);
@@ -93,13 +207,49 @@ export const test = base.extend<AuthFixtures>({
     await use(page);
     
     // Cleanup: logout after test (optional)
-    // await inventoryPage.logout();
+    // await inventoryPage.sideMenu.logout();
+  },
+
+  // FIXTURE: asUser
+  // Parameterised login: const page = await asUser('performance_glitch_user');
+  // Restores the persona's saved session into the test's own page, so the
+  // page object fixtures (inventoryPage, cartPage, ...) act as that persona too
+  asUser: async ({ page }, use) => {
+    // TYPESCRIPT: We hand the test a function instead of a value
+    await use(async (username: string) => {
+      await restoreSession(page, username);
+      return page;
+    });
+  },
+
+  // FIXTURE: sharedSessionPage (worker scope)
+  // One logged-in page for all tests a worker runs. Tests should use sessionPage
+  // instead, which cleans up whatever the previous test left behind.
+  // Note: this page lives in its own context, so per-test traces and screenshots don't cover it.
+  sharedSessionPage: [async ({ browser }, use, workerInfo) => {
+    // TYPESCRIPT: Worker fixtures can't use the test-scoped 'page', so we build a context ourselves
+    const context = await browser.newContext({ baseURL: workerInfo.project.use.baseURL });
+    const page = await context.newPage();
+    await restoreSession(page, getPersona('standard_user').username);
+
+    await use(page);
+
+    await context.close();
+  }, { scope: 'worker' }],
+
+  // FIXTURE: sessionPage
+  // The shared page, reset automatically before every test that asks for it:
+  // back on the inventory, cart emptied, sort back to A-Z, menu closed
+  sessionPage: async ({ sharedSessionPage }, use) => {
+    await resetAppState(sharedSessionPage);
+    await use(sharedSessionPage);
   },
 });
 
 // TYPESCRIPT LEARNING: EXPORT EXPECT
-// Re-export expect so tests can import both test and expect from this file
-export { expect } from '@playwright/test';
+// Re-export expect so tests can import both test and expect from this file.
+// It is Playwright's expect plus the suite's matchers (toHaveCartCount, ...) - see matchers.ts
+export { expect } from './matchers';
 
 /**
  * TYPESCRIPT CONCEPTS DEMONSTRATED:
@@ -124,6 +274,13 @@ export { expect } from '@playwright/test';
  *    async ({ page }, use)
  *    Extract page from the context object
  * 
+ * 6. WORKER-SCOPED FIXTURES:
+ *    base.extend<AuthFixtures, AuthWorkerFixtures>({ ... })
+ *    [async (...) => { ... }, { scope: 'worker' }] - set up once per worker
+ * 
+ * 7. AUTOMATIC FIXTURES:
+ *    [async (...) => { ... }, { auto: true }] - set up for every test (random, stepLog, actionTimeline)
+ * 
  * HOW TO USE FIXTURES:
  * 
  * // Import from fixture file instead of @playwright/test
@@ -142,6 +299,30 @@ export { expect } from '@playwright/test';
  *   await inventoryPage.addProductToCart('product');
  * });
  * 
+ * // Log in as a specific persona (reuses its saved session)
+ * test('example', async ({ asUser, inventoryPage }) => {
+ *   await asUser('problem_user');
+ *   await inventoryPage.sortProducts('za');
+ * });
+ * 
+ * // Start with products in the cart instead of adding them through the UI
+ * test('example', async ({ authenticatedPage, cartState, cartPage }) => {
+ *   await cartState.seed(['sauce-labs-backpack', 'sauce-labs-onesie']);
+ *   await authenticatedPage.goto('/cart.html');
+ *   expect(await cartPage.getCartItemCount()).toBe(2);
+ * });
+ * 
+ * // Checkout with a generated identity (replay with SAUCE_SEED=<seed from the report>)
+ * test('example', async ({ checkoutIdentity, informationStep }) => {
+ *   await informationStep.completeCheckoutInfo(checkoutIdentity({ locale: 'en-GB', edgeCase: 'hyphenated' }));
+ * });
+ * 
+ * // Share one logged-in page between tests (cart and sort are reset before each test)
+ * test('example', async ({ sessionPage }) => {
+ *   const inventoryPage = new InventoryPage(sessionPage);
+ *   await inventoryPage.addProductToCart('product');
+ * });
+ * 
  * BENEFITS OF FIXTURES:
  * 
  * ✅ Reduce boilerplate code
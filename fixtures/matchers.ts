@@ -0,0 +1,248 @@
+/**
+ * CUSTOM MATCHERS
+ *
+ * `expect(await inventoryPage.cartBadge.getCount()).toBe(2)` reads the badge
+ * ONCE: if the app hasn't caught up yet, the test fails. Playwright's own
+ * web-first assertions (toHaveText, toBeVisible, ...) retry until they pass;
+ * these matchers do the same for the suite's page objects:
+ *
+ *   await expect(inventoryPage).toHaveCartCount(2);
+ *   await expect(cartPage).toContainProducts([backpack.name, onesie.name]);
+ *   await expect(inventoryPage).toBeSortedBy('lohi');
+ *   await expect(productPage).toShowPrice(Money.parse('$29.99'));
+ *   await expect(inventoryPage).toMatchCatalogue();
+ *
+ * Each one polls until it passes or the expect timeout runs out, supports
+ * .not, takes { timeout } like the built-in matchers, and explains a failure
+ * with a diff. The checks themselves are the suite's existing pure functions
+ * (checkSortOrder, diffCatalogue, Money.equals).
+ *
+ * Import expect from fixtures/auth.fixture.ts to get them.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - expect.extend() and the typed matchers it returns
+ * - 'this' parameters (ExpectMatcherState)
+ * - Receiver types: a matcher only shows up for the values it accepts
+ */
+
+import { expect as baseExpect, ExpectMatcherState, Locator } from '@playwright/test';
+import { BasePage } from '../pages/BasePage';
+import { CartBadgeComponent } from '../pages/components/CartBadgeComponent';
+import { ProductCard } from '../pages/components/ProductCard';
+import { ProductPage } from '../pages/ProductPage';
+import { InventoryPage } from '../pages/InventoryPage';
+import { diffCatalogue, formatCatalogueDiff, isCatalogueMatch } from '../utils/catalogue-diff';
+import { Money } from '../utils/money';
+import { SORT_LABELS, SortOption, checkSortOrder, expectedSortOrder } from '../utils/sort-order';
+import { Product, products } from '../utils/test-data';
+
+export interface MatcherOptions {
+  // Overrides the expect timeout for this assertion (ms)
+  timeout?: number;
+}
+
+// Anything that lists product names: CartPage, InventoryPage
+export interface ProductNameList {
+  getAllProductNames(): Promise<string[]>;
+}
+
+// A product given by name or as a products.json entry
+export type ProductRef = string | Pick<Product, 'name'>;
+
+/**
+ * Read a value until check() gives the answer the assertion wants (true, or false under .not)
+ * TYPESCRIPT: Generic - T is whatever read() returns (a count, a list of names, a Money, ...)
+ *
+ * @returns The last value read and whether check() passed on it
+ */
+async function pollUntil<T>(
+  state: ExpectMatcherState,
+  options: MatcherOptions,
+  read: () => Promise<T>,
+  check: (value: T) => boolean
+): Promise<{ pass: boolean; value: T }> {
+  let last: { pass: boolean; value: T } | undefined;
+  try {
+    // expect.poll re-runs the callback (100ms, 250ms, 500ms, 1s, ...) until it returns !isNot
+    await baseExpect.poll(async () => {
+      const value = await read();
+      last = { pass: check(value), value };
+      return last.pass;
+    }, { timeout: options.timeout ?? state.timeout }).toBe(!state.isNot);
+  } catch (error) {
+    // Timed out: report the last value read below. If nothing could be read at all, rethrow.
+    if (!last) {
+      throw error;
+    }
+  }
+  // TYPESCRIPT: '!' - the poll above either set last or threw
+  return last!;
+}
+
+/**
+ * The first lines of every failure message, e.g. "expect(received).not.toHaveCartCount(expected)"
+ */
+function hint(state: ExpectMatcherState, name: string, expected?: string): string {
+  return state.utils.matcherHint(name, undefined, expected, { isNot: state.isNot }) + '\n\n';
+}
+
+function nameOf(product: ProductRef): string {
+  return typeof product === 'string' ? product : product.name;
+}
+
+export const expect = baseExpect.extend({
+
+  /**
+   * The cart badge shows this count (0 = no badge)
+   * @example await expect(inventoryPage).toHaveCartCount(2);
+   */
+  async toHaveCartCount(
+    this: ExpectMatcherState,
+    received: BasePage | CartBadgeComponent,
+    expected: number,
+    options: MatcherOptions = {}
+  ) {
+    const badge = received instanceof CartBadgeComponent ? received : received.cartBadge;
+    const { pass, value } = await pollUntil(this, options, () => badge.getCount(), count => count === expected);
+
+    return {
+      name: 'toHaveCartCount',
+      pass,
+      expected,
+      actual: value,
+      message: () => hint(this, 'toHaveCartCount') +
+        `Expected cart count: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(expected)}\n` +
+        `Received cart count: ${this.utils.printReceived(value)}`
+    };
+  },
+
+  /**
+   * Every given product is listed (others may be listed too)
+   * @example await expect(cartPage).toContainProducts([backpack, 'Sauce Labs Onesie']);
+   */
+  async toContainProducts(
+    this: ExpectMatcherState,
+    received: ProductNameList,
+    expected: readonly ProductRef[],
+    options: MatcherOptions = {}
+  ) {
+    const wanted = expected.map(nameOf);
+    const missingFrom = (names: string[]) => wanted.filter(name => !names.includes(name));
+    const { pass, value } = await pollUntil(this, options, () => received.getAllProductNames(), names => missingFrom(names).length === 0);
+
+    return {
+      name: 'toContainProducts',
+      pass,
+      expected: wanted,
+      actual: value,
+      message: () => hint(this, 'toContainProducts') + (this.isNot
+        ? `Expected not to contain all of: ${this.utils.printExpected(wanted)}\n`
+        : `Missing:  ${this.utils.printExpected(missingFrom(value))}\n`) +
+        `Received: ${this.utils.printReceived(value)}`
+    };
+  },
+
+  /**
+   * The inventory is in the order a sort option promises (names break price ties)
+   * @example await expect(inventoryPage).toBeSortedBy('hilo');
+   */
+  async toBeSortedBy(
+    this: ExpectMatcherState,
+    received: InventoryPage,
+    option: SortOption,
+    options: MatcherOptions = {}
+  ) {
+    const { pass, value } = await pollUntil(this, options, () => received.getCatalogue(), cards => checkSortOrder(cards, option).sorted);
+
+    const describe = (cards: typeof value) => cards.map(card => `${card.name} (${card.price.format()})`);
+    return {
+      name: 'toBeSortedBy',
+      pass,
+      expected: option,
+      actual: describe(value),
+      message: () => hint(this, 'toBeSortedBy', `'${option}'`) + (this.isNot
+        ? `Expected the products not to be sorted by ${SORT_LABELS[option]}, but they are`
+        : `${checkSortOrder(value, option).message}\n\n` +
+          this.utils.printDiffOrStringify(describe(expectedSortOrder(value, option)), describe(value), 'Expected order', 'Shown order', false))
+    };
+  },
+
+  /**
+   * A product card, the product page or a price label shows this price
+   * @example await expect(inventoryPage.getProductCard('Sauce Labs Onesie')).toShowPrice(Money.parse('$7.99'));
+   */
+  async toShowPrice(
+    this: ExpectMatcherState,
+    received: ProductCard | ProductPage | Locator,
+    expected: Money,
+    options: MatcherOptions = {}
+  ) {
+    const label = received instanceof ProductCard ? received.priceLabel
+      : received instanceof ProductPage ? received.productPrice
+      : received;
+    // Compared as text, so a label that isn't a price yet ("") is just a mismatch, not a parse error
+    const read = async () => (await label.textContent() ?? '').trim();
+    const { pass, value } = await pollUntil(this, options, read, shown => shown === expected.format());
+
+    return {
+      name: 'toShowPrice',
+      pass,
+      expected: expected.format(),
+      actual: value,
+      message: () => hint(this, 'toShowPrice') +
+        `Expected price: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(expected.format())}\n` +
+        `Shown price:    ${this.utils.printReceived(value)}`
+    };
+  },
+
+  /**
+   * The inventory shows exactly the expected products (default: all of products.json),
+   * matched by item id, with the right names, descriptions and prices
+   * @example await expect(inventoryPage).toMatchCatalogue();
+   */
+  async toMatchCatalogue(
+    this: ExpectMatcherState,
+    received: InventoryPage,
+    expected: readonly Product[] = products,
+    options: MatcherOptions = {}
+  ) {
+    const { pass, value } = await pollUntil(
+      this, options,
+      async () => diffCatalogue(await received.getCatalogue(), expected),
+      isCatalogueMatch
+    );
+
+    return {
+      name: 'toMatchCatalogue',
+      pass,
+      actual: value,
+      message: () => hint(this, 'toMatchCatalogue') + (this.isNot
+        ? `Expected the catalogue to differ from the ${expected.length} expected product(s), but it matches`
+        : formatCatalogueDiff(value))
+    };
+  }
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. EXPECT.EXTEND:
+ *    baseExpect.extend({ toHaveCartCount(...) {...} }) returns a new expect that knows the matchers
+ *
+ * 2. 'THIS' PARAMETERS:
+ *    toHaveCartCount(this: ExpectMatcherState, ...) - this.isNot, this.timeout, this.utils
+ *
+ * 3. RECEIVER TYPES:
+ *    expect(inventoryPage).toBeSortedBy('lohi') compiles; expect(cartPage).toBeSortedBy('lohi') doesn't
+ *
+ * 4. STRUCTURAL TYPES:
+ *    ProductNameList - any object with getAllProductNames() will do
+ *
+ * USAGE:
+ *
+ * import { test, expect } from '../fixtures/auth.fixture';
+ *
+ * await expect(inventoryPage).toHaveCartCount(1);
+ * await expect(cartPage).not.toContainProducts([backpack]);
+ * await expect(inventoryPage).toBeSortedBy('za', { timeout: 10_000 });
+ */
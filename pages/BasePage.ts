@@ -0,0 +1,82 @@
+/**
+ * BASE PAGE
+ *
+ * Every page object for a page with the SauceDemo header extends this class,
+ * so the header, cart badge and side menu are reached the same way everywhere:
+ *
+ *   inventoryPage.header.getTitle()
+ *   cartPage.cartBadge.getCount()
+ *   productPage.sideMenu.logout()
+ *
+ * LoginPage does not extend it - the login page has no header.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Abstract classes (can be extended, not instantiated)
+ * - Inheritance with 'extends' and super()
+ * - Composition of components
+ */
+
+import { Page } from '@playwright/test';
+import { HeaderComponent } from './components/HeaderComponent';
+import { CartBadgeComponent } from './components/CartBadgeComponent';
+import { SideMenuComponent } from './components/SideMenuComponent';
+import { PAGES, verifyOnPage } from './navigation';
+// TYPESCRIPT: 'import type' is erased at runtime - CartPage extends BasePage,
+// so a normal import here would be a circular dependency
+import type { CartPage } from './CartPage';
+import { traced } from '../utils/action-trace';
+
+// TYPESCRIPT LEARNING: ABSTRACT CLASS
+// 'abstract' means you can't write 'new BasePage(page)' - only subclasses are created
+// TYPESCRIPT: @traced is a class decorator - every async method below is recorded
+// in the test's action timeline (utils/action-trace.ts)
+@traced
+export abstract class BasePage {
+  readonly page: Page;
+  readonly header: HeaderComponent;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.header = new HeaderComponent(page);
+  }
+
+  // Shortcuts to the header's components
+  get cartBadge(): CartBadgeComponent {
+    return this.header.cartBadge;
+  }
+
+  get sideMenu(): SideMenuComponent {
+    return this.header.sideMenu;
+  }
+
+  /**
+   * Go to the shopping cart via the cart icon
+   * @returns The cart page object, once the cart page has loaded
+   */
+  async goToCart(): Promise<CartPage> {
+    await this.cartBadge.open();
+    await verifyOnPage(this.page, PAGES.cart);
+
+    // TYPESCRIPT: A dynamic import() loads CartPage only when it's needed,
+    // long after both modules have finished loading
+    const { CartPage } = await import('./CartPage');
+    return new CartPage(this.page);
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. ABSTRACT CLASSES:
+ *    abstract class BasePage { ... } - shared code, never instantiated directly
+ *
+ * 2. INHERITANCE:
+ *    class InventoryPage extends BasePage - gets header, cartBadge, sideMenu and goToCart()
+ *    constructor(page) { super(page); } - runs BasePage's constructor first
+ *
+ * 3. BREAKING IMPORT CYCLES:
+ *    import type { CartPage } + await import('./CartPage') inside the method
+ *
+ * 4. COMPOSITION:
+ *    The header HAS a cart badge and a side menu (properties), rather than BEING one
+ */
@@ -11,21 +11,28 @@
  */
 
 import { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { InventoryPage } from './InventoryPage';
+import { CheckoutInformationStep } from './CheckoutInformationStep';
+import { PAGES, isOnPage, verifyOnPage } from './navigation';
+import { Money } from '../utils/money';
+import { traced } from '../utils/action-trace';
 
 // TYPESCRIPT LEARNING: INTERFACE FOR CART ITEMS
 // This interface defines what a cart item object looks like
-interface CartItem {
+// TYPESCRIPT: Exported - the checkout overview lists its items with the same shape
+export interface CartItem {
   name: string;
   description: string;
-  price: string;
+  price: Money;
   quantity: number;
 }
 
-export class CartPage {
-  readonly page: Page;
-
+@traced
+export class CartPage extends BasePage {
   constructor(page: Page) {
-    this.page = page;
+    // TYPESCRIPT: super() runs BasePage's constructor (sets page, header, cartBadge, sideMenu)
+    super(page);
   }
 
   // LOCATORS
@@ -72,7 +79,7 @@ export class CartPage {
    * Check if we're on the cart page
    */
   async isOnCartPage(): Promise<boolean> {
-    return await this.cartContainer.isVisible();
+    return await isOnPage(this.page, PAGES.cart);
   }
 
   /**
@@ -108,16 +115,22 @@ export class CartPage {
 
   /**
    * Continue shopping (go back to inventory)
+   * @returns The inventory page object, once the inventory has loaded
    */
-  async continueShopping(): Promise<void> {
+  async continueShopping(): Promise<InventoryPage> {
     await this.continueShoppingButton.click();
+    await verifyOnPage(this.page, PAGES.inventory);
+    return new InventoryPage(this.page);
   }
 
   /**
    * Proceed to checkout
+   * @returns The first checkout step, once it has loaded
    */
-  async checkout(): Promise<void> {
+  async checkout(): Promise<CheckoutInformationStep> {
     await this.checkoutButton.click();
+    await verifyOnPage(this.page, PAGES.checkoutInformation);
+    return new CheckoutInformationStep(this.page);
   }
 
   /**
@@ -131,14 +144,15 @@ export class CartPage {
 
   /**
    * Get all product prices in the cart
-   * TYPESCRIPT: Returns Promise<number[]>
+   * TYPESCRIPT: Returns Promise<Money[]>
+   * @throws Error if a price label isn't a well-formed price
    */
-  async getAllProductPrices(): Promise<number[]> {
+  async getAllProductPrices(): Promise<Money[]> {
     const priceElements = this.page.locator('.cart_item .inventory_item_price');
     const priceTexts = await priceElements.allTextContents();
     
-    // TYPESCRIPT: map() to convert string prices to numbers
-    return priceTexts.map(price => parseFloat(price.replace('$', '')));
+    // TYPESCRIPT: map() to convert "$29.99" strings to Money
+    return priceTexts.map(price => Money.parse(price));
   }
 
   /**
@@ -161,8 +175,10 @@ export class CartPage {
       // Extract information from this cart item
       const name = await cartItem.locator('.inventory_item_name').textContent() || '';
       const description = await cartItem.locator('.inventory_item_desc').textContent() || '';
-      const priceText = await cartItem.locator('.inventory_item_price').textContent() || '$0';
-      const price = priceText;
+      const priceText = await cartItem.locator('.inventory_item_price').textContent() || '';
+      const price = Money.parse(priceText);
+      // SauceDemo always shows 1, but read it so a wrong quantity is noticed
+      const quantity = parseInt(await cartItem.locator('.cart_quantity').textContent() || '', 10);
       
       // TYPESCRIPT: Create an object that matches the CartItem interface
       // Then push it to the array
@@ -170,7 +186,7 @@ export class CartPage {
         name,
         description,
         price,
-        quantity: 1  // SauceDemo doesn't support quantity > 1, always 1
+        quantity
       });
     }
     
@@ -187,15 +203,13 @@ export class CartPage {
 
   /**
    * Get the total price of all items in cart
-   * TYPESCRIPT: Returns Promise<number>
+   * TYPESCRIPT: Returns Promise<Money> - summed in whole cents, so it is exact
    */
-  async getTotalPrice(): Promise<number> {
+  async getTotalPrice(): Promise<Money> {
     const prices = await this.getAllProductPrices();
     
-    // TYPESCRIPT: reduce() method to sum all prices
-    // reduce takes a function with (accumulator, currentValue) parameters
-    // It starts with 0 and adds each price to the total
-    return prices.reduce((total, price) => total + price, 0);
+    // Money.sum() uses reduce() internally: it starts at $0.00 and adds each price
+    return Money.sum(prices);
   }
 
   /**
@@ -224,11 +238,8 @@ export class CartPage {
     // TYPESCRIPT: sort() method with a comparator function
     // The comparator returns negative, zero, or positive to determine order
     return items.sort((a, b) => {
-      const priceA = parseFloat(a.price.replace('$', ''));
-      const priceB = parseFloat(b.price.replace('$', ''));
-      
       // TYPESCRIPT: Ternary operator for conditional logic
-      return ascending ? priceA - priceB : priceB - priceA;
+      return ascending ? a.price.compare(b.price) : b.price.compare(a.price);
     });
   }
 
@@ -245,7 +256,7 @@ export class CartPage {
  * TYPESCRIPT CONCEPTS DEMONSTRATED:
  * 
  * 1. INTERFACE: Define object structure
- *    interface CartItem { name: string; price: string; }
+ *    interface CartItem { name: string; price: Money; }
  * 
  * 2. ARRAY OF OBJECTS: Type for arrays containing objects
  *    CartItem[] or Array<CartItem>
@@ -288,7 +299,7 @@ export class CartPage {
  * // Find specific item
  * const backpack = await cartPage.findCartItem('Sauce Labs Backpack');
  * if (backpack) {
- *   console.log(backpack.price);
+ *   console.log(backpack.price.format());  // "$29.99"
  * }
  * 
  * // Get total
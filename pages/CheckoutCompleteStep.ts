@@ -0,0 +1,94 @@
+/**
+ * CHECKOUT STEP 3: COMPLETE ( /checkout-complete.html )
+ *
+ * The order confirmation. Reached from CheckoutOverviewStep.finish().
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Small page objects for small pages
+ * - Returning another page object from a transition
+ */
+
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { InventoryPage } from './InventoryPage';
+import { PAGES, isOnPage, verifyOnPage } from './navigation';
+import { traced } from '../utils/action-trace';
+
+@traced
+export class CheckoutCompleteStep extends BasePage {
+  // TYPESCRIPT: The literal type 'complete' identifies this step (see CheckoutFlow)
+  readonly step = 'complete' as const;
+
+  constructor(page: Page) {
+    // TYPESCRIPT: super() runs BasePage's constructor (sets page, header, cartBadge, sideMenu)
+    super(page);
+  }
+
+  // LOCATORS
+
+  get completeHeader() {
+    return this.page.locator('.complete-header');
+  }
+
+  get completeText() {
+    return this.page.locator('.complete-text');
+  }
+
+  get backHomeButton() {
+    return this.page.locator('[data-test="back-to-products"]');
+  }
+
+  // METHODS
+
+  /**
+   * Check if the order confirmation is shown
+   */
+  async isOrderComplete(): Promise<boolean> {
+    return await this.completeHeader.isVisible();
+  }
+
+  /**
+   * Get the completion message header
+   */
+  async getCompleteHeader(): Promise<string> {
+    return await this.completeHeader.textContent() || '';
+  }
+
+  /**
+   * Get the completion message text
+   */
+  async getCompleteText(): Promise<string> {
+    return await this.completeText.textContent() || '';
+  }
+
+  /**
+   * Go back to home/products page
+   * @returns The inventory page object, once the inventory has loaded
+   */
+  async backHome(): Promise<InventoryPage> {
+    await this.backHomeButton.click();
+    await verifyOnPage(this.page, PAGES.inventory);
+    return new InventoryPage(this.page);
+  }
+
+  /**
+   * Check if we're on the checkout complete step
+   */
+  async isOnCompleteStep(): Promise<boolean> {
+    return await isOnPage(this.page, PAGES.checkoutComplete);
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. INHERITANCE: extends BasePage for the header, cart badge and side menu
+ *
+ * 2. RETURNING PAGE OBJECTS:
+ *    backHome(): Promise<InventoryPage>
+ *
+ * EXAMPLE USAGE:
+ *
+ * const completeStep = await overviewStep.finish();
+ * expect(await completeStep.getCompleteHeader()).toBe('Thank you for your order!');
+ */
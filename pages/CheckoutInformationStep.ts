@@ -0,0 +1,209 @@
+/**
+ * CHECKOUT STEP 1: YOUR INFORMATION ( /checkout-step-one.html )
+ *
+ * The checkout is three pages, so it is three page objects:
+ *
+ *   CheckoutInformationStep  -> CheckoutOverviewStep  -> CheckoutCompleteStep
+ *   (name and postal code)      (items and totals)       (confirmation)
+ *
+ * Each step only has the locators and methods of its own page, and each
+ * transition returns the next step - so `finish()` can't be called while
+ * still on the information form: this class doesn't have it.
+ *
+ * To jump to a step (or cancel from one) in a single line, see
+ * CheckoutFlow in checkout-flow.ts.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Form handling and validation
+ * - Methods that return the next step's type
+ * - Literal-typed discriminant properties (readonly step = 'information')
+ */
+
+import { Page } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { CartPage } from './CartPage';
+import { CheckoutOverviewStep } from './CheckoutOverviewStep';
+import { PAGES, isOnPage, verifyOnPage } from './navigation';
+import { step } from '../utils/steps';
+import { traced } from '../utils/action-trace';
+
+// TYPESCRIPT LEARNING: INTERFACE FOR CHECKOUT INFO
+// This defines the structure for checkout form data
+export interface CheckoutInfo {
+  firstName: string;
+  lastName: string;
+  postalCode: string;
+}
+
+@traced
+export class CheckoutInformationStep extends BasePage {
+  // TYPESCRIPT: 'as const' types this as the literal 'information', not string,
+  // so code holding "some checkout step" can tell which one it is (see CheckoutFlow)
+  readonly step = 'information' as const;
+
+  constructor(page: Page) {
+    // TYPESCRIPT: super() runs BasePage's constructor (sets page, header, cartBadge, sideMenu)
+    super(page);
+  }
+
+  // LOCATORS
+
+  get firstNameInput() {
+    return this.page.locator('[data-test="firstName"]');
+  }
+
+  get lastNameInput() {
+    return this.page.locator('[data-test="lastName"]');
+  }
+
+  get postalCodeInput() {
+    return this.page.locator('[data-test="postalCode"]');
+  }
+
+  get continueButton() {
+    return this.page.locator('[data-test="continue"]');
+  }
+
+  get cancelButton() {
+    return this.page.locator('[data-test="cancel"]');
+  }
+
+  get errorMessage() {
+    return this.page.locator('[data-test="error"]');
+  }
+
+  // The X button inside the error message
+  get errorDismissButton() {
+    return this.page.locator('[data-test="error-button"]');
+  }
+
+  // The red X icons shown next to the fields while there is an error
+  get fieldErrorIcons() {
+    return this.page.locator('.checkout_info .error_icon');
+  }
+
+  // METHODS
+
+  /**
+   * Fill in the checkout information form
+   * TYPESCRIPT: Takes a CheckoutInfo object parameter
+   * This ensures all required fields are provided
+   *
+   * @param info - Object containing firstName, lastName, postalCode
+   */
+  async fillCheckoutInfo(info: CheckoutInfo): Promise<void> {
+    await this.firstNameInput.fill(info.firstName);
+    await this.lastNameInput.fill(info.lastName);
+    await this.postalCodeInput.fill(info.postalCode);
+  }
+
+  /**
+   * Fill checkout form with individual parameters
+   * TYPESCRIPT: Alternative method with separate parameters
+   * This is more flexible but requires all three parameters
+   *
+   * @param firstName - Customer's first name
+   * @param lastName - Customer's last name
+   * @param postalCode - Customer's postal/zip code
+   */
+  async fillCheckoutForm(
+    firstName: string,
+    lastName: string,
+    postalCode: string
+  ): Promise<void> {
+    await this.firstNameInput.fill(firstName);
+    await this.lastNameInput.fill(lastName);
+    await this.postalCodeInput.fill(postalCode);
+  }
+
+  /**
+   * Click the continue button
+   * No page check: with missing fields the app stays on this step and shows an error,
+   * which is exactly what validation tests want to see.
+   * Use completeCheckoutInfo() to move on to the overview.
+   */
+  async continue(): Promise<void> {
+    await this.continueButton.click();
+  }
+
+  /**
+   * Fill in the form and continue to the overview
+   * Reported as an "Enter checkout information" step
+   *
+   * @param info - Checkout information object
+   * @returns The overview step, once it has loaded
+   */
+  async completeCheckoutInfo(info: CheckoutInfo): Promise<CheckoutOverviewStep> {
+    return await step('Enter checkout information', async () => {
+      await this.fillCheckoutInfo(info);
+      await this.continue();
+      await verifyOnPage(this.page, PAGES.checkoutOverview);
+      return new CheckoutOverviewStep(this.page);
+    }, { firstName: info.firstName, lastName: info.lastName, postalCode: info.postalCode });
+  }
+
+  /**
+   * Cancel checkout and return to cart
+   * @returns The cart page object, once the cart has loaded
+   */
+  async cancel(): Promise<CartPage> {
+    await this.cancelButton.click();
+    await verifyOnPage(this.page, PAGES.cart);
+    return new CartPage(this.page);
+  }
+
+  /**
+   * Get the error message text
+   * TYPESCRIPT: Returns Promise<string | null>
+   */
+  async getErrorMessage(): Promise<string | null> {
+    return await this.errorMessage.textContent();
+  }
+
+  /**
+   * Check if there's an error message displayed
+   */
+  async hasError(): Promise<boolean> {
+    return await this.errorMessage.isVisible();
+  }
+
+  /**
+   * Close the error message with its X button
+   * SauceDemo also removes the error icons from the fields
+   */
+  async dismissError(): Promise<void> {
+    await this.errorDismissButton.click();
+  }
+
+  /**
+   * Check if we're on the checkout information step
+   */
+  async isOnInformationStep(): Promise<boolean> {
+    return await isOnPage(this.page, PAGES.checkoutInformation);
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. INTERFACE FOR FORM DATA: Structure for related data
+ *    interface CheckoutInfo { firstName: string; lastName: string; postalCode: string; }
+ *
+ * 2. OBJECT PARAMETERS vs MULTIPLE PARAMETERS:
+ *    fillCheckoutInfo(info) / fillCheckoutForm(firstName, lastName, postalCode)
+ *
+ * 3. RETURNING THE NEXT STEP:
+ *    completeCheckoutInfo(info): Promise<CheckoutOverviewStep>
+ *
+ * 4. LITERAL TYPES WITH 'as const':
+ *    readonly step = 'information' as const
+ *
+ * EXAMPLE USAGE:
+ *
+ * const informationStep = await cartPage.checkout();
+ * const overviewStep = await informationStep.completeCheckoutInfo({
+ *   firstName: 'John',
+ *   lastName: 'Doe',
+ *   postalCode: '12345'
+ * });
+ */
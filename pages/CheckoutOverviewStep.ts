@@ -0,0 +1,260 @@
+/**
+ * CHECKOUT STEP 2: OVERVIEW ( /checkout-step-two.html )
+ *
+ * Lists the items being bought, payment and shipping information, and the
+ * item total, tax and total. Reached from CheckoutInformationStep.completeCheckoutInfo().
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Value objects (Money) for exact amounts
+ * - Private helpers
+ * - Methods that return the next step's type
+ */
+
+import { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { InventoryPage } from './InventoryPage';
+import { CheckoutCompleteStep } from './CheckoutCompleteStep';
+import type { CartItem } from './CartPage';
+import { PAGES, isOnPage, verifyOnPage } from './navigation';
+import { Money } from '../utils/money';
+import { OverviewCheck, TaxCalculator, checkOverviewTotals, taxCalculatorFor } from '../utils/tax';
+import { LineItemCheck, compareLineItems } from '../utils/line-items';
+import { step } from '../utils/steps';
+import { traced, untraced } from '../utils/action-trace';
+
+// TYPESCRIPT: The overview lists items exactly like the cart does, so it reuses the cart's type
+// (name, description, quantity, price)
+export type OverviewLineItem = CartItem;
+
+@traced
+export class CheckoutOverviewStep extends BasePage {
+  // TYPESCRIPT: The literal type 'overview' identifies this step (see CheckoutFlow)
+  readonly step = 'overview' as const;
+
+  constructor(page: Page) {
+    // TYPESCRIPT: super() runs BasePage's constructor (sets page, header, cartBadge, sideMenu)
+    super(page);
+  }
+
+  // LOCATORS
+
+  get finishButton() {
+    return this.page.locator('[data-test="finish"]');
+  }
+
+  get cancelButton() {
+    return this.page.locator('[data-test="cancel"]');
+  }
+
+  get subtotalLabel() {
+    return this.page.locator('.summary_subtotal_label');
+  }
+
+  get taxLabel() {
+    return this.page.locator('.summary_tax_label');
+  }
+
+  get totalLabel() {
+    return this.page.locator('.summary_total_label');
+  }
+
+  get paymentInfo() {
+    return this.page.locator('[data-test="payment-info-value"]');
+  }
+
+  get shippingInfo() {
+    return this.page.locator('[data-test="shipping-info-value"]');
+  }
+
+  get overviewItems() {
+    return this.page.locator('.checkout_summary_container .cart_item');
+  }
+
+  // METHODS
+
+  /**
+   * Read an amount from a labelled line such as "Tax: $2.40"
+   * TYPESCRIPT: private - a helper for the getters below, not part of the page's API
+   * (@untraced keeps it out of the action timeline: 'private' is gone at runtime)
+   *
+   * @param label - The element showing the line
+   * @param prefix - The text the line must start with, e.g. 'Tax:'
+   * @throws Error if the label is wrong or the amount is malformed
+   */
+  @untraced
+  private async readAmount(label: Locator, prefix: string): Promise<Money> {
+    const text = (await label.textContent() || '').trim();
+    if (!text.startsWith(prefix)) {
+      throw new Error(`Expected a "${prefix} $..." line, but the page shows "${text}"`);
+    }
+    return Money.parse(text.slice(prefix.length));
+  }
+
+  /**
+   * Get the subtotal amount
+   * TYPESCRIPT: Returns Promise<Money>
+   * Reads "Item total: $29.99"
+   */
+  async getSubtotal(): Promise<Money> {
+    return await this.readAmount(this.subtotalLabel, 'Item total:');
+  }
+
+  /**
+   * Get the tax amount
+   * TYPESCRIPT: Returns Promise<Money>
+   * Reads "Tax: $2.40"
+   */
+  async getTax(): Promise<Money> {
+    return await this.readAmount(this.taxLabel, 'Tax:');
+  }
+
+  /**
+   * Get the total amount
+   * TYPESCRIPT: Returns Promise<Money>
+   * Reads "Total: $32.39"
+   */
+  async getTotal(): Promise<Money> {
+    return await this.readAmount(this.totalLabel, 'Total:');
+  }
+
+  /**
+   * Get payment information
+   */
+  async getPaymentInfo(): Promise<string> {
+    return await this.paymentInfo.textContent() || '';
+  }
+
+  /**
+   * Get shipping information
+   */
+  async getShippingInfo(): Promise<string> {
+    return await this.shippingInfo.textContent() || '';
+  }
+
+  /**
+   * Verify the total matches subtotal + tax
+   * TYPESCRIPT: Returns Promise<boolean>
+   * Money adds whole cents, so the comparison is exact - no tolerance needed
+   */
+  async verifyTotal(): Promise<boolean> {
+    const subtotal = await this.getSubtotal();
+    const tax = await this.getTax();
+    const total = await this.getTotal();
+
+    return subtotal.plus(tax).equals(total);
+  }
+
+  /**
+   * Get every item listed on the overview, in display order
+   * TYPESCRIPT: Returns Promise<OverviewLineItem[]>
+   * @throws Error if a price isn't a well-formed price
+   */
+  async getLineItems(): Promise<OverviewLineItem[]> {
+    const lines: OverviewLineItem[] = [];
+    for (const item of await this.overviewItems.all()) {
+      const [name, description, priceText, quantityText] = await Promise.all([
+        item.locator('.inventory_item_name').textContent(),
+        item.locator('.inventory_item_desc').textContent(),
+        item.locator('.inventory_item_price').textContent(),
+        item.locator('.cart_quantity').textContent()
+      ]);
+      lines.push({
+        name: name || '',
+        description: description || '',
+        quantity: parseInt(quantityText || '', 10),
+        price: Money.parse(priceText || '')
+      });
+    }
+    return lines;
+  }
+
+  /**
+   * Check the overview lists exactly the items that were in the cart
+   * @param cartItems - await cartPage.getAllCartItems(), captured BEFORE clicking Checkout
+   * @returns Missing, unexpected and changed items, plus a readable message
+   * @example
+   * const cartItems = await cartPage.getAllCartItems();
+   * const informationStep = await cartPage.checkout();
+   * const overviewStep = await informationStep.completeCheckoutInfo(info);
+   * const check = await overviewStep.verifyLineItems(cartItems);
+   * expect(check.ok, check.message).toBe(true);
+   */
+  async verifyLineItems(cartItems: readonly CartItem[]): Promise<LineItemCheck> {
+    return compareLineItems(cartItems, await this.getLineItems());
+  }
+
+  /**
+   * Check every amount on the overview against our own calculation
+   * Unlike verifyTotal(), the tax is recomputed from the tax rule, not taken from the page.
+   *
+   * @param calculator - The tax rule (defaults to the active profile's, SauceDemo's 8% unless configured)
+   * @returns Each wrong amount (subtotal, tax, total) separately, plus a message naming the rounding mode
+   * @example
+   * const check = await overviewStep.verifyOverview();
+   * expect(check.ok, check.message).toBe(true);
+   */
+  async verifyOverview(calculator: TaxCalculator = taxCalculatorFor()): Promise<OverviewCheck> {
+    const [lines, subtotal, tax, total] = await Promise.all([
+      this.getLineItems(),
+      this.getSubtotal(),
+      this.getTax(),
+      this.getTotal()
+    ]);
+    return checkOverviewTotals({ lines, subtotal, tax, total }, calculator);
+  }
+
+  /**
+   * Click finish to complete the order
+   * Reported as a "Complete checkout" step
+   * @returns The complete step, once it has loaded
+   */
+  async finish(): Promise<CheckoutCompleteStep> {
+    return await step('Complete checkout', async () => {
+      await this.finishButton.click();
+      await verifyOnPage(this.page, PAGES.checkoutComplete);
+      return new CheckoutCompleteStep(this.page);
+    });
+  }
+
+  /**
+   * Cancel the order - SauceDemo goes back to the products, not the cart
+   * @returns The inventory page object, once the inventory has loaded
+   */
+  async cancel(): Promise<InventoryPage> {
+    await this.cancelButton.click();
+    await verifyOnPage(this.page, PAGES.inventory);
+    return new InventoryPage(this.page);
+  }
+
+  /**
+   * Check if we're on the checkout overview step
+   */
+  async isOnOverviewStep(): Promise<boolean> {
+    return await isOnPage(this.page, PAGES.checkoutOverview);
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. PRIVATE HELPERS: Shared code that isn't part of the public API
+ *    @untraced private async readAmount(label, 'Tax:')
+ *
+ * 2. FAILING LOUDLY: A missing label or malformed amount throws instead of returning 0
+ *    if (!text.startsWith(prefix)) throw new Error(...)
+ *
+ * 3. VALUE OBJECTS AND EXACT COMPARISON:
+ *    subtotal.plus(tax).equals(total) - whole cents have no floating point error
+ *
+ * 4. TYPE ALIASES:
+ *    type OverviewLineItem = CartItem - same shape, a name that says where it came from
+ *
+ * 5. RETURNING THE NEXT STEP:
+ *    finish(): Promise<CheckoutCompleteStep>, cancel(): Promise<InventoryPage>
+ *
+ * EXAMPLE USAGE:
+ *
+ * const overviewStep = await informationStep.completeCheckoutInfo(info);
+ * expect(await overviewStep.verifyTotal()).toBe(true);
+ * const completeStep = await overviewStep.finish();
+ */
@@ -11,22 +11,27 @@
  */
 
 import { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { ProductPage } from './ProductPage';
+import { ProductCard, ProductCardData } from './components/ProductCard';
+import { PAGES, isOnPage } from './navigation';
+import { getProduct } from '../utils/test-data';
+import { SortOption, isSortOption } from '../utils/sort-order';
+import { Money } from '../utils/money';
+import { step } from '../utils/steps';
+import { traced } from '../utils/action-trace';
 
 // TYPESCRIPT LEARNING: STRING LITERAL TYPES
-// Instead of just 'string', we can specify exactly which strings are allowed
-// This is called a "union type" of string literals
-// The '|' means "or" - sortOption can be one of these specific values
-type SortOption = 'az' | 'za' | 'lohi' | 'hilo';
-// 'az' = Name A to Z
-// 'za' = Name Z to A
-// 'lohi' = Price low to high
-// 'hilo' = Price high to low
-
-export class InventoryPage {
-  readonly page: Page;
+// SortOption ('az' | 'za' | 'lohi' | 'hilo') lives in utils/sort-order.ts, next to
+// checkSortOrder(), which knows the expected order for each option.
+// Re-exported so tests can import it together with the page object.
+export type { SortOption };
 
+@traced
+export class InventoryPage extends BasePage {
   constructor(page: Page) {
-    this.page = page;
+    // TYPESCRIPT: super() runs BasePage's constructor (sets page, header, cartBadge, sideMenu)
+    super(page);
   }
 
   // LOCATORS
@@ -40,19 +45,6 @@ export class InventoryPage {
     return this.page.locator('[data-test="product-sort-container"]');
   }
 
-  get shoppingCartBadge() {
-    // The badge shows how many items are in the cart
-    return this.page.locator('.shopping_cart_badge');
-  }
-
-  get shoppingCartLink() {
-    return this.page.locator('.shopping_cart_link');
-  }
-
-  get burgerMenuButton() {
-    return this.page.locator('#react-burger-menu-btn');
-  }
-
   // TYPESCRIPT LEARNING: METHOD THAT RETURNS A LOCATOR
   // This method takes a parameter and returns a Locator
   // Return type is 'Locator' (imported from '@playwright/test')
@@ -63,17 +55,52 @@ export class InventoryPage {
    */
   getProductItems(): Locator {
     // This returns ALL product items (multiple elements)
-    return this.page.locator('.inventory_item');
+    return this.page.locator('[data-test="inventory-item"]');
+  }
+
+  /**
+   * Get the card of a product by its EXACT name
+   * "T-Shirt" matches no card, so "Sauce Labs Bolt T-Shirt" and
+   * "Test.allTheThings() T-Shirt (Red)" can't be mixed up.
+   *
+   * @param productName - The full product name, e.g. 'Sauce Labs Bolt T-Shirt'
+   */
+  getProductCard(productName: string): ProductCard {
+    // TYPESCRIPT: Escape regex characters like '.' and '(' in the name, then anchor it with ^ and $
+    const exactName = new RegExp(`^${productName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`);
+    const nameLabel = this.page.locator('[data-test="inventory-item-name"]').filter({ hasText: exactName });
+    return new ProductCard(this.getProductItems().filter({ has: nameLabel }));
+  }
+
+  /**
+   * Get the card of a product by its products.json id
+   * The card is found through the data-test id of its title link (item-4-title-link),
+   * so it works even for personas that see wrong names.
+   *
+   * @param productId - e.g. 'sauce-labs-backpack'
+   */
+  getProductCardById(productId: string): ProductCard {
+    const { itemId } = getProduct(productId);
+    const titleLink = this.page.locator(`[data-test="item-${itemId}-title-link"]`);
+    return new ProductCard(this.getProductItems().filter({ has: titleLink }));
+  }
+
+  /**
+   * Get every card currently shown, in display order
+   * TYPESCRIPT: Returns Promise<ProductCard[]> - an array of component objects
+   */
+  async getProductCards(): Promise<ProductCard[]> {
+    const items = await this.getProductItems().all();
+    return items.map(item => new ProductCard(item));
   }
 
   /**
    * Get a specific product by its name
    * TYPESCRIPT: Takes a string parameter, returns a Locator
-   * @param productName - The name of the product to find
+   * @param productName - The exact name of the product to find
    */
   getProductByName(productName: string): Locator {
-    // Use text= to find an element containing specific text
-    return this.page.locator(`.inventory_item:has-text("${productName}")`);
+    return this.getProductCard(productName).root;
   }
 
   /**
@@ -82,7 +109,7 @@ export class InventoryPage {
    */
   getAddToCartButton(productName: string): Locator {
     // Find the product, then find its "Add to cart" button
-    return this.getProductByName(productName).locator('button:has-text("Add to cart")');
+    return this.getProductCard(productName).addToCartButton;
   }
 
   /**
@@ -90,7 +117,7 @@ export class InventoryPage {
    * @param productName - The name of the product
    */
   getRemoveButton(productName: string): Locator {
-    return this.getProductByName(productName).locator('button:has-text("Remove")');
+    return this.getProductCard(productName).removeButton;
   }
 
   // METHODS (ACTIONS)
@@ -100,7 +127,7 @@ export class InventoryPage {
    * TYPESCRIPT: async method returning Promise<boolean>
    */
   async isOnInventoryPage(): Promise<boolean> {
-    return await this.inventoryContainer.isVisible();
+    return await isOnPage(this.page, PAGES.inventory);
   }
 
   /**
@@ -116,12 +143,27 @@ export class InventoryPage {
     await this.sortDropdown.selectOption(option);
   }
 
+  /**
+   * Get the sort option currently selected in the dropdown
+   * @returns 'az' | 'za' | 'lohi' | 'hilo' ('az' is the default after a page load)
+   */
+  async getActiveSort(): Promise<SortOption> {
+    const value = await this.sortDropdown.inputValue();
+    if (!isSortOption(value)) {
+      throw new Error(`Unknown sort option selected: "${value}"`);
+    }
+    return value;
+  }
+
   /**
    * Add a product to cart by its name
+   * Reported as an "Add to cart" step
    * @param productName - The name of the product to add
    */
   async addProductToCart(productName: string): Promise<void> {
-    await this.getAddToCartButton(productName).click();
+    await step('Add to cart', async () => {
+      await this.getAddToCartButton(productName).click();
+    }, { product: productName });
   }
 
   /**
@@ -147,44 +189,14 @@ export class InventoryPage {
     }
   }
 
-  /**
-   * Get the cart item count from the badge
-   * TYPESCRIPT: Returns Promise<number>
-   * number is the TypeScript type for numeric values
-   * 
-   * @returns The number of items in cart, or 0 if badge not visible
-   */
-  async getCartItemCount(): Promise<number> {
-    // Check if the badge is visible (it's hidden when cart is empty)
-    const isVisible = await this.shoppingCartBadge.isVisible();
-    
-    if (!isVisible) {
-      // TYPESCRIPT: 'return 0' - returning a number
-      return 0;
-    }
-    
-    // Get the text content of the badge
-    const text = await this.shoppingCartBadge.textContent();
-    
-    // TYPESCRIPT: parseInt() converts a string to a number
-    // '|| 0' means "if parseInt returns NaN (not a number), use 0 instead"
-    return parseInt(text || '0', 10);
-  }
-
   /**
    * Click on a product to view its details
    * @param productName - The name of the product to click
+   * @returns The product page object, once the details page has loaded
    */
-  async clickProduct(productName: string): Promise<void> {
+  async clickProduct(productName: string): Promise<ProductPage> {
     // Click on the product name link
-    await this.getProductByName(productName).locator('.inventory_item_name').click();
-  }
-
-  /**
-   * Go to the shopping cart
-   */
-  async goToCart(): Promise<void> {
-    await this.shoppingCartLink.click();
+    return await this.getProductCard(productName).open();
   }
 
   /**
@@ -203,13 +215,24 @@ export class InventoryPage {
     return await nameElements.allTextContents();
   }
 
+  /**
+   * Get the whole rendered catalogue, one typed record per card, in display order
+   * Use this instead of zipping getAllProductNames() and getAllProductPrices() together.
+   * Compare it with products.json using diffCatalogue() from utils/catalogue-diff.ts.
+   */
+  async getCatalogue(): Promise<ProductCardData[]> {
+    const cards = await this.getProductCards();
+    return await Promise.all(cards.map(card => card.getData()));
+  }
+
   /**
    * Get all product prices currently displayed
-   * TYPESCRIPT: Returns an array of numbers
+   * TYPESCRIPT: Returns an array of Money values
    * 
-   * @returns Array of product prices as numbers
+   * @returns Array of product prices, in display order
+   * @throws Error if a price label isn't a well-formed price
    */
-  async getAllProductPrices(): Promise<number[]> {
+  async getAllProductPrices(): Promise<Money[]> {
     // Get all price elements
     const priceElements = this.page.locator('.inventory_item_price');
     
@@ -217,9 +240,9 @@ export class InventoryPage {
     const priceTexts = await priceElements.allTextContents();
     
     // TYPESCRIPT: map() transforms each item in an array
-    // For each price text, remove the '$' and convert to number
-    // Arrow function: (price) => parseFloat(price.replace('$', ''))
-    return priceTexts.map(price => parseFloat(price.replace('$', '')));
+    // For each price text, parse "$29.99" into Money
+    // Arrow function: (price) => Money.parse(price)
+    return priceTexts.map(price => Money.parse(price));
   }
 
   /**
@@ -229,23 +252,6 @@ export class InventoryPage {
   async isProductInCart(productName: string): Promise<boolean> {
     return await this.getRemoveButton(productName).isVisible();
   }
-
-  /**
-   * Open the burger menu
-   */
-  async openMenu(): Promise<void> {
-    await this.burgerMenuButton.click();
-  }
-
-  /**
-   * Logout (via burger menu)
-   */
-  async logout(): Promise<void> {
-    await this.openMenu();
-    // Wait for menu to open
-    await this.page.waitForTimeout(500);
-    await this.page.locator('#logout_sidebar_link').click();
-  }
 }
 
 /**
@@ -281,4 +287,10 @@ export class InventoryPage {
  * 
  * 10. LOCATOR TYPE: Playwright's type for finding elements
  *     getProductItems(): Locator
+ * 
+ * 11. INHERITANCE: The header, cart badge and side menu come from BasePage
+ *     inventoryPage.cartBadge.getCount(), inventoryPage.sideMenu.logout()
+ * 
+ * 12. COMPONENT OBJECTS: One ProductCard per product tile
+ *     inventoryPage.getProductCard('Sauce Labs Onesie').getPrice()
  */
@@ -15,10 +15,17 @@
 // 'Page' is a TypeScript type (interface) that represents a browser tab
 // We use it to tell TypeScript what type our 'page' property is
 import { Page } from '@playwright/test';
+import { InventoryPage } from './InventoryPage';
+import { PAGES, isOnPage, verifyOnPage } from './navigation';
+import { step } from '../utils/steps';
+import { secretArgs, traced } from '../utils/action-trace';
 
 // TYPESCRIPT LEARNING: This is a CLASS
 // A class is a blueprint for creating objects
 // It can have properties (data) and methods (functions)
+// TYPESCRIPT: @traced is a class decorator - every async method below is recorded
+// in the test's action timeline (utils/action-trace.ts)
+@traced
 export class LoginPage {
   // TYPESCRIPT LEARNING: PROPERTIES (class variables)
   // 'readonly' means this property cannot be changed after it's set in the constructor
@@ -80,18 +87,37 @@ export class LoginPage {
   /**
    * Perform login with username and password
    * TYPESCRIPT: This method takes two parameters, both strings
+   * Reported as a "Log in" step; the password is masked in the report (see utils/steps.ts)
+   * and, through @secretArgs(1), in the action timeline
    * @param username - The username to enter (type: string)
    * @param password - The password to enter (type: string)
    */
+  @secretArgs(1)
   async login(username: string, password: string): Promise<void> {
-    // Fill in the username field
-    await this.usernameInput.fill(username);
-    
-    // Fill in the password field
-    await this.passwordInput.fill(password);
-    
-    // Click the login button
-    await this.loginButton.click();
+    await step('Log in', async () => {
+      // Fill in the username field
+      await this.usernameInput.fill(username);
+      
+      // Fill in the password field
+      await this.passwordInput.fill(password);
+      
+      // Click the login button
+      await this.loginButton.click();
+    }, { username, password });
+  }
+
+  /**
+   * Log in and wait for the inventory page
+   * Use login() instead when the login is EXPECTED to fail (locked or invalid users).
+   *
+   * TYPESCRIPT: Returns Promise<InventoryPage> - the page object for where we land
+   * @throws Error naming the page we landed on (and its error message) if the login fails
+   */
+  @secretArgs(1)
+  async loginToInventory(username: string, password: string): Promise<InventoryPage> {
+    await this.login(username, password);
+    await verifyOnPage(this.page, PAGES.inventory);
+    return new InventoryPage(this.page);
   }
 
   /**
@@ -111,9 +137,9 @@ export class LoginPage {
    * boolean means true or false
    */
   async isOnLoginPage(): Promise<boolean> {
-    // Check if the login button is visible
-    // This is a good way to verify we're on the right page
-    return await this.loginButton.isVisible();
+    // Check the URL and that the login button is visible
+    // The same check every page object uses (see pages/navigation.ts)
+    return await isOnPage(this.page, PAGES.login);
   }
 
   /**
@@ -126,6 +152,7 @@ export class LoginPage {
   /**
    * Fill password only (useful for testing)
    */
+  @secretArgs(0)
   async fillPassword(password: string): Promise<void> {
     await this.passwordInput.fill(password);
   }
@@ -11,6 +11,11 @@
  */
 
 import { Page } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { InventoryPage } from './InventoryPage';
+import { PAGES, isOnPage, verifyOnPage } from './navigation';
+import { Money } from '../utils/money';
+import { traced } from '../utils/action-trace';
 
 // TYPESCRIPT LEARNING: INTERFACE
 // An interface defines the shape of an object
@@ -20,18 +25,18 @@ interface ProductDetails {
   // TYPESCRIPT: Each property has a name and a type
   name: string;           // Product name (required)
   description: string;    // Product description (required)
-  price: string;          // Product price as string (e.g., "$29.99")
+  price: Money;           // Product price (shown as e.g. "$29.99")
   
   // TYPESCRIPT: The '?' makes a property optional
   // This means the property might not exist on the object
   imageUrl?: string;      // Optional: Product image URL
 }
 
-export class ProductPage {
-  readonly page: Page;
-
+@traced
+export class ProductPage extends BasePage {
   constructor(page: Page) {
-    this.page = page;
+    // TYPESCRIPT: super() runs BasePage's constructor (sets page, header, cartBadge, sideMenu)
+    super(page);
   }
 
   // LOCATORS
@@ -64,21 +69,13 @@ export class ProductPage {
     return this.page.locator('button:has-text("Remove")');
   }
 
-  get shoppingCartBadge() {
-    return this.page.locator('.shopping_cart_badge');
-  }
-
-  get shoppingCartLink() {
-    return this.page.locator('.shopping_cart_link');
-  }
-
   // METHODS
 
   /**
    * Check if we're on a product detail page
    */
   async isOnProductPage(): Promise<boolean> {
-    return await this.productName.isVisible();
+    return await isOnPage(this.page, PAGES.product);
   }
 
   /**
@@ -104,16 +101,12 @@ export class ProductPage {
 
   /**
    * Go back to products list
+   * @returns The inventory page object, once the inventory has loaded
    */
-  async goBackToProducts(): Promise<void> {
+  async goBackToProducts(): Promise<InventoryPage> {
     await this.backToProductsButton.click();
-  }
-
-  /**
-   * Go to shopping cart
-   */
-  async goToCart(): Promise<void> {
-    await this.shoppingCartLink.click();
+    await verifyOnPage(this.page, PAGES.inventory);
+    return new InventoryPage(this.page);
   }
 
   /**
@@ -135,9 +128,10 @@ export class ProductPage {
 
   /**
    * Get the product price
+   * @throws Error if the price label isn't a well-formed price
    */
-  async getProductPrice(): Promise<string> {
-    return await this.productPrice.textContent() || '';
+  async getProductPrice(): Promise<Money> {
+    return Money.parse(await this.productPrice.textContent() || '');
   }
 
   /**
@@ -176,21 +170,6 @@ export class ProductPage {
     };
   }
 
-  /**
-   * Get the cart item count
-   * TYPESCRIPT: Returns Promise<number>
-   */
-  async getCartItemCount(): Promise<number> {
-    const isVisible = await this.shoppingCartBadge.isVisible();
-    
-    if (!isVisible) {
-      return 0;
-    }
-    
-    const text = await this.shoppingCartBadge.textContent();
-    return parseInt(text || '0', 10);
-  }
-
   /**
    * Verify product details match expected values
    * TYPESCRIPT: Takes a Partial<ProductDetails> parameter
@@ -214,7 +193,8 @@ export class ProductPage {
       return false;
     }
     
-    if ('price' in expected && actual.price !== expected.price) {
+    // TYPESCRIPT: Money is an object, so compare with equals() - !== would compare references
+    if (expected.price && !actual.price.equals(expected.price)) {
       return false;
     }
     
@@ -225,24 +205,13 @@ export class ProductPage {
     // All checks passed
     return true;
   }
-
-  /**
-   * Get the numeric price value (without $)
-   * TYPESCRIPT: Returns Promise<number>
-   * Converts "$29.99" to 29.99
-   */
-  async getNumericPrice(): Promise<number> {
-    const priceText = await this.getProductPrice();
-    // Remove the '$' and convert to number
-    return parseFloat(priceText.replace('$', ''));
-  }
 }
 
 /**
  * TYPESCRIPT CONCEPTS DEMONSTRATED:
  * 
  * 1. INTERFACE: Define object shapes
- *    interface ProductDetails { name: string; price: string; }
+ *    interface ProductDetails { name: string; price: Money; }
  * 
  * 2. OPTIONAL PROPERTIES: Properties that might not exist
  *    imageUrl?: string;
@@ -266,7 +235,7 @@ export class ProductPage {
  *    'name' in expected
  * 
  * 9. TYPE CONVERSION: Convert between types
- *    parseFloat(string) converts string to number
+ *    Money.parse("$29.99") converts a price label to Money
  * 
  * 10. RETURN TYPE INFERENCE: TypeScript can figure out return types
  *     But it's better to be explicit with Promise<Type>
@@ -282,7 +251,7 @@ export class ProductPage {
  * // Verify specific details
  * const matches = await productPage.verifyProductDetails({
  *   name: 'Sauce Labs Backpack',
- *   price: '$29.99'
+ *   price: Money.parse('$29.99')
  * });
  * 
  * // Add to cart
@@ -0,0 +1,196 @@
+/**
+ * CHECKOUT FLOW BUILDER
+ *
+ * Gets a test to any point of the checkout in one line, starting from the
+ * cart or from whichever step it already holds:
+ *
+ *   const overview = await CheckoutFlow.from(cartPage).withInfo(info).stopAt('overview');
+ *   const complete = await CheckoutFlow.resumeAt(overview).stopAt('complete');
+ *   const cart     = await CheckoutFlow.from(cartPage).cancelFrom('information');
+ *
+ * The compiler checks every call:
+ *   - stopAt() returns the step's own type (CheckoutOverviewStep, ...)
+ *   - cancelFrom() returns the page cancelling leads to (cart or inventory)
+ *   - steps behind the flow's position can't be named
+ *   - steps past the information form need withInfo() first
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Generic classes whose type parameters track state
+ * - Lookup types (interfaces indexed by a key type)
+ * - Conditional types and Extract<>
+ * - Discriminated unions (step.step === 'overview')
+ */
+
+import { CartPage } from './CartPage';
+import { InventoryPage } from './InventoryPage';
+import { CheckoutInfo, CheckoutInformationStep } from './CheckoutInformationStep';
+import { CheckoutOverviewStep } from './CheckoutOverviewStep';
+import { CheckoutCompleteStep } from './CheckoutCompleteStep';
+
+// TYPESCRIPT LEARNING: LOOKUP TYPES
+// CheckoutSteps['overview'] is CheckoutOverviewStep - a type looked up by a string key
+export interface CheckoutSteps {
+  information: CheckoutInformationStep;
+  overview: CheckoutOverviewStep;
+  complete: CheckoutCompleteStep;
+}
+
+export type CheckoutStepName = keyof CheckoutSteps;
+
+// Any one of the three step objects
+export type CheckoutStep = CheckoutSteps[CheckoutStepName];
+
+// Where cancelling each step leads (the complete step has no Cancel button)
+export interface CancelTargets {
+  information: CartPage;
+  overview: InventoryPage;
+}
+
+// Where a flow can be: the cart, or one of the steps
+export type FlowPosition = 'cart' | CheckoutStepName;
+
+// The steps that come after each position
+interface StepsAfter {
+  cart: 'information' | 'overview' | 'complete';
+  information: 'overview' | 'complete';
+  overview: 'complete';
+  complete: never;
+}
+
+/**
+ * The steps a flow can move on to
+ * TYPESCRIPT: A conditional type - without checkout info, a flow that hasn't
+ * passed the information form can get no further than the form itself
+ */
+export type ReachableStep<From extends FlowPosition, HasInfo extends boolean> =
+  From extends 'cart' | 'information'
+    ? HasInfo extends true ? StepsAfter[From] : Extract<StepsAfter[From], 'information'>
+    : StepsAfter[From];
+
+/**
+ * The steps a flow can cancel from: where it is now, or a step it can reach, if that step has Cancel
+ */
+export type CancellableStep<From extends FlowPosition, HasInfo extends boolean> =
+  Extract<From | ReachableStep<From, HasInfo>, keyof CancelTargets>;
+
+/**
+ * TYPESCRIPT: From and HasInfo only exist for the compiler - they record where
+ * the flow starts and whether withInfo() was called, so stopAt() and
+ * cancelFrom() only accept steps that make sense
+ */
+export class CheckoutFlow<From extends FlowPosition, HasInfo extends boolean = false> {
+  private readonly start: CartPage | CheckoutStep;
+  private readonly info?: CheckoutInfo;
+
+  // TYPESCRIPT: private - flows are created with from() or resumeAt(), which set From correctly
+  private constructor(start: CartPage | CheckoutStep, info?: CheckoutInfo) {
+    this.start = start;
+    this.info = info;
+  }
+
+  /**
+   * Start a checkout from the cart page (the cart should not be empty)
+   */
+  static from(cartPage: CartPage): CheckoutFlow<'cart'> {
+    return new CheckoutFlow<'cart'>(cartPage);
+  }
+
+  /**
+   * Carry on from a step the test already has
+   * TYPESCRIPT: S['step'] is the step's literal name, e.g. 'overview' for a CheckoutOverviewStep
+   */
+  static resumeAt<S extends CheckoutStep>(step: S): CheckoutFlow<S['step']> {
+    return new CheckoutFlow<S['step']>(step);
+  }
+
+  /**
+   * The name and postal code to submit on the information step
+   * @returns A new flow that can go past the information step
+   */
+  withInfo(info: CheckoutInfo): CheckoutFlow<From, true> {
+    return new CheckoutFlow<From, true>(this.start, info);
+  }
+
+  /**
+   * Go through the checkout and stop at a step
+   * @param step - 'information', 'overview' or 'complete' (only those after where the flow is)
+   * @returns The step object, once its page has loaded
+   */
+  async stopAt<To extends ReachableStep<From, HasInfo>>(step: To): Promise<CheckoutSteps[To]> {
+    // TYPESCRIPT: advanceTo() returns the union CheckoutStep; the cast narrows it to the requested step
+    return await this.advanceTo(step) as CheckoutSteps[To];
+  }
+
+  /**
+   * Go to a step (if the flow isn't there already) and click its Cancel button
+   * @param step - 'information' or 'overview'
+   * @returns The cart page (from information) or the inventory page (from overview)
+   */
+  async cancelFrom<S extends CancellableStep<From, HasInfo>>(step: S): Promise<CancelTargets[S]> {
+    const current = await this.advanceTo(step);
+    // TYPESCRIPT: Narrow the union - the complete step has no cancel()
+    if (current.step === 'complete') {
+      throw new Error('The checkout complete step has no Cancel button');
+    }
+    return await current.cancel() as CancelTargets[S];
+  }
+
+  /**
+   * Move forward one step at a time until the flow is on the target step
+   */
+  private async advanceTo(target: CheckoutStepName): Promise<CheckoutStep> {
+    let position = this.start;
+    while (position instanceof CartPage || position.step !== target) {
+      position = await this.next(position);
+    }
+    return position;
+  }
+
+  /**
+   * Take one step forward
+   * TYPESCRIPT: switch on the discriminant - inside each case, position has that step's type
+   */
+  private async next(position: CartPage | CheckoutStep): Promise<CheckoutStep> {
+    if (position instanceof CartPage) {
+      return await position.checkout();
+    }
+
+    switch (position.step) {
+      case 'information':
+        if (!this.info) {
+          throw new Error('CheckoutFlow needs checkout information to get past the information step - call withInfo() first');
+        }
+        return await position.completeCheckoutInfo(this.info);
+      case 'overview':
+        return await position.finish();
+      case 'complete':
+        throw new Error('The checkout is already complete - there is no next step');
+    }
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. TYPE PARAMETERS AS STATE:
+ *    CheckoutFlow<'cart', true> - starts at the cart and has checkout info
+ *
+ * 2. LOOKUP TYPES:
+ *    CheckoutSteps[To], CancelTargets[S], S['step']
+ *
+ * 3. CONDITIONAL TYPES:
+ *    HasInfo extends true ? StepsAfter[From] : Extract<StepsAfter[From], 'information'>
+ *
+ * 4. PRIVATE CONSTRUCTORS + STATIC FACTORIES:
+ *    CheckoutFlow.from(cartPage), CheckoutFlow.resumeAt(step)
+ *
+ * 5. DISCRIMINATED UNIONS:
+ *    switch (position.step) { case 'overview': position.finish() }
+ *
+ * USAGE:
+ *
+ * // Rejected by the compiler:
+ * CheckoutFlow.from(cartPage).stopAt('overview');              // no withInfo()
+ * CheckoutFlow.resumeAt(overviewStep).stopAt('information');   // behind the flow
+ * CheckoutFlow.resumeAt(completeStep).cancelFrom('overview');  // behind the flow
+ */
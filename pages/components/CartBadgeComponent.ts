@@ -0,0 +1,53 @@
+/**
+ * CART BADGE COMPONENT
+ *
+ * The shopping cart icon in the header, with the red badge that counts
+ * the items in the cart. Shared by every page that has a header.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Components: small classes composed into page objects
+ */
+
+import { Page } from '@playwright/test';
+
+export class CartBadgeComponent {
+  readonly page: Page;
+
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  // LOCATORS
+
+  get badge() {
+    // The badge is only rendered while the cart has items
+    return this.page.locator('.shopping_cart_badge');
+  }
+
+  get link() {
+    return this.page.locator('.shopping_cart_link');
+  }
+
+  // METHODS
+
+  /**
+   * Get the number shown on the badge
+   * @returns The item count, or 0 when the badge is not shown (empty cart)
+   */
+  async getCount(): Promise<number> {
+    if (!(await this.badge.isVisible())) {
+      return 0;
+    }
+
+    const text = await this.badge.textContent();
+    // TYPESCRIPT: parseInt() converts a string to a number; base 10
+    return parseInt(text || '0', 10);
+  }
+
+  /**
+   * Open the cart by clicking the cart icon
+   */
+  async open(): Promise<void> {
+    await this.link.click();
+  }
+}
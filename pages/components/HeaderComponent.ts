@@ -0,0 +1,51 @@
+/**
+ * HEADER COMPONENT
+ *
+ * The header at the top of every page after login: the burger menu, the
+ * "Swag Labs" logo, the cart icon and the page title ("Products", "Your Cart", ...).
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Composition: a component made of other components
+ */
+
+import { Page } from '@playwright/test';
+import { CartBadgeComponent } from './CartBadgeComponent';
+import { SideMenuComponent } from './SideMenuComponent';
+
+export class HeaderComponent {
+  readonly page: Page;
+
+  // TYPESCRIPT: Components are created once and kept as readonly properties
+  readonly cartBadge: CartBadgeComponent;
+  readonly sideMenu: SideMenuComponent;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.cartBadge = new CartBadgeComponent(page);
+    this.sideMenu = new SideMenuComponent(page);
+  }
+
+  // LOCATORS
+
+  get container() {
+    return this.page.locator('#header_container');
+  }
+
+  get logo() {
+    return this.page.locator('.app_logo');
+  }
+
+  get title() {
+    // The page title in the secondary header, e.g. "Products"
+    return this.page.locator('[data-test="title"]');
+  }
+
+  // METHODS
+
+  /**
+   * Get the page title shown under the logo
+   */
+  async getTitle(): Promise<string> {
+    return await this.title.textContent() || '';
+  }
+}
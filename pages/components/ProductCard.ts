@@ -0,0 +1,176 @@
+/**
+ * PRODUCT CARD COMPONENT
+ *
+ * One product tile in the inventory grid: image, name, description, price
+ * and the "Add to cart" / "Remove" button.
+ *
+ * Unlike the header components, a card is not a single element on the page:
+ * InventoryPage creates one ProductCard per [data-test="inventory-item"],
+ * so every locator here is scoped to that one card.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Components scoped to a root Locator instead of the whole Page
+ * - String literal types for UI state
+ * - Gathering several values into one typed object
+ */
+
+import { Locator } from '@playwright/test';
+import { ProductPage } from '../ProductPage';
+import { PAGES, verifyOnPage } from '../navigation';
+import { Money } from '../../utils/money';
+
+// TYPESCRIPT: The two states the card's button can be in
+export type CardButtonState = 'add-to-cart' | 'remove';
+
+/**
+ * Everything a card shows, read in one go
+ */
+export interface ProductCardData {
+  itemId: number;              // SauceDemo's numeric id (from the data-test ids)
+  name: string;
+  description: string;
+  price: Money;
+  imageSrc: string;
+  buttonState: CardButtonState;
+  detailHref: string;          // Where the name and image link to
+}
+
+export class ProductCard {
+  // The card's [data-test="inventory-item"] element
+  readonly root: Locator;
+
+  constructor(root: Locator) {
+    this.root = root;
+  }
+
+  // LOCATORS (all inside this card)
+
+  get nameLabel() {
+    return this.root.locator('[data-test="inventory-item-name"]');
+  }
+
+  get descriptionLabel() {
+    return this.root.locator('[data-test="inventory-item-desc"]');
+  }
+
+  get priceLabel() {
+    return this.root.locator('[data-test="inventory-item-price"]');
+  }
+
+  get image() {
+    // data-test="inventory-item-<slug>-img"
+    return this.root.locator('img[data-test$="-img"]');
+  }
+
+  get titleLink() {
+    // data-test="item-<itemId>-title-link"
+    return this.root.locator('a[data-test$="-title-link"]');
+  }
+
+  get addToCartButton() {
+    return this.root.locator('button[data-test^="add-to-cart-"]');
+  }
+
+  get removeButton() {
+    return this.root.locator('button[data-test^="remove-"]');
+  }
+
+  // METHODS
+
+  async getName(): Promise<string> {
+    return await this.nameLabel.textContent() || '';
+  }
+
+  async getDescription(): Promise<string> {
+    return await this.descriptionLabel.textContent() || '';
+  }
+
+  /**
+   * Get the price ("$29.99" -> Money)
+   * @throws Error if the label isn't a well-formed price
+   */
+  async getPrice(): Promise<Money> {
+    return Money.parse(await this.priceLabel.textContent() || '');
+  }
+
+  async getImageSrc(): Promise<string> {
+    return await this.image.getAttribute('src') || '';
+  }
+
+  /**
+   * Which button the card shows
+   * TYPESCRIPT: The return type only allows the two known states
+   */
+  async getButtonState(): Promise<CardButtonState> {
+    return await this.removeButton.isVisible() ? 'remove' : 'add-to-cart';
+  }
+
+  /**
+   * Get the URL the product name links to (e.g. '/inventory-item.html?id=4')
+   */
+  async getDetailHref(): Promise<string> {
+    return await this.titleLink.getAttribute('href') || '';
+  }
+
+  /**
+   * Get SauceDemo's numeric item id from the title link's data-test id
+   * Read from data-test rather than href: some personas get deliberately wrong links.
+   */
+  async getItemId(): Promise<number> {
+    const testId = await this.titleLink.getAttribute('data-test') || '';
+    const match = testId.match(/^item-(\d+)-title-link$/);
+    if (!match) {
+      throw new Error(`Product card has no item id: title link data-test is "${testId}"`);
+    }
+    return parseInt(match[1], 10);
+  }
+
+  /**
+   * Read everything the card shows
+   * TYPESCRIPT: Promise.all() runs the reads in parallel and keeps their types
+   */
+  async getData(): Promise<ProductCardData> {
+    const [itemId, name, description, price, imageSrc, buttonState, detailHref] = await Promise.all([
+      this.getItemId(),
+      this.getName(),
+      this.getDescription(),
+      this.getPrice(),
+      this.getImageSrc(),
+      this.getButtonState(),
+      this.getDetailHref()
+    ]);
+
+    return { itemId, name, description, price, imageSrc, buttonState, detailHref };
+  }
+
+  async addToCart(): Promise<void> {
+    await this.addToCartButton.click();
+  }
+
+  async removeFromCart(): Promise<void> {
+    await this.removeButton.click();
+  }
+
+  /**
+   * Open the product's detail page by clicking its name
+   * @returns The product page object, once the details page has loaded
+   */
+  async open(): Promise<ProductPage> {
+    await this.nameLabel.click();
+    await verifyOnPage(this.root.page(), PAGES.product);
+    return new ProductPage(this.root.page());
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. SCOPED COMPONENTS:
+ *    constructor(root: Locator) - every locator is built from this.root, not the page
+ *
+ * 2. STRING LITERAL TYPES:
+ *    type CardButtonState = 'add-to-cart' | 'remove'
+ *
+ * 3. TYPED PROMISE.ALL:
+ *    const [itemId, name, ...] = await Promise.all([...]) - each element keeps its own type
+ */
@@ -0,0 +1,155 @@
+/**
+ * SIDE MENU COMPONENT
+ *
+ * The burger menu that slides in from the left on every page with a header.
+ * Links: All Items, About, Logout, Reset App State.
+ *
+ * The menu slides for 0.5s when it opens or closes. Instead of sleeping for
+ * a fixed time, open() and close() wait for the aria-hidden flag to flip and
+ * then for the browser's own CSS animations on the panel to finish
+ * (waitForAnimations() in utils/waits.ts).
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Components: small classes composed into page objects
+ * - Methods that open a UI element before acting on it
+ */
+
+import { Page } from '@playwright/test';
+import { CartBadgeComponent } from './CartBadgeComponent';
+import { waitForAnimations } from '../../utils/waits';
+
+export class SideMenuComponent {
+  readonly page: Page;
+
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  // LOCATORS
+
+  get openButton() {
+    return this.page.locator('#react-burger-menu-btn');
+  }
+
+  get closeButton() {
+    return this.page.locator('#react-burger-cross-btn');
+  }
+
+  get menu() {
+    // The sliding panel; aria-hidden is "false" while it is open
+    return this.page.locator('.bm-menu-wrap');
+  }
+
+  get openMenu() {
+    return this.page.locator('.bm-menu-wrap[aria-hidden="false"]');
+  }
+
+  get closedMenu() {
+    return this.page.locator('.bm-menu-wrap[aria-hidden="true"]');
+  }
+
+  get allItemsLink() {
+    return this.page.locator('#inventory_sidebar_link');
+  }
+
+  get aboutLink() {
+    return this.page.locator('#about_sidebar_link');
+  }
+
+  get logoutLink() {
+    return this.page.locator('#logout_sidebar_link');
+  }
+
+  get resetAppStateLink() {
+    return this.page.locator('#reset_sidebar_link');
+  }
+
+  // METHODS
+
+  /**
+   * Check whether the menu is open
+   */
+  async isOpen(): Promise<boolean> {
+    return (await this.menu.getAttribute('aria-hidden')) === 'false';
+  }
+
+  /**
+   * Wait until the slide animation has finished (see utils/waits.ts)
+   */
+  async waitForAnimations(): Promise<void> {
+    await waitForAnimations(this.menu, { message: 'the side menu has stopped sliding' });
+  }
+
+  /**
+   * Wait until the menu is fully open (flag flipped, slide finished, links usable)
+   */
+  async waitForOpen(): Promise<void> {
+    await this.openMenu.waitFor({ state: 'attached' });
+    await this.waitForAnimations();
+    await this.logoutLink.waitFor({ state: 'visible' });
+  }
+
+  /**
+   * Wait until the menu is fully closed (flag flipped, slide finished, links hidden)
+   */
+  async waitForClosed(): Promise<void> {
+    await this.closedMenu.waitFor({ state: 'attached' });
+    await this.waitForAnimations();
+    await this.logoutLink.waitFor({ state: 'hidden' });
+  }
+
+  /**
+   * Open the menu (only clicks if it is closed, always waits for the slide to finish)
+   */
+  async open(): Promise<void> {
+    if (!(await this.isOpen())) {
+      await this.openButton.click();
+    }
+    await this.waitForOpen();
+  }
+
+  /**
+   * Close the menu (only clicks if it is open, always waits for the slide to finish)
+   */
+  async close(): Promise<void> {
+    if (await this.isOpen()) {
+      await this.closeButton.click();
+    }
+    await this.waitForClosed();
+  }
+
+  /**
+   * Go to the inventory page via "All Items"
+   */
+  async goToAllItems(): Promise<void> {
+    await this.open();
+    await this.allItemsLink.click();
+  }
+
+  /**
+   * Follow the "About" link (leaves SauceDemo for saucelabs.com)
+   */
+  async goToAbout(): Promise<void> {
+    await this.open();
+    await this.aboutLink.click();
+  }
+
+  /**
+   * Log out via "Logout"
+   */
+  async logout(): Promise<void> {
+    await this.open();
+    await this.logoutLink.click();
+  }
+
+  /**
+   * Empty the cart via "Reset App State", then close the menu
+   * SauceDemo keeps the menu open after a reset, so we close it to leave the page usable.
+   */
+  async resetAppState(): Promise<void> {
+    await this.open();
+    await this.resetAppStateLink.click();
+    await new CartBadgeComponent(this.page).badge.waitFor({ state: 'hidden' });
+    await this.close();
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * PAGE NAVIGATION GUARDS
+ *
+ * Every SauceDemo page is identified the same way: its URL path plus a
+ * landmark element that only that page renders. Page-object actions that
+ * move to another page (CartPage.checkout(), InventoryPage.goToCart(), ...)
+ * call verifyOnPage() before handing back the next page object, so a test
+ * can never carry on with a page object for a page it isn't on.
+ *
+ * When the app lands somewhere else, the error names both pages:
+ *   Expected the cart page (/cart.html), but landed on the login page
+ *   (http://localhost:3000/) showing "Epic sadface: ..."
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - 'as const' + 'satisfies' for a typed lookup table
+ * - keyof typeof to derive a union of the table's keys
+ * - Error causes (new Error(message, { cause }))
+ */
+
+import { Page } from '@playwright/test';
+
+/**
+ * How to recognise one page of the app
+ */
+export interface PageIdentity {
+  // Used in error messages, e.g. 'cart page'
+  readonly name: string;
+  // URL path, without query string (e.g. '/cart.html')
+  readonly path: string;
+  // Selector for an element only this page renders
+  readonly landmark: string;
+}
+
+// TYPESCRIPT LEARNING: 'satisfies' checks every entry against PageIdentity,
+// while 'as const' keeps the exact keys, so PAGES.cart autocompletes and PAGES.kart is an error
+export const PAGES = {
+  login: { name: 'login page', path: '/', landmark: '#login-button' },
+  inventory: { name: 'inventory page', path: '/inventory.html', landmark: '.inventory_list' },
+  product: { name: 'product details page', path: '/inventory-item.html', landmark: '.inventory_details_name' },
+  cart: { name: 'cart page', path: '/cart.html', landmark: '.cart_contents_container' },
+  checkoutInformation: { name: 'checkout information step', path: '/checkout-step-one.html', landmark: '.checkout_info_container' },
+  checkoutOverview: { name: 'checkout overview step', path: '/checkout-step-two.html', landmark: '.checkout_summary_container' },
+  checkoutComplete: { name: 'checkout complete step', path: '/checkout-complete.html', landmark: '.checkout_complete_container' }
+} as const satisfies Record<string, PageIdentity>;
+
+// TYPESCRIPT: 'login' | 'inventory' | 'product' | ... - derived from the table above
+export type PageKey = keyof typeof PAGES;
+
+/**
+ * Find the page that owns a URL path
+ * TYPESCRIPT: Pure function - no browser needed, easy to unit test
+ *
+ * @param pathname - e.g. '/cart.html'
+ * @returns The matching identity, or undefined for paths the app doesn't have
+ */
+export function pageForPath(pathname: string): PageIdentity | undefined {
+  return Object.values(PAGES).find(identity => identity.path === pathname);
+}
+
+/**
+ * Check (without waiting) whether the browser is on a page: right URL AND landmark visible
+ */
+export async function isOnPage(page: Page, expected: PageIdentity): Promise<boolean> {
+  return new URL(page.url()).pathname === expected.path
+    && await page.locator(expected.landmark).isVisible();
+}
+
+/**
+ * Describe where the browser is, for error messages
+ * e.g. 'the inventory page (http://localhost:3000/inventory.html)'
+ */
+export async function describeCurrentPage(page: Page): Promise<string> {
+  const url = page.url();
+  const identity = pageForPath(new URL(url).pathname);
+
+  let description: string;
+  if (!identity) {
+    description = `an unknown page (${url})`;
+  } else if (await page.locator(identity.landmark).isVisible()) {
+    description = `the ${identity.name} (${url})`;
+  } else {
+    description = `the ${identity.name} URL without its landmark ${identity.landmark} (${url})`;
+  }
+
+  // An error banner usually explains why we ended up here (e.g. a locked-out user)
+  const error = page.locator('[data-test="error"]');
+  if (await error.isVisible()) {
+    description += ` showing "${await error.textContent()}"`;
+  }
+
+  return description;
+}
+
+/**
+ * Wait until the browser is on a page, or fail naming the expected and the actual page
+ *
+ * @param page - Playwright page
+ * @param expected - One of PAGES
+ * @param timeout - Optional; defaults to the configured navigation/action timeouts
+ * @throws Error "Expected the <page> (<path>), but landed on <actual page>"
+ */
+export async function verifyOnPage(page: Page, expected: PageIdentity, timeout?: number): Promise<void> {
+  try {
+    await page.waitForURL(url => url.pathname === expected.path, { timeout });
+    await page.locator(expected.landmark).waitFor({ state: 'visible', timeout });
+  } catch (error) {
+    // TYPESCRIPT: 'cause' keeps Playwright's original timeout error attached for debugging
+    throw new Error(
+      `Expected the ${expected.name} (${expected.path}), but landed on ${await describeCurrentPage(page)}`,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. TYPED LOOKUP TABLES:
+ *    { ... } as const satisfies Record<string, PageIdentity>
+ *
+ * 2. DERIVED UNION TYPES:
+ *    type PageKey = keyof typeof PAGES
+ *
+ * 3. ERROR CAUSES:
+ *    new Error(message, { cause: error }) wraps a lower-level error
+ *
+ * USAGE IN A PAGE OBJECT:
+ *
+ * async checkout(): Promise<CheckoutInformationStep> {
+ *   await this.checkoutButton.click();
+ *   await verifyOnPage(this.page, PAGES.checkoutInformation);
+ *   return new CheckoutInformationStep(this.page);
+ * }
+ */
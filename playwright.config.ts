@@ -3,6 +3,7 @@
 // - defineConfig: A function that helps configure Playwright with TypeScript type checking
 // - devices: Pre-configured device settings (screen sizes, user agents, etc.)
 import { defineConfig, devices } from '@playwright/test';
+import { activeProfile, describeProfile, replicaPort } from './environments';
 
 /**
  * PLAYWRIGHT CONFIGURATION FILE
@@ -14,6 +15,39 @@ import { defineConfig, devices } from '@playwright/test';
  * - Better documentation through types
  */
 
+// ENVIRONMENT PROFILE: Where the suite runs and with which settings
+// Select with SAUCE_PROFILE=local | staging | production (default) | slow-network
+// Each profile lives in environments/ and supplies the base URL, credentials,
+// timeouts and browser projects; env vars can override any of them (see environments/index.ts)
+const profile = activeProfile;
+
+// BROWSER PROJECTS: Only the ones listed in the profile are enabled
+// TYPESCRIPT: filter() keeps the array's element type, so 'projects' below stays fully typed
+const browserProjects = [
+  {
+    // TYPESCRIPT: 'name' is a string property
+    name: 'chromium',
+    // TYPESCRIPT: '...' is the spread operator - it copies all properties from devices['Desktop Chrome']
+    // This gives us Chrome's viewport size, user agent, etc.
+    use: { ...devices['Desktop Chrome'] },
+    // dependencies: Projects that must finish first (the saved sessions)
+    dependencies: ['setup'],
+  },
+
+  {
+    name: 'firefox',
+    use: { ...devices['Desktop Firefox'] },
+    dependencies: ['setup'],
+  },
+
+  {
+    name: 'webkit',
+    // WebKit is the browser engine used by Safari
+    use: { ...devices['Desktop Safari'] },
+    dependencies: ['setup'],
+  },
+].filter(project => (profile.projects as readonly string[]).includes(project.name));
+
 // TYPESCRIPT LEARNING: 'export default' means this is the main thing exported from this file
 // defineConfig() is a function that takes a configuration object and returns it with proper types
 export default defineConfig({
@@ -42,17 +76,30 @@ export default defineConfig({
   
   // reporter: How to display test results
   // 'html' creates a nice HTML report you can open in a browser
-  // TYPESCRIPT: This is a string type (text in quotes)
-  reporter: 'html',
+  // The redacting reporter runs first and masks passwords in steps, attachments and traces
+  // The action summary reporter prints the most-used and slowest page-object actions
+  // TYPESCRIPT: An array of [name] tuples - each entry is one reporter
+  reporter: [
+    ['./reporters/redacting-reporter.ts'],
+    ['./reporters/action-summary-reporter.ts'],
+    ['html'],
+  ],
+
+  // metadata: Shown in the header of the HTML report
+  // Tells whoever reads the report which environment produced it
+  metadata: {
+    'Environment profile': describeProfile(profile),
+    'Browser projects': profile.projects.join(', '),
+  },
   
   // timeout: Maximum time for each test (in milliseconds)
-  // 30 seconds per test (30 * 1000 milliseconds)
-  timeout: 30 * 1000,
+  // Comes from the profile (30 seconds for production and local)
+  timeout: profile.timeouts.test,
   
   // expect timeout: Maximum time for assertions to pass
-  // 5 seconds for assertions like expect(element).toBeVisible()
+  // e.g. 5 seconds for assertions like expect(element).toBeVisible()
   expect: {
-    timeout: 5000
+    timeout: profile.timeouts.expect
   },
   
   // use: Settings that apply to all tests
@@ -60,7 +107,12 @@ export default defineConfig({
   use: {
     // baseURL: The starting URL for your tests
     // Now you can use page.goto('/') instead of page.goto('https://www.saucedemo.com/')
-    baseURL: 'https://www.saucedemo.com',
+    // Comes from the active profile (the local replica, staging, production, ...)
+    baseURL: profile.baseURL,
+
+    // actionTimeout / navigationTimeout: Per-action limits from the profile (0 = no limit)
+    actionTimeout: profile.timeouts.action,
+    navigationTimeout: profile.timeouts.navigation,
 
     // trace: When to collect detailed debugging traces
     // 'on-first-retry' means only collect traces when a test fails and is retried
@@ -81,23 +133,23 @@ export default defineConfig({
   // Each object represents a browser configuration
   projects: [
     {
-      // TYPESCRIPT: 'name' is a string property
-      name: 'chromium',
-      // TYPESCRIPT: '...' is the spread operator - it copies all properties from devices['Desktop Chrome']
-      // This gives us Chrome's viewport size, user agent, etc.
-      use: { ...devices['Desktop Chrome'] },
+      // SETUP PROJECT: Logs in once per persona and saves the session to playwright/.auth/
+      // The asUser() / authenticatedPage fixtures reuse those sessions instead of logging in
+      // It logs in with the first selected browser, so SAUCE_PROJECTS=firefox needs no Chrome
+      // TYPESCRIPT: testMatch is a RegExp - only *.setup.ts files belong to this project
+      name: 'setup',
+      testMatch: /.*\.setup\.ts/,
+      use: browserProjects[0]?.use ?? { ...devices['Desktop Chrome'] },
     },
 
-    {
-      name: 'firefox',
-      use: { ...devices['Desktop Firefox'] },
-    },
+    // The browser projects enabled by the profile (defined above)
+    ...browserProjects,
 
-    {
-      name: 'webkit',
-      // WebKit is the browser engine used by Safari
-      use: { ...devices['Desktop Safari'] },
-    },
+    // TARGET OVERRIDE PER PROJECT: any project can pin its own baseURL, e.g.
+    // {
+    //   name: 'chromium-live',
+    //   use: { ...devices['Desktop Chrome'], baseURL: 'https://www.saucedemo.com' },
+    // },
 
     // Mobile viewports (commented out for now, we'll enable these in Phase 9)
     // {
@@ -109,4 +161,21 @@ export default defineConfig({
     //   use: { ...devices['iPhone 12'] },
     // },
   ],
+
+  // webServer: Start the offline SauceDemo replica before the tests run
+  // Only needed for replica profiles; the live site is already running
+  // TYPESCRIPT: The ternary returns either a config object or 'undefined' (no server)
+  webServer: profile.replica ? {
+    command: 'npx tsx server/saucedemo-server.ts',
+    url: `${profile.baseURL}/health`,
+    // Passed to the replica: the port comes from the base URL, so the health check
+    // above always asks the right port; slow-network adds a delay to every response
+    env: {
+      SAUCE_LOCAL_PORT: String(replicaPort(profile.baseURL)),
+      SAUCE_REPLICA_LATENCY_MS: String(profile.replicaLatencyMs ?? 0),
+    },
+    // Locally, reuse a replica you've already started by hand; in CI always start fresh
+    reuseExistingServer: !process.env.CI,
+    timeout: 30 * 1000,
+  } : undefined,
 });
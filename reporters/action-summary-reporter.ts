@@ -0,0 +1,85 @@
+/**
+ * ACTION SUMMARY REPORTER
+ *
+ * Collects the action timelines (actions.json) that the actionTimeline fixture
+ * attaches to every test, and when the run ends prints which page-object
+ * actions were used most and which were slowest:
+ *
+ *   Most-used page actions:
+ *       214x  InventoryPage.addProductToCart
+ *        96x  LoginPage.login
+ *   ...
+ *
+ * The full per-action statistics are written to test-results/action-summary.json
+ * (or the outputFile option).
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Reporter options passed from playwright.config.ts
+ * - Reading attachments back in the main process
+ */
+
+import type { FullConfig, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ACTION_TIMELINE_ATTACHMENT, ActionRecord, formatActionSummary, summarizeActions } from '../utils/action-trace';
+
+export interface ActionSummaryOptions {
+  // Where to write the statistics (relative paths are from the config's directory)
+  outputFile?: string;
+  // How many actions each list shows
+  limit?: number;
+}
+
+class ActionSummaryReporter implements Reporter {
+  private readonly records: ActionRecord[] = [];
+  private outputFile: string;
+  private readonly limit: number;
+
+  constructor(options: ActionSummaryOptions = {}) {
+    this.outputFile = options.outputFile ?? path.join('test-results', 'action-summary.json');
+    this.limit = options.limit ?? 10;
+  }
+
+  onBegin(config: FullConfig): void {
+    const configDir = config.configFile ? path.dirname(config.configFile) : process.cwd();
+    this.outputFile = path.resolve(configDir, this.outputFile);
+  }
+
+  onTestEnd(_test: TestCase, result: TestResult): void {
+    const attachment = result.attachments.find(a => a.name === ACTION_TIMELINE_ATTACHMENT && a.body);
+    if (attachment?.body) {
+      // TYPESCRIPT: JSON.parse returns any - the fixture wrote an ActionRecord[]
+      this.records.push(...JSON.parse(attachment.body.toString('utf-8')) as ActionRecord[]);
+    }
+  }
+
+  onEnd(): void {
+    if (this.records.length === 0) {
+      return;
+    }
+    const summary = summarizeActions(this.records, this.limit);
+    console.log(`\n${formatActionSummary(summary)}\n`);
+
+    fs.mkdirSync(path.dirname(this.outputFile), { recursive: true });
+    fs.writeFileSync(this.outputFile, JSON.stringify(summarizeActions(this.records, Infinity), null, 2));
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+export default ActionSummaryReporter;
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. REPORTER OPTIONS:
+ *    ['./reporters/action-summary-reporter.ts', { limit: 5 }] - the object is passed to the constructor
+ *
+ * 2. OPTIONAL OPTIONS WITH DEFAULTS:
+ *    options.outputFile ?? path.join('test-results', 'action-summary.json')
+ *
+ * 3. TYPE ASSERTIONS ON PARSED JSON:
+ *    JSON.parse(text) as ActionRecord[] - we trust our own fixture's output
+ */
@@ -0,0 +1,107 @@
+/**
+ * REDACTING REPORTER
+ *
+ * Masks persona passwords in everything the HTML report keeps about a test:
+ * step titles (e.g. Fill "secret_sauce"), errors, captured stdout/stderr,
+ * text attachments and Playwright traces.
+ *
+ * It must be listed BEFORE the html reporter in playwright.config.ts: the html
+ * reporter copies attachments when the run ends, by which time this reporter
+ * has already rewritten them.
+ *
+ * Reporters run in the main process, not in the test workers, so this
+ * reporter resolves the persona passwords itself when the run begins.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Implementing Playwright's Reporter interface
+ * - Recursion over a tree of steps
+ * - Removing readonly with a mapped type (-readonly)
+ */
+
+import type { Reporter, TestCase, TestResult, TestStep, TestError } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import { personas } from '../utils/test-data';
+import { redact, redactBuffer, redactFile, redactTraceFile } from '../utils/redaction';
+
+// TYPESCRIPT: Playwright marks these properties readonly; -readonly lets us rewrite them in place
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+
+// One entry of result.attachments
+type Attachment = TestResult['attachments'][number];
+
+class RedactingReporter implements Reporter {
+
+  onBegin(): void {
+    // Reading persona.password resolves it and registers it for redaction
+    for (const persona of personas) {
+      try {
+        void persona.password;
+      } catch {
+        // No password configured for this persona - then it can't leak either
+      }
+    }
+  }
+
+  onTestEnd(_test: TestCase, result: TestResult): void {
+    result.steps.forEach(step => this.redactStep(step));
+    result.errors.forEach(error => this.redactError(error));
+
+    // TYPESCRIPT: stdout/stderr chunks are string | Buffer
+    const output = result as Mutable<TestResult>;
+    output.stdout = result.stdout.map(chunk => typeof chunk === 'string' ? redact(chunk) : redactBuffer(chunk));
+    output.stderr = result.stderr.map(chunk => typeof chunk === 'string' ? redact(chunk) : redactBuffer(chunk));
+
+    result.attachments.forEach((attachment, index) => {
+      try {
+        this.redactAttachment(attachment);
+      } catch (error) {
+        // A file we can't redact (e.g. a truncated trace zip) must not stay in the report
+        // as it is: delete it and leave a note in its place. The other attachments go on.
+        if (attachment.path) {
+          fs.rmSync(attachment.path, { force: true });
+        }
+        result.attachments[index] = {
+          name: `${attachment.name} (removed)`,
+          contentType: 'text/plain',
+          body: Buffer.from(`"${attachment.name}" was removed because it could not be redacted: ${redact((error as Error).message)}\n`)
+        };
+      }
+    });
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  /**
+   * Mask passwords in one attachment, in place
+   * @throws Error if a file attachment can't be read or rewritten
+   */
+  private redactAttachment(attachment: Attachment): void {
+    if (attachment.body) {
+      attachment.body = redactBuffer(attachment.body);
+    } else if (attachment.path && attachment.name === 'trace') {
+      redactTraceFile(attachment.path);
+    } else if (attachment.path && /^(text\/|application\/json)/.test(attachment.contentType)) {
+      redactFile(attachment.path);
+    }
+  }
+
+  private redactStep(step: TestStep): void {
+    (step as Mutable<TestStep>).title = redact(step.title);
+    if (step.error) {
+      this.redactError(step.error);
+    }
+    step.steps.forEach(child => this.redactStep(child));
+  }
+
+  private redactError(error: TestError): void {
+    const mutable = error as Mutable<TestError>;
+    if (mutable.message) mutable.message = redact(mutable.message);
+    if (mutable.stack) mutable.stack = redact(mutable.stack);
+    if (mutable.snippet) mutable.snippet = redact(mutable.snippet);
+    if (mutable.value) mutable.value = redact(mutable.value);
+  }
+}
+
+export default RedactingReporter;
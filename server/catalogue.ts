@@ -0,0 +1,89 @@
+/**
+ * REPLICA CATALOGUE
+ *
+ * The product catalogue served by the local SauceDemo replica.
+ * It mirrors the live site's inventory: the numeric item ids used in
+ * URLs (inventory-item.html?id=4) and in the localStorage cart, the
+ * names, descriptions and prices.
+ *
+ * NOTE: This is intentionally NOT read from test-data/products.json.
+ * The replica plays the role of "the application", and the test data
+ * plays the role of "what we expect" - keeping them separate means the
+ * tests still catch drift between the two.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Exported interfaces shared between modules
+ * - readonly arrays
+ */
+
+// TYPESCRIPT LEARNING: EXPORTED INTERFACE
+// Other server modules import this type to describe an inventory item
+export interface ReplicaItem {
+  id: number;           // Numeric id used in URLs and the cart (e.g. 4)
+  name: string;         // Display name
+  description: string;  // Display description
+  price: number;        // Price in dollars (e.g. 29.99)
+  image: string;        // Image file name under /static/media/
+}
+
+// TYPESCRIPT LEARNING: 'readonly ReplicaItem[]' prevents push/splice at compile time
+export const catalogue: readonly ReplicaItem[] = [
+  {
+    id: 4,
+    name: 'Sauce Labs Backpack',
+    description: 'carry.allTheThings() with the sleek, streamlined Sly Pack that melds uncompromising style with unequaled laptop and tablet protection.',
+    price: 29.99,
+    image: 'sauce-backpack.svg'
+  },
+  {
+    id: 0,
+    name: 'Sauce Labs Bike Light',
+    description: "A red light isn't the desired state in testing but it sure helps when riding your bike at night.",
+    price: 9.99,
+    image: 'bike-light.svg'
+  },
+  {
+    id: 1,
+    name: 'Sauce Labs Bolt T-Shirt',
+    description: 'Get your testing superhero on with the Sauce Labs bolt T-shirt.',
+    price: 15.99,
+    image: 'bolt-shirt.svg'
+  },
+  {
+    id: 5,
+    name: 'Sauce Labs Fleece Jacket',
+    description: "It's not every day that you come across a midweight quarter-zip fleece jacket capable of handling everything.",
+    price: 49.99,
+    image: 'sauce-pullover.svg'
+  },
+  {
+    id: 2,
+    name: 'Sauce Labs Onesie',
+    description: 'Rib snap infant onesie for the junior automation engineer in development.',
+    price: 7.99,
+    image: 'red-onesie.svg'
+  },
+  {
+    id: 3,
+    name: 'Test.allTheThings() T-Shirt (Red)',
+    description: 'This classic Sauce Labs t-shirt is perfect to wear when cozying up to your keyboard to automate a few tests.',
+    price: 15.99,
+    image: 'red-tatt.svg'
+  }
+];
+
+// Usernames the replica accepts, matching the list shown on the live login page
+export const acceptedUsernames: readonly string[] = [
+  'standard_user',
+  'locked_out_user',
+  'problem_user',
+  'performance_glitch_user',
+  'error_user',
+  'visual_user'
+];
+
+// Users who can't log in at all
+export const lockedUsernames: readonly string[] = ['locked_out_user'];
+
+// The live site uses one shared password for every user
+export const sharedPassword = 'secret_sauce';
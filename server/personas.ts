@@ -0,0 +1,99 @@
+/**
+ * REPLICA PERSONA BEHAVIOURS
+ *
+ * The live SauceDemo site ships deliberate defects for some of its users.
+ * This file describes those defects so the local replica can reproduce them
+ * on purpose - deterministically, so tests can assert them.
+ *
+ * The table is embedded in the HTML shell (see saucedemo-server.ts) and read by
+ * server/public/app.js after login. Users without an entry behave normally.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Optional properties to describe "feature flags"
+ * - Partial<Record<K, V>> lookup tables
+ */
+
+// TYPESCRIPT LEARNING: Every property is optional - a persona only lists the defects it has
+export interface PersonaBehaviour {
+  // Every inventory image points at the "404 dog" picture
+  brokenImages?: boolean;
+
+  // Only these items show the "404 dog" picture (by item id)
+  brokenImageIds?: number[];
+
+  // The sort dropdown changes its label but leaves the list in A-Z order
+  ignoresSort?: boolean;
+
+  // Choosing a sort option shows an alert instead of sorting
+  sortAlert?: string;
+
+  // Inventory "Add to cart" / "Remove" buttons that do nothing (by item id)
+  brokenCartButtonIds?: number[];
+
+  // Product links open the item with the next id instead of the clicked one
+  wrongItemLinks?: boolean;
+
+  // Typing into Last Name moves the text into First Name on checkout step one
+  lastNameOverwritesFirstName?: boolean;
+
+  // The Finish button on the checkout overview does nothing
+  finishBroken?: boolean;
+
+  // Displayed inventory prices differ from the real ones (by item id)
+  wrongPrices?: Record<number, number>;
+
+  // Adds the 'visual_failure' class to the cart icon and misaligns the last card's button
+  misalignedLayout?: boolean;
+
+  // Extra latency (ms) on login and on every page the user loads
+  latencyMs?: number;
+}
+
+// Image served instead of the real product picture for "broken image" defects
+export const BROKEN_IMAGE = 'sl-404.svg';
+
+// TYPESCRIPT: Number() because env vars are strings; '??' falls back when unset
+const GLITCH_LATENCY_MS = Number(process.env.SAUCE_GLITCH_LATENCY_MS ?? 3000);
+
+// TYPESCRIPT LEARNING: Partial<Record<string, T>> means "any string key, value may be missing"
+export const personaBehaviours: Partial<Record<string, PersonaBehaviour>> = {
+  problem_user: {
+    brokenImages: true,
+    ignoresSort: true,
+    brokenCartButtonIds: [1, 5, 3],   // Bolt T-Shirt, Fleece Jacket, T-Shirt (Red)
+    wrongItemLinks: true,
+    lastNameOverwritesFirstName: true
+  },
+
+  performance_glitch_user: {
+    latencyMs: GLITCH_LATENCY_MS
+  },
+
+  error_user: {
+    sortAlert: 'Sorting is broken! This error has been reported to Backtrace.',
+    brokenCartButtonIds: [1, 5, 3],
+    finishBroken: true
+  },
+
+  visual_user: {
+    brokenImageIds: [4],              // Backpack shows the "404 dog"
+    // The live site shows random prices; the replica uses fixed wrong ones
+    wrongPrices: {
+      4: 39.99,
+      0: 19.99,
+      1: 25.99,
+      5: 59.99,
+      2: 17.99,
+      3: 25.99
+    },
+    misalignedLayout: true
+  }
+};
+
+/**
+ * Look up the behaviour for a username
+ * @returns The persona's defects, or an empty object for well-behaved users
+ */
+export function behaviourFor(username: string | undefined): PersonaBehaviour {
+  return (username && personaBehaviours[username]) || {};
+}
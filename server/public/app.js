@@ -0,0 +1,774 @@
+/**
+ * LOCAL SAUCEDEMO REPLICA - CLIENT APP
+ *
+ * Renders every page of the replica in the browser, based on location.pathname.
+ * The server embeds the catalogue and user list as window.__SAUCE_REPLICA__.
+ *
+ * State is kept exactly where the live site keeps it:
+ * - Session: 'session-username' cookie (expires after 10 minutes)
+ * - Cart:    localStorage 'cart-contents' (JSON array of item ids, e.g. "[4,0]")
+ *
+ * Every id, class and data-test attribute below matches the live site, because
+ * the page objects in pages/ rely on them. Change them with care.
+ *
+ * Persona defects come from config.personas (see server/personas.ts) and are
+ * looked up for the logged-in user into the 'persona' variable.
+ *
+ * Plain browser JavaScript on purpose: it is served as-is, without a build step.
+ */
+(function () {
+  'use strict';
+
+  var config = window.__SAUCE_REPLICA__;
+  var SESSION_COOKIE = 'session-username';
+  var SESSION_SECONDS = 600;
+  var CART_KEY = 'cart-contents';
+
+  var SORT_LABELS = {
+    az: 'Name (A to Z)',
+    za: 'Name (Z to A)',
+    lohi: 'Price (low to high)',
+    hilo: 'Price (high to low)'
+  };
+
+  var root = document.getElementById('root');
+
+  // Defects of the logged-in user (empty object for well-behaved users)
+  var persona = {};
+
+  // ---------------------------------------------------------------------------
+  // HELPERS
+  // ---------------------------------------------------------------------------
+
+  function escapeHtml(value) {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  // The live site derives data-test ids from the lower-cased name with spaces as dashes
+  function slugify(name) {
+    return name.toLowerCase().replace(/\s+/g, '-');
+  }
+
+  function toCents(price) {
+    return Math.round(price * 100);
+  }
+
+  function formatCents(cents) {
+    return '$' + (cents / 100).toFixed(2);
+  }
+
+  function findItem(id) {
+    for (var i = 0; i < config.catalogue.length; i++) {
+      if (config.catalogue[i].id === id) {
+        return config.catalogue[i];
+      }
+    }
+    return undefined;
+  }
+
+  function imageFor(item) {
+    var broken = persona.brokenImages ||
+      (persona.brokenImageIds && persona.brokenImageIds.indexOf(item.id) !== -1);
+    return '/static/media/' + (broken ? config.brokenImage : item.image);
+  }
+
+  // Price shown on the inventory page (visual_user sees wrong ones)
+  function displayedPrice(item) {
+    if (persona.wrongPrices && persona.wrongPrices[item.id] !== undefined) {
+      return persona.wrongPrices[item.id];
+    }
+    return item.price;
+  }
+
+  function detailUrlFor(item) {
+    return '/inventory-item.html?id=' + (persona.wrongItemLinks ? item.id + 1 : item.id);
+  }
+
+  function navigate(path) {
+    window.location.href = path;
+  }
+
+  // ---------------------------------------------------------------------------
+  // SESSION (cookie)
+  // ---------------------------------------------------------------------------
+
+  function getSession() {
+    var match = document.cookie.match(/(?:^|;\s*)session-username=([^;]*)/);
+    if (!match) return null;
+    // A malformed cookie (e.g. '%E0%A4%A') is no session, as on the server:
+    // back to the login page rather than a blank page
+    try {
+      return decodeURIComponent(match[1]);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  function setSession(username) {
+    document.cookie = SESSION_COOKIE + '=' + encodeURIComponent(username) +
+      '; path=/; max-age=' + SESSION_SECONDS;
+  }
+
+  function clearSession() {
+    document.cookie = SESSION_COOKIE + '=; path=/; max-age=0';
+  }
+
+  // ---------------------------------------------------------------------------
+  // CART (localStorage)
+  // ---------------------------------------------------------------------------
+
+  function readCart() {
+    try {
+      var ids = JSON.parse(window.localStorage.getItem(CART_KEY) || '[]');
+      return Array.isArray(ids) ? ids : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  function writeCart(ids) {
+    if (ids.length === 0) {
+      window.localStorage.removeItem(CART_KEY);
+    } else {
+      window.localStorage.setItem(CART_KEY, JSON.stringify(ids));
+    }
+    updateBadge();
+  }
+
+  function isInCart(id) {
+    return readCart().indexOf(id) !== -1;
+  }
+
+  function addToCart(id) {
+    var ids = readCart();
+    if (ids.indexOf(id) === -1) {
+      ids.push(id);
+    }
+    writeCart(ids);
+  }
+
+  function removeFromCart(id) {
+    writeCart(readCart().filter(function (existing) { return existing !== id; }));
+  }
+
+  function updateBadge() {
+    var link = document.querySelector('.shopping_cart_link');
+    if (!link) {
+      return;
+    }
+    var count = readCart().length;
+    link.innerHTML = count > 0
+      ? '<span class="shopping_cart_badge" data-test="shopping-cart-badge">' + count + '</span>'
+      : '';
+  }
+
+  // ---------------------------------------------------------------------------
+  // SHARED LAYOUT
+  // ---------------------------------------------------------------------------
+
+  function renderHeader(title, secondaryContent) {
+    return '' +
+      '<div class="header_container" id="header_container" data-test="header-container">' +
+        '<div class="primary_header" data-test="primary-header">' +
+          '<div id="menu_button_container">' +
+            '<div class="bm-burger-button">' +
+              '<button type="button" id="react-burger-menu-btn">Open Menu</button>' +
+            '</div>' +
+            '<div class="bm-menu-wrap" aria-hidden="true">' +
+              '<div class="bm-menu">' +
+                '<nav class="bm-item-list">' +
+                  '<a id="inventory_sidebar_link" class="bm-item menu-item" href="/inventory.html" data-test="inventory-sidebar-link">All Items</a>' +
+                  '<a id="about_sidebar_link" class="bm-item menu-item" href="https://saucelabs.com/" data-test="about-sidebar-link">About</a>' +
+                  '<a id="logout_sidebar_link" class="bm-item menu-item" href="/" data-test="logout-sidebar-link">Logout</a>' +
+                  '<a id="reset_sidebar_link" class="bm-item menu-item" href="#" data-test="reset-sidebar-link">Reset App State</a>' +
+                '</nav>' +
+              '</div>' +
+              '<div class="bm-cross-button">' +
+                '<button type="button" id="react-burger-cross-btn">Close Menu</button>' +
+              '</div>' +
+            '</div>' +
+          '</div>' +
+          '<div class="header_label"><div class="app_logo">Swag Labs</div></div>' +
+          '<div id="shopping_cart_container" class="shopping_cart_container' + (persona.misalignedLayout ? ' visual_failure' : '') + '">' +
+            '<a class="shopping_cart_link" href="/cart.html" data-test="shopping-cart-link"></a>' +
+          '</div>' +
+        '</div>' +
+        '<div class="header_secondary_container" data-test="secondary-header">' +
+          secondaryContent +
+          '<span class="title" data-test="title">' + escapeHtml(title) + '</span>' +
+        '</div>' +
+      '</div>';
+  }
+
+  function renderFooter() {
+    return '' +
+      '<footer class="footer" data-test="footer">' +
+        '<div class="footer_copy" data-test="footer-copy">' +
+          '© ' + new Date().getFullYear() + ' Sauce Labs. All Rights Reserved. Terms of Service | Privacy Policy' +
+        '</div>' +
+      '</footer>';
+  }
+
+  function renderLayout(title, secondaryContent, body) {
+    root.innerHTML = '' +
+      '<div id="page_wrapper" class="page_wrapper">' +
+        '<div id="contents_wrapper">' +
+          renderHeader(title, secondaryContent) +
+          body +
+        '</div>' +
+        renderFooter() +
+      '</div>';
+
+    updateBadge();
+    bindMenu();
+  }
+
+  function bindMenu() {
+    var wrap = document.querySelector('.bm-menu-wrap');
+
+    function setOpen(open) {
+      wrap.classList.toggle('bm-menu-open', open);
+      wrap.setAttribute('aria-hidden', open ? 'false' : 'true');
+    }
+
+    document.getElementById('react-burger-menu-btn').addEventListener('click', function () {
+      setOpen(true);
+    });
+    document.getElementById('react-burger-cross-btn').addEventListener('click', function () {
+      setOpen(false);
+    });
+    document.getElementById('logout_sidebar_link').addEventListener('click', function (event) {
+      event.preventDefault();
+      clearSession();
+      navigate('/');
+    });
+    document.getElementById('reset_sidebar_link').addEventListener('click', function (event) {
+      event.preventDefault();
+      writeCart([]);
+      setOpen(false);
+      renderRoute();
+    });
+  }
+
+  // Shared markup for a line in the cart and on the checkout overview
+  function renderCartItem(item, withRemoveButton) {
+    var button = withRemoveButton
+      ? '<button class="btn btn_secondary btn_small cart_button" data-test="remove-' + escapeHtml(slugify(item.name)) + '"' +
+        ' id="remove-' + escapeHtml(slugify(item.name)) + '" name="remove-' + escapeHtml(slugify(item.name)) + '"' +
+        ' data-item-id="' + item.id + '">Remove</button>'
+      : '';
+
+    return '' +
+      '<div class="cart_item" data-test="inventory-item">' +
+        '<div class="cart_quantity" data-test="item-quantity">1</div>' +
+        '<div class="cart_item_label">' +
+          '<a href="/inventory-item.html?id=' + item.id + '" id="item_' + item.id + '_title_link" data-test="item-' + item.id + '-title-link">' +
+            '<div class="inventory_item_name" data-test="inventory-item-name">' + escapeHtml(item.name) + '</div>' +
+          '</a>' +
+          '<div class="inventory_item_desc" data-test="inventory-item-desc">' + escapeHtml(item.description) + '</div>' +
+          '<div class="item_pricebar" data-test="item-pricebar">' +
+            '<div class="inventory_item_price" data-test="inventory-item-price">' + formatCents(toCents(item.price)) + '</div>' +
+            button +
+          '</div>' +
+        '</div>' +
+      '</div>';
+  }
+
+  function cartItems() {
+    return readCart().map(findItem).filter(function (item) { return item !== undefined; });
+  }
+
+  // ---------------------------------------------------------------------------
+  // LOGIN PAGE ( / )
+  // ---------------------------------------------------------------------------
+
+  var ERROR_ICON = '<svg class="error_icon" data-icon="times-circle" viewBox="0 0 512 512" width="16" height="16" aria-hidden="true">' +
+    '<circle cx="256" cy="256" r="240" fill="currentColor"/></svg>';
+
+  function showFormError(form, message) {
+    var container = form.querySelector('.error-message-container');
+    container.className = 'error-message-container error';
+    container.innerHTML = '' +
+      '<h3 data-test="error">' +
+        '<button class="error-button" data-test="error-button" type="button">' +
+          '<svg viewBox="0 0 352 512" width="10" height="14" aria-hidden="true"><path d="M0 0L352 512M352 0L0 512" stroke="currentColor"/></svg>' +
+        '</button>' +
+        escapeHtml(message) +
+      '</h3>';
+
+    var groups = form.querySelectorAll('.form_group');
+    for (var i = 0; i < groups.length; i++) {
+      var input = groups[i].querySelector('input');
+      input.classList.add('error');
+      if (!groups[i].querySelector('.error_icon')) {
+        groups[i].insertAdjacentHTML('beforeend', ERROR_ICON);
+      }
+    }
+
+    container.querySelector('.error-button').addEventListener('click', function () {
+      clearFormError(form);
+    });
+  }
+
+  function clearFormError(form) {
+    var container = form.querySelector('.error-message-container');
+    container.className = 'error-message-container';
+    container.innerHTML = '';
+
+    var icons = form.querySelectorAll('.error_icon');
+    for (var i = 0; i < icons.length; i++) {
+      icons[i].parentNode.removeChild(icons[i]);
+    }
+    var inputs = form.querySelectorAll('input.error');
+    for (var j = 0; j < inputs.length; j++) {
+      inputs[j].classList.remove('error');
+    }
+  }
+
+  function renderLogin(initialError) {
+    var usernames = config.acceptedUsernames.map(escapeHtml).join('<br>');
+
+    root.innerHTML = '' +
+      '<div class="login_container">' +
+        '<div class="login_logo">Swag Labs</div>' +
+        '<div class="login_wrapper" data-test="login-container">' +
+          '<div class="login_wrapper-inner">' +
+            '<div id="login_button_container" class="form_column">' +
+              '<div class="login-box">' +
+                '<form>' +
+                  '<div class="form_group">' +
+                    '<input class="input_error form_input" placeholder="Username" type="text" data-test="username" id="user-name" name="user-name" autocorrect="off" autocapitalize="none" value="">' +
+                  '</div>' +
+                  '<div class="form_group">' +
+                    '<input class="input_error form_input" placeholder="Password" type="password" data-test="password" id="password" name="password" autocorrect="off" autocapitalize="none" value="">' +
+                  '</div>' +
+                  '<div class="error-message-container"></div>' +
+                  '<input type="submit" class="submit-button btn_action" data-test="login-button" id="login-button" name="login-button" value="Login">' +
+                '</form>' +
+              '</div>' +
+            '</div>' +
+          '</div>' +
+          '<div class="login_credentials_wrap" data-test="login-credentials-container">' +
+            '<div class="login_credentials_wrap-inner">' +
+              '<div id="login_credentials" class="login_credentials" data-test="login-credentials">' +
+                '<h4>Accepted usernames are:</h4>' + usernames +
+              '</div>' +
+              '<div class="login_password" data-test="login-password">' +
+                '<h4>Password for all users:</h4>' + escapeHtml(config.password) +
+              '</div>' +
+            '</div>' +
+          '</div>' +
+        '</div>' +
+      '</div>';
+
+    var form = root.querySelector('form');
+
+    if (initialError) {
+      showFormError(form, initialError);
+    }
+
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+
+      var username = document.getElementById('user-name').value;
+      var password = document.getElementById('password').value;
+
+      if (!username) {
+        showFormError(form, 'Epic sadface: Username is required');
+      } else if (!password) {
+        showFormError(form, 'Epic sadface: Password is required');
+      } else if (config.acceptedUsernames.indexOf(username) === -1 || password !== config.password) {
+        showFormError(form, 'Epic sadface: Username and password do not match any user in this service');
+      } else if (config.lockedUsernames.indexOf(username) !== -1) {
+        showFormError(form, 'Epic sadface: Sorry, this user has been locked out.');
+      } else {
+        setSession(username);
+        navigate('/inventory.html');
+      }
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // INVENTORY PAGE ( /inventory.html )
+  // ---------------------------------------------------------------------------
+
+  function sortItems(items, option) {
+    var sorted = items.slice();
+    sorted.sort(function (a, b) {
+      switch (option) {
+        case 'za': return a.name < b.name ? 1 : a.name > b.name ? -1 : 0;
+        case 'lohi': return a.price - b.price;
+        case 'hilo': return b.price - a.price;
+        default: return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+      }
+    });
+    return sorted;
+  }
+
+  function renderInventoryButton(item) {
+    var slug = escapeHtml(slugify(item.name));
+    var items = config.catalogue;
+    var misaligned = persona.misalignedLayout && item.id === items[items.length - 1].id
+      ? ' btn_inventory_misaligned'
+      : '';
+
+    return isInCart(item.id)
+      ? '<button class="btn btn_secondary btn_small btn_inventory' + misaligned + '" data-test="remove-' + slug + '" id="remove-' + slug + '" name="remove-' + slug + '" data-item-id="' + item.id + '">Remove</button>'
+      : '<button class="btn btn_primary btn_small btn_inventory' + misaligned + '" data-test="add-to-cart-' + slug + '" id="add-to-cart-' + slug + '" name="add-to-cart-' + slug + '" data-item-id="' + item.id + '">Add to cart</button>';
+  }
+
+  function renderInventoryItem(item) {
+    var slug = escapeHtml(slugify(item.name));
+    var detailUrl = detailUrlFor(item);
+
+    return '' +
+      '<div class="inventory_item" data-test="inventory-item">' +
+        '<div class="inventory_item_img">' +
+          '<a href="' + detailUrl + '" id="item_' + item.id + '_img_link" data-test="item-' + item.id + '-img-link">' +
+            '<img alt="' + escapeHtml(item.name) + '" class="inventory_item_img" src="' + escapeHtml(imageFor(item)) + '" data-test="inventory-item-' + slug + '-img">' +
+          '</a>' +
+        '</div>' +
+        '<div class="inventory_item_description" data-test="inventory-item-description">' +
+          '<div class="inventory_item_label">' +
+            '<a href="' + detailUrl + '" id="item_' + item.id + '_title_link" data-test="item-' + item.id + '-title-link">' +
+              '<div class="inventory_item_name" data-test="inventory-item-name">' + escapeHtml(item.name) + '</div>' +
+            '</a>' +
+            '<div class="inventory_item_desc" data-test="inventory-item-desc">' + escapeHtml(item.description) + '</div>' +
+          '</div>' +
+          '<div class="pricebar">' +
+            '<div class="inventory_item_price" data-test="inventory-item-price">' + formatCents(toCents(displayedPrice(item))) + '</div>' +
+            renderInventoryButton(item) +
+          '</div>' +
+        '</div>' +
+      '</div>';
+  }
+
+  function renderInventory() {
+    var sortOption = 'az';
+
+    var sortControl = '' +
+      '<div class="right_component">' +
+        '<span class="select_container">' +
+          '<span class="active_option" data-test="active-option">' + SORT_LABELS.az + '</span>' +
+          '<select class="product_sort_container" data-test="product-sort-container">' +
+            Object.keys(SORT_LABELS).map(function (value) {
+              return '<option value="' + value + '">' + SORT_LABELS[value] + '</option>';
+            }).join('') +
+          '</select>' +
+        '</span>' +
+      '</div>';
+
+    renderLayout('Products', sortControl,
+      '<div id="inventory_container" class="inventory_container" data-test="inventory-container">' +
+        '<div class="inventory_list" data-test="inventory-list"></div>' +
+      '</div>');
+
+    var list = root.querySelector('.inventory_list');
+
+    function renderList() {
+      list.innerHTML = sortItems(config.catalogue, sortOption).map(renderInventoryItem).join('');
+    }
+
+    list.addEventListener('click', function (event) {
+      var button = event.target.closest('button[data-item-id]');
+      if (!button) {
+        return;
+      }
+      var id = Number(button.getAttribute('data-item-id'));
+      // problem_user / error_user: some buttons are dead
+      if (persona.brokenCartButtonIds && persona.brokenCartButtonIds.indexOf(id) !== -1) {
+        console.error('Failed to update the cart for item ' + id);
+        return;
+      }
+      if (isInCart(id)) {
+        removeFromCart(id);
+      } else {
+        addToCart(id);
+      }
+      button.outerHTML = renderInventoryButton(findItem(id));
+    });
+
+    root.querySelector('.product_sort_container').addEventListener('change', function (event) {
+      // error_user: sorting blows up and resets the dropdown
+      if (persona.sortAlert) {
+        console.error(persona.sortAlert);
+        window.alert(persona.sortAlert);
+        event.target.value = sortOption;
+        return;
+      }
+
+      root.querySelector('.active_option').textContent = SORT_LABELS[event.target.value];
+
+      // problem_user: the label changes but the list stays in A-Z order
+      if (persona.ignoresSort) {
+        return;
+      }
+
+      sortOption = event.target.value;
+      renderList();
+    });
+
+    renderList();
+  }
+
+  // ---------------------------------------------------------------------------
+  // ITEM DETAIL PAGE ( /inventory-item.html?id=N )
+  // ---------------------------------------------------------------------------
+
+  function renderItemDetail() {
+    var id = Number(new URLSearchParams(window.location.search).get('id'));
+    var item = findItem(id);
+
+    var backButton = '<button class="btn btn_secondary back btn_large inventory_details_back_button" data-test="back-to-products" id="back-to-products" name="back-to-products">Back to products</button>';
+
+    if (!item) {
+      renderLayout('', backButton,
+        '<div class="inventory_details" data-test="inventory-container">' +
+          '<div class="inventory_details_name large_size" data-test="inventory-item-name">ITEM NOT FOUND</div>' +
+        '</div>');
+      bindBackToProducts();
+      return;
+    }
+
+    function renderButton() {
+      return isInCart(item.id)
+        ? '<button class="btn btn_secondary btn_small btn_inventory" data-test="remove" id="remove" name="remove">Remove</button>'
+        : '<button class="btn btn_primary btn_small btn_inventory" data-test="add-to-cart" id="add-to-cart" name="add-to-cart">Add to cart</button>';
+    }
+
+    renderLayout('', backButton,
+      '<div class="inventory_details" data-test="inventory-container">' +
+        '<div class="inventory_details_container">' +
+          '<div class="inventory_details_img_container">' +
+            '<img alt="' + escapeHtml(item.name) + '" class="inventory_details_img" src="/static/media/' + escapeHtml(item.image) + '" data-test="item-' + escapeHtml(slugify(item.name)) + '-img">' +
+          '</div>' +
+          '<div class="inventory_details_desc_container">' +
+            '<div class="inventory_details_name large_size" data-test="inventory-item-name">' + escapeHtml(item.name) + '</div>' +
+            '<div class="inventory_details_desc large_size" data-test="inventory-item-desc">' + escapeHtml(item.description) + '</div>' +
+            '<div class="inventory_details_price" data-test="inventory-item-price">' + formatCents(toCents(item.price)) + '</div>' +
+            '<span class="cart_button_slot">' + renderButton() + '</span>' +
+          '</div>' +
+        '</div>' +
+      '</div>');
+
+    var slot = root.querySelector('.cart_button_slot');
+    slot.addEventListener('click', function (event) {
+      if (!event.target.closest('button')) {
+        return;
+      }
+      if (isInCart(item.id)) {
+        removeFromCart(item.id);
+      } else {
+        addToCart(item.id);
+      }
+      slot.innerHTML = renderButton();
+    });
+
+    bindBackToProducts();
+  }
+
+  function bindBackToProducts() {
+    document.getElementById('back-to-products').addEventListener('click', function () {
+      navigate('/inventory.html');
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // CART PAGE ( /cart.html )
+  // ---------------------------------------------------------------------------
+
+  function renderCart() {
+    renderLayout('Your Cart', '',
+      '<div id="cart_contents_container" class="cart_contents_container" data-test="cart-contents-container">' +
+        '<div>' +
+          '<div class="cart_list" data-test="cart-list">' +
+            '<div class="cart_quantity_label" data-test="cart-quantity-label">QTY</div>' +
+            '<div class="cart_desc_label" data-test="cart-desc-label">Description</div>' +
+            cartItems().map(function (item) { return renderCartItem(item, true); }).join('') +
+          '</div>' +
+          '<div class="cart_footer">' +
+            '<button class="btn btn_secondary back btn_medium" data-test="continue-shopping" id="continue-shopping" name="continue-shopping">Continue Shopping</button>' +
+            '<button class="btn btn_action btn_medium checkout_button" data-test="checkout" id="checkout" name="checkout">Checkout</button>' +
+          '</div>' +
+        '</div>' +
+      '</div>');
+
+    root.querySelector('.cart_list').addEventListener('click', function (event) {
+      var button = event.target.closest('button[data-item-id]');
+      if (!button) {
+        return;
+      }
+      removeFromCart(Number(button.getAttribute('data-item-id')));
+      var line = button.closest('.cart_item');
+      line.parentNode.removeChild(line);
+    });
+
+    document.getElementById('continue-shopping').addEventListener('click', function () {
+      navigate('/inventory.html');
+    });
+    document.getElementById('checkout').addEventListener('click', function () {
+      navigate('/checkout-step-one.html');
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // CHECKOUT STEP ONE ( /checkout-step-one.html )
+  // ---------------------------------------------------------------------------
+
+  function renderCheckoutStepOne() {
+    renderLayout('Checkout: Your Information', '',
+      '<div class="checkout_info_container" data-test="checkout-info-container">' +
+        '<div class="checkout_info_wrapper">' +
+          '<form>' +
+            '<div class="checkout_info" data-test="checkout-info">' +
+              '<div class="form_group">' +
+                '<input class="input_error form_input" placeholder="First Name" type="text" data-test="firstName" id="first-name" name="firstName" autocorrect="off" autocapitalize="none" value="">' +
+              '</div>' +
+              '<div class="form_group">' +
+                '<input class="input_error form_input" placeholder="Last Name" type="text" data-test="lastName" id="last-name" name="lastName" autocorrect="off" autocapitalize="none" value="">' +
+              '</div>' +
+              '<div class="form_group">' +
+                '<input class="input_error form_input" placeholder="Zip/Postal Code" type="text" data-test="postalCode" id="postal-code" name="postalCode" autocorrect="off" autocapitalize="none" value="">' +
+              '</div>' +
+              '<div class="error-message-container"></div>' +
+            '</div>' +
+            '<div class="checkout_buttons">' +
+              '<button class="btn btn_secondary back btn_medium cart_cancel_link" data-test="cancel" id="cancel" name="cancel" type="button">Cancel</button>' +
+              '<input type="submit" class="submit-button btn btn_primary cart_button btn_action" data-test="continue" id="continue" name="continue" value="Continue">' +
+            '</div>' +
+          '</form>' +
+        '</div>' +
+      '</div>');
+
+    var form = root.querySelector('form');
+
+    // problem_user: whatever is typed into Last Name lands in First Name
+    if (persona.lastNameOverwritesFirstName) {
+      document.getElementById('last-name').addEventListener('input', function (event) {
+        document.getElementById('first-name').value = event.target.value;
+        event.target.value = '';
+      });
+    }
+
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+
+      if (!document.getElementById('first-name').value) {
+        showFormError(form, 'Error: First Name is required');
+      } else if (!document.getElementById('last-name').value) {
+        showFormError(form, 'Error: Last Name is required');
+      } else if (!document.getElementById('postal-code').value) {
+        showFormError(form, 'Error: Postal Code is required');
+      } else {
+        navigate('/checkout-step-two.html');
+      }
+    });
+
+    document.getElementById('cancel').addEventListener('click', function () {
+      navigate('/cart.html');
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // CHECKOUT STEP TWO ( /checkout-step-two.html )
+  // ---------------------------------------------------------------------------
+
+  function renderCheckoutStepTwo() {
+    var items = cartItems();
+    var subtotal = items.reduce(function (sum, item) { return sum + toCents(item.price); }, 0);
+    var tax = Math.round(subtotal * 0.08);
+
+    renderLayout('Checkout: Overview', '',
+      '<div id="checkout_summary_container" class="checkout_summary_container" data-test="checkout-summary-container">' +
+        '<div>' +
+          '<div class="cart_list" data-test="cart-list">' +
+            '<div class="cart_quantity_label" data-test="cart-quantity-label">QTY</div>' +
+            '<div class="cart_desc_label" data-test="cart-desc-label">Description</div>' +
+            items.map(function (item) { return renderCartItem(item, false); }).join('') +
+          '</div>' +
+          '<div class="summary_info">' +
+            '<div class="summary_info_label" data-test="payment-info-label">Payment Information:</div>' +
+            '<div class="summary_value_label" data-test="payment-info-value">SauceCard #31337</div>' +
+            '<div class="summary_info_label" data-test="shipping-info-label">Shipping Information:</div>' +
+            '<div class="summary_value_label" data-test="shipping-info-value">Free Pony Express Delivery!</div>' +
+            '<div class="summary_info_label" data-test="total-info-label">Price Total</div>' +
+            '<div class="summary_subtotal_label" data-test="subtotal-label">Item total: ' + formatCents(subtotal) + '</div>' +
+            '<div class="summary_tax_label" data-test="tax-label">Tax: ' + formatCents(tax) + '</div>' +
+            '<div class="summary_info_label summary_total_label" data-test="total-label">Total: ' + formatCents(subtotal + tax) + '</div>' +
+            '<div class="cart_footer">' +
+              '<button class="btn btn_secondary back btn_medium cart_cancel_link" data-test="cancel" id="cancel" name="cancel">Cancel</button>' +
+              '<button class="btn btn_action btn_medium cart_button" data-test="finish" id="finish" name="finish">Finish</button>' +
+            '</div>' +
+          '</div>' +
+        '</div>' +
+      '</div>');
+
+    document.getElementById('cancel').addEventListener('click', function () {
+      navigate('/inventory.html');
+    });
+    document.getElementById('finish').addEventListener('click', function () {
+      // error_user: the order can never be completed
+      if (persona.finishBroken) {
+        console.error('Failed to finish the order');
+        return;
+      }
+      writeCart([]);
+      navigate('/checkout-complete.html');
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // CHECKOUT COMPLETE ( /checkout-complete.html )
+  // ---------------------------------------------------------------------------
+
+  function renderCheckoutComplete() {
+    renderLayout('Checkout: Complete!', '',
+      '<div id="checkout_complete_container" class="checkout_complete_container" data-test="checkout-complete-container">' +
+        '<h2 class="complete-header" data-test="complete-header">Thank you for your order!</h2>' +
+        '<div class="complete-text" data-test="complete-text">Your order has been dispatched, and will arrive just as fast as the pony can get there!</div>' +
+        '<button class="btn btn_primary btn_small" data-test="back-to-products" id="back-to-products" name="back-to-products">Back Home</button>' +
+      '</div>');
+
+    bindBackToProducts();
+  }
+
+  // ---------------------------------------------------------------------------
+  // ROUTER
+  // ---------------------------------------------------------------------------
+
+  var ROUTES = {
+    '/inventory.html': renderInventory,
+    '/inventory-item.html': renderItemDetail,
+    '/cart.html': renderCart,
+    '/checkout-step-one.html': renderCheckoutStepOne,
+    '/checkout-step-two.html': renderCheckoutStepTwo,
+    '/checkout-complete.html': renderCheckoutComplete
+  };
+
+  function renderRoute() {
+    var pathname = window.location.pathname;
+    var render = ROUTES[pathname];
+
+    persona = (config.personas && config.personas[getSession()]) || {};
+
+    if (!render) {
+      renderLogin(null);
+      return;
+    }
+
+    // Protected page without a session: go back to the login page, like the live site
+    if (!getSession()) {
+      window.history.replaceState(null, '', '/');
+      renderLogin("Epic sadface: You can only access '" + pathname + "' when you are logged in.");
+      return;
+    }
+
+    render();
+  }
+
+  renderRoute();
+})();
@@ -0,0 +1,247 @@
+/**
+ * LOCAL SAUCEDEMO REPLICA SERVER
+ *
+ * A small, dependency-free HTTP server that stands in for
+ * https://www.saucedemo.com so the suite can run without the internet.
+ *
+ * Like the real site, the replica is a single-page app:
+ * - Every page route (/, /inventory.html, /cart.html, ...) serves the same HTML shell
+ * - /static/app.js renders the right page in the browser based on the URL
+ * - The session lives in the 'session-username' cookie
+ * - The cart lives in localStorage under 'cart-contents'
+ *
+ * The markup keeps the same ids, CSS classes and data-test attributes as the
+ * live site, so the page objects in pages/ work against either target.
+ *
+ * Persona defects (problem_user, performance_glitch_user, error_user,
+ * visual_user) are reproduced on purpose - see personas.ts.
+ *
+ * USAGE:
+ *   npx tsx server/saucedemo-server.ts                  # listens on port 4300
+ *   SAUCE_LOCAL_PORT=5000 npx tsx server/...            # custom port
+ *   SAUCE_REPLICA_LATENCY_MS=750 npx tsx server/...     # slow network: delay every response
+ *
+ * Playwright starts it automatically through the 'webServer' entry in
+ * playwright.config.ts for replica profiles (SAUCE_PROFILE=local or slow-network).
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Node's built-in http module
+ * - Record types for lookup tables
+ * - Promises wrapping callback APIs
+ */
+
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { catalogue, acceptedUsernames, lockedUsernames, sharedPassword } from './catalogue';
+import { personaBehaviours, behaviourFor, BROKEN_IMAGE } from './personas';
+
+// TYPESCRIPT LEARNING: Number() converts the env var string, '??' supplies the default
+export const DEFAULT_PORT = Number(process.env.SAUCE_LOCAL_PORT ?? 4300);
+
+// Delay added to every response (except /health) to simulate a slow network
+const NETWORK_LATENCY_MS = Number(process.env.SAUCE_REPLICA_LATENCY_MS ?? 0);
+
+// Routes rendered by the client app. Anything else is a static file or a 404.
+const APP_ROUTES: readonly string[] = [
+  '/',
+  '/inventory.html',
+  '/inventory-item.html',
+  '/cart.html',
+  '/checkout-step-one.html',
+  '/checkout-step-two.html',
+  '/checkout-complete.html'
+];
+
+// TYPESCRIPT LEARNING: Record<K, V> is an object type with keys K and values V
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.svg': 'image/svg+xml'
+};
+
+const PUBLIC_DIR = path.join(__dirname, 'public');
+
+/**
+ * Build the HTML shell served for every app route.
+ * The catalogue and user list are embedded as JSON so app.js can render
+ * synchronously, without a second request.
+ */
+function renderShell(): string {
+  const config = {
+    catalogue,
+    acceptedUsernames,
+    lockedUsernames,
+    password: sharedPassword,
+    personas: personaBehaviours,
+    brokenImage: BROKEN_IMAGE
+  };
+
+  // Escape '<' so product text can never close the <script> tag early
+  const json = JSON.stringify(config).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Swag Labs</title>
+  <link rel="stylesheet" href="/static/styles.css">
+</head>
+<body>
+  <noscript>You need to enable JavaScript to run this app.</noscript>
+  <div id="root"></div>
+  <script>window.__SAUCE_REPLICA__ = ${json};</script>
+  <script src="/static/app.js"></script>
+</body>
+</html>`;
+}
+
+/**
+ * Render a simple placeholder product image.
+ * The live site ships photos; the replica only needs something with a stable src.
+ */
+function renderProductImage(fileName: string): string | undefined {
+  // The "404 dog" shown to personas with broken images
+  const label = fileName === BROKEN_IMAGE
+    ? '404 - dog not found'
+    : catalogue.find(product => product.image === fileName)?.name;
+
+  if (!label) {
+    return undefined;
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="240" height="240" viewBox="0 0 240 240">
+  <rect width="240" height="240" fill="#e2231a" opacity="0.1"/>
+  <text x="120" y="125" font-family="sans-serif" font-size="14" text-anchor="middle" fill="#132322">${label.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</text>
+</svg>`;
+}
+
+/**
+ * Read the logged-in username from the request's session cookie
+ * A cookie that isn't valid percent-encoding (e.g. "%E0%A4%A") counts as no session,
+ * rather than crashing the request handler.
+ */
+function sessionUsername(req: http.IncomingMessage): string | undefined {
+  const match = (req.headers.cookie ?? '').match(/(?:^|;\s*)session-username=([^;]*)/);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Handle a single request
+ */
+function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+  // TYPESCRIPT: The URL constructor needs an absolute URL, so we give it a dummy origin
+  // It throws on a request target it can't parse (e.g. '//['), which is the client's mistake
+  let url: URL;
+  try {
+    url = new URL(req.url ?? '/', 'http://localhost');
+  } catch {
+    res.writeHead(400, { 'Content-Type': 'text/plain' });
+    res.end('Bad Request');
+    return;
+  }
+  const pathname = url.pathname;
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { 'Content-Type': 'text/plain' });
+    res.end('Method Not Allowed');
+    return;
+  }
+
+  // Health check used by Playwright's webServer to know when we're ready
+  if (pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end('ok');
+    return;
+  }
+
+  if (APP_ROUTES.includes(pathname)) {
+    // performance_glitch_user: every page they load is slow
+    const latencyMs = behaviourFor(sessionUsername(req)).latencyMs ?? 0;
+
+    setTimeout(() => respondSafely(res, () => {
+      res.writeHead(200, {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store'
+      });
+      res.end(renderShell());
+    }), latencyMs);
+    return;
+  }
+
+  if (pathname.startsWith('/static/media/')) {
+    const svg = renderProductImage(path.basename(pathname));
+    if (svg) {
+      res.writeHead(200, { 'Content-Type': CONTENT_TYPES['.svg'] });
+      res.end(svg);
+      return;
+    }
+  }
+
+  if (pathname.startsWith('/static/')) {
+    // path.basename() strips any '../' so requests can't escape the public folder
+    const filePath = path.join(PUBLIC_DIR, path.basename(pathname));
+    const contentType = CONTENT_TYPES[path.extname(filePath)];
+
+    if (contentType && fs.existsSync(filePath)) {
+      res.writeHead(200, { 'Content-Type': contentType });
+      res.end(fs.readFileSync(filePath));
+      return;
+    }
+  }
+
+  res.writeHead(404, { 'Content-Type': 'text/plain' });
+  res.end('Not Found');
+}
+
+/**
+ * Run a handler from a timer callback, answering 500 if it throws
+ * An error thrown in a setTimeout callback is never caught and would end the
+ * process, leaving every later test without a server
+ */
+function respondSafely(res: http.ServerResponse, handler: () => void): void {
+  try {
+    handler();
+  } catch (error) {
+    console.error('SauceDemo replica: request failed', error);
+    if (!res.headersSent) {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+    }
+    res.end('Internal Server Error');
+  }
+}
+
+/**
+ * Start the replica server
+ * TYPESCRIPT: Wraps the callback-based listen() in a Promise so callers can await it
+ *
+ * @param port - Port to listen on (default: SAUCE_LOCAL_PORT or 4300)
+ * @returns The running http.Server (call close() to stop it)
+ */
+export function startReplicaServer(port: number = DEFAULT_PORT): Promise<http.Server> {
+  return new Promise((resolve, reject) => {
+    const server = http.createServer((req, res) => {
+      // The health check answers immediately so Playwright isn't kept waiting
+      const delayMs = req.url === '/health' ? 0 : NETWORK_LATENCY_MS;
+      setTimeout(() => respondSafely(res, () => handleRequest(req, res)), delayMs);
+    });
+    server.once('error', reject);
+    server.listen(port, () => resolve(server));
+  });
+}
+
+// Only start listening when run directly (npx tsx server/saucedemo-server.ts),
+// not when another module imports startReplicaServer()
+if (require.main === module) {
+  startReplicaServer().then(() => {
+    console.log(`SauceDemo replica listening on http://localhost:${DEFAULT_PORT}`);
+  });
+}
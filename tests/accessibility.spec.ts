@@ -20,7 +20,10 @@
 import { test, expect } from '@playwright/test';
 import { LoginPage } from '../pages/LoginPage';
 import { InventoryPage } from '../pages/InventoryPage';
-import users from '../test-data/users.json';
+import { getPersona } from '../utils/test-data';
+
+// TYPESCRIPT: Looked up once; getPersona() throws a clear error if users.json changes
+const standardUser = getPersona('standard_user');
 
 test.describe('Accessibility Tests', () => {
 
@@ -47,14 +50,14 @@ test.describe('Accessibility Tests', () => {
     await expect(loginPage.usernameInput).toBeFocused();
     
     // Type username
-    await page.keyboard.type(users.validUsers[0].username);
+    await page.keyboard.type(standardUser.username);
     
     // Tab to password field
     await page.keyboard.press('Tab');
     await expect(loginPage.passwordInput).toBeFocused();
     
     // Type password
-    await page.keyboard.type(users.validUsers[0].password);
+    await page.keyboard.type(standardUser.password);
     
     // Move focus to login button and submit with Enter
     // (tab order can vary slightly across browser engines)
@@ -98,7 +101,7 @@ test.describe('Accessibility Tests', () => {
     const inventoryPage = new InventoryPage(page);
     
     await loginPage.goto();
-    await loginPage.login(users.validUsers[0].username, users.validUsers[0].password);
+    await loginPage.login(standardUser.username, standardUser.password);
     
     // TYPESCRIPT: Check product images have alt attributes
     const images = page.locator('.inventory_item_img img');
@@ -118,7 +121,7 @@ test.describe('Accessibility Tests', () => {
     const inventoryPage = new InventoryPage(page);
     
     await loginPage.goto();
-    await loginPage.login(users.validUsers[0].username, users.validUsers[0].password);
+    await loginPage.login(standardUser.username, standardUser.password);
     
     // TYPESCRIPT: Test that product links can be activated with keyboard
     const firstProductLink = page.getByRole('link', { name: /Sauce Labs Backpack/i }).first();
@@ -139,8 +142,8 @@ test.describe('Accessibility Tests', () => {
     await loginPage.goto();
     
     // Fill form
-    await loginPage.fillUsername(users.validUsers[0].username);
-    await loginPage.fillPassword(users.validUsers[0].password);
+    await loginPage.fillUsername(standardUser.username);
+    await loginPage.fillPassword(standardUser.password);
     
     // TYPESCRIPT: Press Enter to submit (without clicking button)
     await page.keyboard.press('Enter');
@@ -167,14 +170,14 @@ test.describe('Accessibility Tests', () => {
     const inventoryPage = new InventoryPage(page);
     
     await loginPage.goto();
-    await loginPage.login(users.validUsers[0].username, users.validUsers[0].password);
+    await loginPage.login(standardUser.username, standardUser.password);
     
     // Add item to cart
     await inventoryPage.addProductToCart('Sauce Labs Backpack');
     
     // TYPESCRIPT: Verify cart badge is visible and has content
-    await expect(inventoryPage.shoppingCartBadge).toBeVisible();
-    const badgeText = await inventoryPage.shoppingCartBadge.textContent();
+    await expect(inventoryPage.cartBadge.badge).toBeVisible();
+    const badgeText = await inventoryPage.cartBadge.badge.textContent();
     expect(badgeText).toBe('1');
   });
 
@@ -183,7 +186,7 @@ test.describe('Accessibility Tests', () => {
     const inventoryPage = new InventoryPage(page);
     
     await loginPage.goto();
-    await loginPage.login(users.validUsers[0].username, users.validUsers[0].password);
+    await loginPage.login(standardUser.username, standardUser.password);
     
     // TYPESCRIPT: Focus sort dropdown
     await inventoryPage.sortDropdown.focus();
@@ -253,18 +256,18 @@ test.describe('Accessibility Tests', () => {
     const inventoryPage = new InventoryPage(page);
     
     await loginPage.goto();
-    await loginPage.login(users.validUsers[0].username, users.validUsers[0].password);
+    await loginPage.login(standardUser.username, standardUser.password);
     
     // TYPESCRIPT: Test burger menu keyboard access
-    await inventoryPage.burgerMenuButton.focus();
-    await expect(inventoryPage.burgerMenuButton).toBeFocused();
+    await inventoryPage.sideMenu.openButton.focus();
+    await expect(inventoryPage.sideMenu.openButton).toBeFocused();
     
     // Activate with Enter or Space
     await page.keyboard.press('Enter');
     
     // Menu should open
-    await page.waitForTimeout(500); // Wait for animation
-    const logoutLink = page.locator('#logout_sidebar_link');
+    await inventoryPage.sideMenu.waitForOpen(); // Waits for the slide-in animation to finish
+    const logoutLink = inventoryPage.sideMenu.logoutLink;
     await expect(logoutLink).toBeVisible();
   });
 
@@ -0,0 +1,179 @@
+/**
+ * ACTION TRACING TESTS
+ *
+ * @traced only needs an object with a page.url(), so most of these tests use
+ * a small page object of their own whose page is a plain object - no browser.
+ * The real page objects are checked the same way with a stand-in page.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Decorating a class inside a test file
+ * - Casting a stand-in object to Page (as unknown as Page)
+ */
+
+import { Page } from '@playwright/test';
+import { test, expect } from '../fixtures/auth.fixture';
+import { LoginPage } from '../pages/LoginPage';
+import { ActionRecord, describeArg, formatActionSummary, secretArgs, summarizeActions, traced, untraced } from '../utils/action-trace';
+import { Money } from '../utils/money';
+import { REDACTED } from '../utils/redaction';
+
+/**
+ * A page object that only moves a fake URL around
+ */
+@traced
+class FakeShopPage {
+  private location = 'https://shop.test/';
+  readonly page = { url: () => this.location };
+
+  get title(): string {
+    return 'Fake shop';
+  }
+
+  async open(path: string): Promise<void> {
+    this.location = `https://shop.test${path}`;
+  }
+
+  async checkout(): Promise<void> {
+    await this.open('/checkout');
+    await this.open('/checkout/done');
+  }
+
+  @secretArgs(1)
+  async signIn(username: string, password: string): Promise<string> {
+    return `${username}:${password.length}`;
+  }
+
+  async breakDown(): Promise<void> {
+    throw new Error('out of stock');
+  }
+
+  @untraced
+  async helper(): Promise<number> {
+    return 1;
+  }
+
+  describe(): string {
+    return this.location;
+  }
+}
+
+const record = (action: string, durationMs: number, error?: string): ActionRecord =>
+  ({ action, args: [], depth: 0, startMs: 0, durationMs, error });
+
+test.describe('@traced', () => {
+
+  test('records each call with its arguments and URLs', async ({ actionTimeline }) => {
+    const shop = new FakeShopPage();
+
+    await shop.open('/cart');
+
+    expect(actionTimeline.records).toEqual([expect.objectContaining({
+      action: 'FakeShopPage.open',
+      args: ['"/cart"'],
+      depth: 0,
+      urlBefore: 'https://shop.test/',
+      urlAfter: 'https://shop.test/cart'
+    })]);
+    expect(actionTimeline.records[0].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test('calls inside a traced method are one level deeper', async ({ actionTimeline }) => {
+    await new FakeShopPage().checkout();
+
+    expect(actionTimeline.records.map(r => [r.action, r.depth])).toEqual([
+      ['FakeShopPage.checkout', 0],
+      ['FakeShopPage.open', 1],
+      ['FakeShopPage.open', 1]
+    ]);
+  });
+
+  test('return values and errors pass through; errors are recorded', async ({ actionTimeline }) => {
+    const shop = new FakeShopPage();
+
+    expect(await shop.signIn('standard_user', 'secret')).toBe('standard_user:6');
+    await expect(shop.breakDown()).rejects.toThrow('out of stock');
+
+    expect(actionTimeline.records[1]).toMatchObject({ action: 'FakeShopPage.breakDown', error: 'out of stock' });
+  });
+
+  test('secret arguments are masked', async ({ actionTimeline }) => {
+    await new FakeShopPage().signIn('standard_user', 'not-in-the-timeline');
+
+    expect(actionTimeline.records[0].args).toEqual(['"standard_user"', REDACTED]);
+    expect(JSON.stringify(actionTimeline.records)).not.toContain('not-in-the-timeline');
+  });
+
+  test('getters, sync methods and @untraced methods are left out', async ({ actionTimeline }) => {
+    const shop = new FakeShopPage();
+
+    expect(shop.title).toBe('Fake shop');
+    expect(shop.describe()).toBe('https://shop.test/');
+    expect(await shop.helper()).toBe(1);
+
+    expect(actionTimeline.records).toEqual([]);
+  });
+
+  test('the real page objects are traced', async ({ actionTimeline }) => {
+    // TYPESCRIPT: Just enough of a Page for fillPassword() - 'as unknown as Page' skips the rest
+    const page = { url: () => 'https://www.saucedemo.com/', locator: () => ({ fill: async () => undefined }) } as unknown as Page;
+
+    await new LoginPage(page).fillPassword('hunter2');
+
+    expect(actionTimeline.records).toEqual([expect.objectContaining({ action: 'LoginPage.fillPassword', args: [REDACTED] })]);
+  });
+});
+
+test.describe('Arguments and the suite summary', () => {
+
+  test('arguments are short JSON with secret fields masked', () => {
+    expect(describeArg('Sauce Labs Onesie')).toBe('"Sauce Labs Onesie"');
+    expect(describeArg(['a', 'b'])).toBe('["a","b"]');
+    expect(describeArg(Money.parse('$7.99'))).toBe('"$7.99"');
+    expect(describeArg({ username: 'a', password: 'b' })).toBe(`{"username":"a","password":"${REDACTED}"}`);
+    expect(describeArg(undefined)).toBe('undefined');
+    expect(describeArg('x'.repeat(500))).toHaveLength(120);
+  });
+
+  test('actions are ranked by calls and by average duration', () => {
+    const summary = summarizeActions([
+      record('InventoryPage.addProductToCart', 100),
+      record('InventoryPage.addProductToCart', 300),
+      record('InventoryPage.addProductToCart', 200, 'timed out'),
+      record('LoginPage.login', 900),
+      record('CartPage.checkout', 50)
+    ]);
+
+    expect(summary.mostUsed.map(s => s.action)).toEqual(['InventoryPage.addProductToCart', 'CartPage.checkout', 'LoginPage.login']);
+    expect(summary.slowest.map(s => s.action)).toEqual(['LoginPage.login', 'InventoryPage.addProductToCart', 'CartPage.checkout']);
+    expect(summary.mostUsed[0]).toEqual({
+      action: 'InventoryPage.addProductToCart', calls: 3, failures: 1, totalMs: 600, averageMs: 200, maxMs: 300
+    });
+  });
+
+  test('the limit keeps the top actions only', () => {
+    const summary = summarizeActions([record('A.one', 1), record('A.two', 2), record('A.three', 3)], 2);
+
+    expect(summary.mostUsed).toHaveLength(2);
+    expect(summary.slowest.map(s => s.action)).toEqual(['A.three', 'A.two']);
+  });
+
+  test('the printed summary has both tables', () => {
+    const text = formatActionSummary(summarizeActions([record('LoginPage.login', 900, 'locked out')]));
+
+    expect(text).toContain('Most-used page actions:\n      1x  LoginPage.login (1 failed)');
+    expect(text).toContain('Slowest page actions (average / max):\n     900ms / 900ms    LoginPage.login (1 calls)');
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. DECORATORS IN USE:
+ *    @traced on the class, @secretArgs(1) and @untraced on methods
+ *
+ * 2. STAND-IN OBJECTS:
+ *    { url: () => ..., locator: () => ... } as unknown as Page
+ *
+ * 3. ASYMMETRIC MATCHERS:
+ *    expect.objectContaining({ action: ... }) - only the fields we care about
+ */
@@ -0,0 +1,129 @@
+/**
+ * SESSION CACHE TESTS
+ *
+ * Covers the saved-session helpers behind the asUser() fixture:
+ * - isSessionExpired() is pure, so it is tested without a browser
+ * - asUser() is tested end to end
+ * - restoreSession() regenerates an expired session; the test works on its own
+ *   copy of the session file, so tests in other workers never read it
+ * - A malformed session cookie counts as no session (replica only)
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Building test data that matches a library type (StorageState)
+ * - Using a fixture whose value is a function
+ */
+
+import { test, expect } from '../fixtures/auth.fixture';
+import fs from 'fs';
+import { isSessionExpired, readSavedSession, restoreSession, StorageState } from '../utils/session-cache';
+import { activeProfile } from '../environments';
+
+/**
+ * Build a minimal storage state holding one session cookie
+ * @param expires - Cookie expiry in SECONDS since the epoch (-1 = browser session cookie)
+ */
+function stateWithCookie(expires: number): StorageState {
+  return {
+    cookies: [{
+      name: 'session-username',
+      value: 'standard_user',
+      domain: 'www.saucedemo.com',
+      path: '/',
+      expires,
+      httpOnly: false,
+      secure: false,
+      sameSite: 'Lax'
+    }],
+    origins: []
+  };
+}
+
+test.describe('isSessionExpired', () => {
+  // A fixed "now" keeps these tests deterministic
+  const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+  const nowSeconds = now / 1000;
+
+  test('a state without the session cookie is expired', () => {
+    expect(isSessionExpired({ cookies: [], origins: [] }, now)).toBe(true);
+  });
+
+  test('a browser session cookie never expires', () => {
+    expect(isSessionExpired(stateWithCookie(-1), now)).toBe(false);
+  });
+
+  test('a cookie valid for several minutes is not expired', () => {
+    expect(isSessionExpired(stateWithCookie(nowSeconds + 5 * 60), now)).toBe(false);
+  });
+
+  test('a cookie about to expire is treated as expired', () => {
+    expect(isSessionExpired(stateWithCookie(nowSeconds + 30), now)).toBe(true);
+  });
+
+  test('a cookie in the past is expired', () => {
+    expect(isSessionExpired(stateWithCookie(nowSeconds - 1), now)).toBe(true);
+  });
+});
+
+test.describe('asUser fixture', () => {
+
+  test('opens the inventory as the requested persona', async ({ asUser, inventoryPage }) => {
+    const page = await asUser('performance_glitch_user');
+
+    await expect(page).toHaveURL(/inventory.html/);
+    await expect(inventoryPage.inventoryContainer).toBeVisible();
+
+    const cookies = await page.context().cookies();
+    expect(cookies.find(c => c.name === 'session-username')?.value).toBe('performance_glitch_user');
+  });
+});
+
+test.describe('restoreSession', () => {
+
+  test('regenerates a saved session that has expired', async ({ page, baseURL }, testInfo) => {
+    // A session file of this test's own (in its output folder) whose cookie expired a minute ago
+    // The shared playwright/.auth/standard_user.json is left alone for the other workers
+    const file = testInfo.outputPath('standard_user.json');
+    const expired = stateWithCookie(Math.floor(Date.now() / 1000) - 60);
+    expired.cookies[0].domain = new URL(baseURL!).hostname;
+    fs.writeFileSync(file, JSON.stringify(expired));
+
+    // restoreSession() has to log in through the UI and save a fresh session
+    await restoreSession(page, 'standard_user', file);
+    await expect(page).toHaveURL(/inventory.html/);
+
+    const saved = readSavedSession('standard_user', file);
+    expect(saved).toBeDefined();
+    expect(isSessionExpired(saved!)).toBe(false);
+    expect(saved!.cookies[0].expires).toBeGreaterThan(expired.cookies[0].expires);
+    // Only the cookies are kept (see utils/session-cache.ts)
+    expect(saved!.origins).toEqual([]);
+  });
+});
+
+test.describe('Malformed session cookie', () => {
+  test.skip(!activeProfile.replica, 'How the live site reads a broken cookie is not ours to assert');
+
+  test('sends the browser back to the login page', async ({ page, loginPage, baseURL }) => {
+    // '%E0%A4%A' is not valid percent-encoding, so decodeURIComponent() throws on it
+    await page.context().addCookies([{ name: 'session-username', value: '%E0%A4%A', url: baseURL! }]);
+
+    await page.goto('/inventory.html');
+
+    await expect(page).toHaveURL(/\/$/);
+    await expect(loginPage.errorMessage).toContainText('when you are logged in');
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. LIBRARY-DERIVED TYPES:
+ *    StorageState comes from Playwright's storageState() return type,
+ *    so the compiler checks every cookie field in stateWithCookie()
+ *
+ * 2. INJECTABLE TIME:
+ *    isSessionExpired(state, now) takes "now" as a parameter, so tests don't depend on the clock
+ *
+ * 3. FUNCTION-VALUED FIXTURES:
+ *    asUser is a function the test calls with the persona it needs
+ */
@@ -0,0 +1,22 @@
+/**
+ * AUTHENTICATION SETUP
+ *
+ * Runs once, before any browser project (see 'setup' in playwright.config.ts).
+ * Logs in as every persona in users.json and saves their storage state to
+ * playwright/.auth/<username>.json, so tests can skip the login form.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Renaming imports (test as setup)
+ * - Generating tests in a loop
+ */
+
+import { test as setup } from '@playwright/test';
+import { loginAndSaveSession } from '../utils/session-cache';
+import { validPersonas } from '../utils/test-data';
+
+// TYPESCRIPT: One setup test per persona, so a single failing login is easy to spot
+for (const user of validPersonas()) {
+  setup(`authenticate as ${user.username}`, async ({ page }) => {
+    await loginAndSaveSession(page, user.username);
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * CART STATE TESTS
+ *
+ * Covers utils/cart-state.ts: seeding the localStorage cart before a page
+ * loads, and reading back what the app stored after UI actions.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Using a helper-object fixture (cartState)
+ * - Comparing arrays with toEqual
+ */
+
+import { test, expect } from '../fixtures/auth.fixture';
+import { getProduct } from '../utils/test-data';
+
+const backpack = getProduct('sauce-labs-backpack');
+const bikeLight = getProduct('sauce-labs-bike-light');
+const onesie = getProduct('sauce-labs-onesie');
+
+test.describe('Cart state', () => {
+
+  test.beforeEach(async ({ authenticatedPage }) => {
+    await expect(authenticatedPage).toHaveURL(/inventory.html/);
+  });
+
+  test('a seeded cart is shown by the next page load', async ({ page, cartState, cartPage }) => {
+    await cartState.seed([backpack.id, onesie.id]);
+
+    await page.goto('/cart.html');
+
+    expect(await cartPage.getCartItemCount()).toBe(2);
+    expect(await cartPage.getAllProductNames()).toEqual([backpack.name, onesie.name]);
+    await expect(cartPage).toHaveCartCount(2);
+  });
+
+  test('the seed is applied once, so later UI changes survive navigation', async ({ page, cartState, inventoryPage }) => {
+    await cartState.seed([backpack.id]);
+    await page.goto('/inventory.html');
+
+    await inventoryPage.addProductToCart(bikeLight.name);
+    await page.goto('/cart.html');
+
+    expect(await cartState.read()).toEqual([backpack.id, bikeLight.id]);
+  });
+
+  test('reads what the app stored after adding through the UI', async ({ cartState, inventoryPage }) => {
+    expect(await cartState.read()).toEqual([]);
+
+    await inventoryPage.addMultipleProductsToCart([onesie.name, backpack.name]);
+
+    expect(await cartState.read()).toEqual([onesie.id, backpack.id]);
+    expect(await cartState.readItemIds()).toEqual([onesie.itemId, backpack.itemId]);
+  });
+
+  test('seeding an empty list empties the cart', async ({ page, cartState, inventoryPage }) => {
+    await inventoryPage.addProductToCart(backpack.name);
+
+    await cartState.seed([]);
+    await page.reload();
+
+    await expect(inventoryPage.cartBadge.badge).toBeHidden();
+    expect(await cartState.read()).toEqual([]);
+  });
+
+  test('rejects ids that are not in products.json', async ({ cartState }) => {
+    await expect(cartState.seed(['sauce-labs-spaceship'])).rejects.toThrow(/No product "sauce-labs-spaceship"/);
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. HELPER FIXTURES:
+ *    cartState is not a page object, but is provided the same way
+ *
+ * 2. ASYNC ERROR ASSERTIONS:
+ *    await expect(promise).rejects.toThrow(...) checks a rejected Promise
+ */
@@ -0,0 +1,79 @@
+/**
+ * CATALOGUE DIFF TESTS
+ *
+ * diffCatalogue() is a pure function, so these tests feed it hand-made
+ * "rendered" catalogues instead of opening a browser.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Building typed test data with map() and spread
+ * - Asserting on structured results with toEqual
+ */
+
+import { test, expect } from '@playwright/test';
+import { diffCatalogue, formatCatalogueDiff, isCatalogueMatch, RenderedProduct } from '../utils/catalogue-diff';
+import { Money } from '../utils/money';
+import { getProduct, products } from '../utils/test-data';
+
+// TYPESCRIPT: What the inventory page would render if it matched products.json exactly
+const matching: RenderedProduct[] = products.map(({ itemId, name, description, price }) => ({ itemId, name, description, price }));
+
+const backpack = getProduct('sauce-labs-backpack');
+const onesie = getProduct('sauce-labs-onesie');
+
+test.describe('diffCatalogue', () => {
+
+  test('an identical catalogue has no differences', () => {
+    const diff = diffCatalogue(matching);
+
+    expect(diff).toEqual({ added: [], removed: [], renamed: [], repriced: [], redescribed: [] });
+    expect(isCatalogueMatch(diff)).toBe(true);
+    expect(formatCatalogueDiff(diff)).toBe('The catalogue matches products.json');
+  });
+
+  test('display order does not matter', () => {
+    expect(isCatalogueMatch(diffCatalogue([...matching].reverse()))).toBe(true);
+  });
+
+  test('reports added and removed products', () => {
+    const jacket: RenderedProduct = { itemId: 99, name: 'Sauce Labs Jacket', description: 'New', price: Money.parse('$59.99') };
+    const rendered = [...matching.filter(item => item.itemId !== onesie.itemId), jacket];
+
+    const diff = diffCatalogue(rendered);
+
+    expect(diff.added).toEqual([jacket]);
+    expect(diff.removed).toEqual([onesie]);
+    expect(diff.renamed).toEqual([]);
+  });
+
+  test('reports renamed, repriced and re-described products separately', () => {
+    const rendered = matching.map(item => item.itemId === backpack.itemId
+      ? { ...item, name: 'Sauce Labs Rucksack', price: Money.parse('$39.99'), description: 'Changed' }
+      : item);
+
+    const diff = diffCatalogue(rendered);
+
+    expect(diff.renamed).toEqual([{ id: backpack.id, name: backpack.name, expected: backpack.name, actual: 'Sauce Labs Rucksack' }]);
+    expect(diff.repriced).toEqual([{ id: backpack.id, name: backpack.name, expected: backpack.price, actual: Money.parse('$39.99') }]);
+    expect(diff.redescribed).toEqual([{ id: backpack.id, name: backpack.name, expected: backpack.description, actual: 'Changed' }]);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+  });
+
+  test('formats a readable summary', () => {
+    const rendered = matching.map(item => item.itemId === backpack.itemId ? { ...item, price: Money.parse('$39.99') } : item);
+
+    expect(formatCatalogueDiff(diffCatalogue(rendered))).toBe(
+      'The catalogue differs from products.json:\n  repriced: Sauce Labs Backpack $29.99 -> $39.99'
+    );
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. DESTRUCTURING IN PARAMETERS:
+ *    products.map(({ itemId, name, description, price }) => ({ ... })) keeps only those fields
+ *
+ * 2. SPREAD TO MODIFY A COPY:
+ *    { ...item, price: Money.parse('$39.99') } - same item with one field changed
+ */
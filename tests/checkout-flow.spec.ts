@@ -0,0 +1,114 @@
+/**
+ * CHECKOUT STEP AND FLOW TESTS
+ *
+ * The checkout is three page objects (information, overview, complete), and
+ * CheckoutFlow moves between them. The browser tests stop at, cancel from and
+ * resume at each step; the compile-time tests at the bottom prove that
+ * impossible flows don't type-check.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Return types that change with the argument (stopAt('overview'))
+ * - @ts-expect-error to test that code does NOT compile
+ */
+
+import { test, expect } from '../fixtures/auth.fixture';
+import { CartPage } from '../pages/CartPage';
+import { InventoryPage } from '../pages/InventoryPage';
+import { CheckoutInformationStep } from '../pages/CheckoutInformationStep';
+import { CheckoutOverviewStep } from '../pages/CheckoutOverviewStep';
+import { CheckoutCompleteStep } from '../pages/CheckoutCompleteStep';
+import { CheckoutFlow } from '../pages/checkout-flow';
+import { getProduct } from '../utils/test-data';
+
+const backpack = getProduct('sauce-labs-backpack');
+const info = { firstName: 'John', lastName: 'Doe', postalCode: '12345' };
+
+test.describe('Checkout flow', () => {
+
+  // Every test starts on the cart page with the backpack in the cart
+  test.beforeEach(async ({ authenticatedPage, cartState }) => {
+    await expect(authenticatedPage).toHaveURL(/inventory.html/);
+    await cartState.seed([backpack.id]);
+    await authenticatedPage.goto('/cart.html');
+  });
+
+  test('stops at each step with that step\'s page object', async ({ cartPage }) => {
+    const informationStep = await CheckoutFlow.from(cartPage).stopAt('information');
+    expect(informationStep).toBeInstanceOf(CheckoutInformationStep);
+    expect(await informationStep.isOnInformationStep()).toBe(true);
+
+    const overviewStep = await CheckoutFlow.resumeAt(informationStep).withInfo(info).stopAt('overview');
+    expect(overviewStep).toBeInstanceOf(CheckoutOverviewStep);
+    expect(await overviewStep.getLineItems()).toHaveLength(1);
+
+    const completeStep = await CheckoutFlow.resumeAt(overviewStep).stopAt('complete');
+    expect(completeStep).toBeInstanceOf(CheckoutCompleteStep);
+    expect(await completeStep.getCompleteHeader()).toBe('Thank you for your order!');
+  });
+
+  test('cancelling the information step goes back to the cart', async ({ cartPage }) => {
+    const backOnCart = await CheckoutFlow.from(cartPage).cancelFrom('information');
+
+    expect(backOnCart).toBeInstanceOf(CartPage);
+    expect(await backOnCart.getAllProductNames()).toEqual([backpack.name]);
+  });
+
+  test('cancelling the overview goes back to the products and keeps the cart', async ({ cartPage }) => {
+    const backOnInventory = await CheckoutFlow.from(cartPage).withInfo(info).cancelFrom('overview');
+
+    expect(backOnInventory).toBeInstanceOf(InventoryPage);
+    await expect(backOnInventory).toHaveCartCount(1);
+  });
+
+  test('the step transitions chain without a flow', async ({ cartPage }) => {
+    const informationStep = await cartPage.checkout();
+    const overviewStep = await informationStep.completeCheckoutInfo(info);
+    const completeStep = await overviewStep.finish();
+
+    expect(await completeStep.isOrderComplete()).toBe(true);
+  });
+});
+
+/**
+ * Compile-time guarantees
+ * TYPESCRIPT: This function is never called - it only has to type-check (npx tsc --noEmit).
+ * Each @ts-expect-error line MUST be a type error; if it ever compiles, tsc reports
+ * "Unused '@ts-expect-error' directive" and the check fails.
+ */
+export async function checkoutFlowTypeChecks(
+  cartPage: CartPage,
+  overviewStep: CheckoutOverviewStep,
+  completeStep: CheckoutCompleteStep
+): Promise<void> {
+  // Return types follow the step name
+  const overview: CheckoutOverviewStep = await CheckoutFlow.from(cartPage).withInfo(info).stopAt('overview');
+  const cart: CartPage = await CheckoutFlow.from(cartPage).cancelFrom('information');
+  const inventory: InventoryPage = await CheckoutFlow.resumeAt(overview).cancelFrom('overview');
+  void cart;
+  void inventory;
+
+  // @ts-expect-error - no withInfo(), so the flow can't get past the information form
+  await CheckoutFlow.from(cartPage).stopAt('overview');
+
+  // @ts-expect-error - the information step is behind the overview
+  await CheckoutFlow.resumeAt(overviewStep).stopAt('information');
+
+  // @ts-expect-error - the complete step has no Cancel button
+  await CheckoutFlow.resumeAt(overviewStep).cancelFrom('complete');
+
+  // @ts-expect-error - nothing comes after the complete step
+  await CheckoutFlow.resumeAt(completeStep).stopAt('complete');
+
+  // @ts-expect-error - the step objects don't have each other's methods
+  await completeStep.finish();
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. TYPES THAT FOLLOW ARGUMENTS:
+ *    stopAt('overview') is Promise<CheckoutOverviewStep>, cancelFrom('information') is Promise<CartPage>
+ *
+ * 2. TESTING THE TYPE CHECKER:
+ *    // @ts-expect-error marks a line that must NOT compile
+ */
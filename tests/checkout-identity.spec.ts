@@ -0,0 +1,132 @@
+/**
+ * CHECKOUT IDENTITY TESTS
+ *
+ * The generator tests are pure (no browser): same seed, same identities, and
+ * every postal code in its locale's format. The browser tests check out with
+ * an identity from each locale and each edge-case profile.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Data-driven tests over readonly arrays of literal types
+ * - Function-valued fixtures (checkoutIdentity)
+ */
+
+import { test, expect } from '../fixtures/auth.fixture';
+import { PAGES, verifyOnPage } from '../pages/navigation';
+import {
+  CheckoutIdentityGenerator,
+  EDGE_CASE_PROFILES,
+  IDENTITY_LOCALES,
+  POSTAL_CODE_FORMATS,
+  createCheckoutIdentity,
+  describeIdentity
+} from '../utils/checkout-identity';
+import { getProduct } from '../utils/test-data';
+
+const backpack = getProduct('sauce-labs-backpack');
+
+test.describe('Checkout identity generator', () => {
+
+  test('the same seed gives the same identities in the same order', () => {
+    const first = new CheckoutIdentityGenerator(1234);
+    const second = new CheckoutIdentityGenerator(1234);
+
+    for (let i = 0; i < 10; i++) {
+      expect(second.next()).toEqual(first.next());
+    }
+  });
+
+  test('identities carry their seed and position', () => {
+    const identities = new CheckoutIdentityGenerator(99);
+    identities.next();
+    const second = identities.next({ locale: 'en-GB', edgeCase: 'apostrophe' });
+
+    expect(second).toMatchObject({ seed: 99, index: 1, locale: 'en-GB', edgeCase: 'apostrophe' });
+    expect(describeIdentity(second)).toContain('(en-GB, apostrophe; seed 99 #1)');
+  });
+
+  test('createCheckoutIdentity() with a seed is the first identity of that seed', () => {
+    expect(createCheckoutIdentity({ seed: 5, locale: 'de-DE' }))
+      .toEqual(new CheckoutIdentityGenerator(5).next({ locale: 'de-DE' }));
+  });
+
+  for (const locale of IDENTITY_LOCALES) {
+    test(`${locale} postal codes have the ${locale} format`, () => {
+      const identities = new CheckoutIdentityGenerator(2024);
+      for (let i = 0; i < 200; i++) {
+        const { postalCode } = identities.next({ locale });
+        expect(postalCode).toMatch(POSTAL_CODE_FORMATS[locale]);
+      }
+    });
+  }
+
+  test('edge-case profiles produce the characters they are named after', () => {
+    const identities = new CheckoutIdentityGenerator(3);
+    const fullName = (edgeCase: typeof EDGE_CASE_PROFILES[number]) => {
+      const identity = identities.next({ edgeCase });
+      return `${identity.firstName} ${identity.lastName}`;
+    };
+
+    expect(fullName('apostrophe')).toContain("'");
+    expect(fullName('hyphenated')).toContain('-');
+    // Letters outside plain ASCII
+    expect(fullName('diacritics')).toMatch(/[^\x00-\x7F]/);
+    expect(fullName('rtl-arabic')).toMatch(/^[؀-ۿ ]+$/);
+    expect(fullName('rtl-hebrew')).toMatch(/^[֐-׿ ]+$/);
+  });
+
+  test('the fixture uses the test\'s seed', async ({ checkoutIdentity, random }) => {
+    expect(checkoutIdentity().seed).toBe(random.seed);
+  });
+
+  test('the fixture records each identity on the test', async ({ checkoutIdentity }, testInfo) => {
+    const identity = checkoutIdentity({ locale: 'de-DE' });
+
+    expect(testInfo.annotations).toContainEqual({ type: 'checkout identity', description: describeIdentity(identity) });
+  });
+});
+
+test.describe('Checking out with generated identities', () => {
+
+  test.beforeEach(async ({ authenticatedPage, cartState }) => {
+    await expect(authenticatedPage).toHaveURL(/inventory.html/);
+    await cartState.seed([backpack.id]);
+    await authenticatedPage.goto('/cart.html');
+  });
+
+  for (const locale of IDENTITY_LOCALES) {
+    test(`a ${locale} customer can check out`, async ({ cartPage, checkoutIdentity }) => {
+      const informationStep = await cartPage.checkout();
+      const overviewStep = await informationStep.completeCheckoutInfo(checkoutIdentity({ locale }));
+
+      expect(await overviewStep.isOnOverviewStep()).toBe(true);
+    });
+  }
+
+  for (const edgeCase of EDGE_CASE_PROFILES) {
+    test(`a customer with a ${edgeCase} name can check out`, async ({ page, cartPage, checkoutIdentity }) => {
+      const identity = checkoutIdentity({ edgeCase });
+      const informationStep = await cartPage.checkout();
+
+      // The form keeps the name exactly as typed
+      await informationStep.fillCheckoutInfo(identity);
+      await expect(informationStep.firstNameInput).toHaveValue(identity.firstName);
+      await expect(informationStep.lastNameInput).toHaveValue(identity.lastName);
+
+      await informationStep.continue();
+      await verifyOnPage(page, PAGES.checkoutOverview);
+    });
+  }
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. INDEXED ACCESS ON ARRAY TYPES:
+ *    typeof EDGE_CASE_PROFILES[number] is the EdgeCaseProfile union
+ *
+ * 2. FUNCTION-VALUED FIXTURES:
+ *    checkoutIdentity({ locale }) - the fixture hands the test a function
+ *
+ * 3. toMatchObject:
+ *    Checks only the listed properties of an object
+ */
@@ -0,0 +1,128 @@
+/**
+ * CHECKOUT FORM VALIDATION TESTS
+ *
+ * One table of checkout information inputs, one test per row. Each row says
+ * which error the form should show, or null when SauceDemo should accept the
+ * input and go on to the overview.
+ *
+ * SauceDemo only checks that each field is filled in, in form order - so
+ * whitespace-only values, very long values, unicode names and non-numeric
+ * postal codes are all accepted. Those rows document that, and will fail
+ * if the site ever starts validating them.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Data-driven tests (a typed table + for...of)
+ * - Union types for "error text or no error" (string | null)
+ */
+
+import { test, expect } from '../fixtures/auth.fixture';
+import { CheckoutInfo } from '../pages/CheckoutInformationStep';
+import { PAGES, verifyOnPage } from '../pages/navigation';
+import { getProduct } from '../utils/test-data';
+
+const backpack = getProduct('sauce-labs-backpack');
+
+// A valid form, for rows that only change one field
+const valid: CheckoutInfo = { firstName: 'John', lastName: 'Doe', postalCode: '12345' };
+
+const FIRST_NAME_REQUIRED = 'Error: First Name is required';
+const LAST_NAME_REQUIRED = 'Error: Last Name is required';
+const POSTAL_CODE_REQUIRED = 'Error: Postal Code is required';
+
+interface ValidationCase {
+  title: string;
+  info: CheckoutInfo;
+  // The [data-test="error"] text, or null if the form should be accepted
+  error: string | null;
+}
+
+const cases: ValidationCase[] = [
+  // Missing fields - the first empty field (in form order) is reported
+  { title: 'all fields empty', info: { firstName: '', lastName: '', postalCode: '' }, error: FIRST_NAME_REQUIRED },
+  { title: 'missing first name', info: { ...valid, firstName: '' }, error: FIRST_NAME_REQUIRED },
+  { title: 'missing last name', info: { ...valid, lastName: '' }, error: LAST_NAME_REQUIRED },
+  { title: 'missing postal code', info: { ...valid, postalCode: '' }, error: POSTAL_CODE_REQUIRED },
+  { title: 'only a first name', info: { firstName: 'John', lastName: '', postalCode: '' }, error: LAST_NAME_REQUIRED },
+
+  // Whitespace counts as filled in
+  { title: 'whitespace-only values', info: { firstName: ' ', lastName: '\t', postalCode: '   ' }, error: null },
+
+  // No length limit
+  {
+    title: 'very long values',
+    info: { firstName: 'A'.repeat(1000), lastName: 'B'.repeat(1000), postalCode: '9'.repeat(1000) },
+    error: null
+  },
+
+  // Unicode names
+  { title: 'names with diacritics', info: { ...valid, firstName: 'Zoë', lastName: 'Müller-Łukasiewicz' }, error: null },
+  { title: 'names in non-Latin scripts', info: { ...valid, firstName: '美咲', lastName: 'Иванова' }, error: null },
+  { title: 'names with emoji', info: { ...valid, firstName: 'Jo 🙂', lastName: 'Doe 🚀' }, error: null },
+
+  // Postal codes are free text
+  { title: 'UK-style postal code', info: { ...valid, postalCode: 'SW1A 1AA' }, error: null },
+  { title: 'letters-only postal code', info: { ...valid, postalCode: 'abcde' }, error: null }
+];
+
+test.describe('Checkout form validation', () => {
+
+  // Every test starts on the information step with the backpack in the cart
+  test.beforeEach(async ({ authenticatedPage, cartState, cartPage }) => {
+    await expect(authenticatedPage).toHaveURL(/inventory.html/);
+    await cartState.seed([backpack.id]);
+    await authenticatedPage.goto('/cart.html');
+    await cartPage.checkout();
+  });
+
+  for (const { title, info, error } of cases) {
+    const expectation = error === null ? 'is accepted' : `shows "${error}"`;
+
+    test(`${title} ${expectation}`, async ({ page, informationStep }) => {
+      await informationStep.fillCheckoutInfo(info);
+      await informationStep.continue();
+
+      if (error === null) {
+        await verifyOnPage(page, PAGES.checkoutOverview);
+      } else {
+        await expect(informationStep.errorMessage).toHaveText(error);
+        expect(await informationStep.isOnInformationStep()).toBe(true);
+      }
+    });
+  }
+
+  // The error's X button removes the message and the icons next to the fields
+  for (const { title, info } of cases.filter(c => c.error !== null)) {
+    test(`dismissing the error for ${title} clears the field error icons`, async ({ informationStep }) => {
+      await informationStep.fillCheckoutInfo(info);
+      await informationStep.continue();
+      await expect(informationStep.fieldErrorIcons).toHaveCount(3);
+
+      await informationStep.dismissError();
+
+      await expect(informationStep.errorMessage).toBeHidden();
+      await expect(informationStep.fieldErrorIcons).toHaveCount(0);
+    });
+  }
+
+  test('the form can be submitted after dismissing an error', async ({ informationStep }) => {
+    await informationStep.continue();
+    await informationStep.dismissError();
+
+    const overviewStep = await informationStep.completeCheckoutInfo(valid);
+
+    expect(await overviewStep.isOnOverviewStep()).toBe(true);
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. DATA-DRIVEN TESTS:
+ *    for (const { title, info, error } of cases) { test(...) }
+ *
+ * 2. NULL AS "NO ERROR":
+ *    error: string | null - the test checks for null before using the text
+ *
+ * 3. OBJECT SPREAD FOR VARIATIONS:
+ *    { ...valid, postalCode: '' } - a valid form with one field changed
+ */
@@ -0,0 +1,209 @@
+/**
+ * SHARED COMPONENT TESTS
+ *
+ * The header, cart badge and side menu live in pages/components/ and every
+ * page object gets them from BasePage. Their behaviour is tested here, once,
+ * instead of separately in every spec. So are the inventory's product cards.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Testing through a base class (BasePage)
+ * - Data-driven tests over an array of page factories
+ */
+
+import { Page } from '@playwright/test';
+import { test, expect } from '../fixtures/auth.fixture';
+import { BasePage } from '../pages/BasePage';
+import { InventoryPage } from '../pages/InventoryPage';
+import { ProductPage } from '../pages/ProductPage';
+import { CartPage } from '../pages/CartPage';
+import { CheckoutInformationStep } from '../pages/CheckoutInformationStep';
+import { getProduct, products } from '../utils/test-data';
+
+const backpack = getProduct('sauce-labs-backpack');
+const boltTShirt = getProduct('sauce-labs-bolt-t-shirt');
+const redTShirt = getProduct('test-allthethings-t-shirt-red');
+
+// TYPESCRIPT: Every entry builds a different page object, but all of them are BasePages
+// The product page shows a back button instead of a title, so its title is optional
+const pagesWithHeader: { path: string; title?: string; create: (page: Page) => BasePage }[] = [
+  { path: '/inventory.html', title: 'Products', create: page => new InventoryPage(page) },
+  { path: '/inventory-item.html?id=4', create: page => new ProductPage(page) },
+  { path: '/cart.html', title: 'Your Cart', create: page => new CartPage(page) },
+  { path: '/checkout-step-one.html', title: 'Checkout: Your Information', create: page => new CheckoutInformationStep(page) }
+];
+
+test.describe('Shared header components', () => {
+
+  test.beforeEach(async ({ authenticatedPage }) => {
+    await expect(authenticatedPage).toHaveURL(/inventory.html/);
+  });
+
+  for (const { path, title, create } of pagesWithHeader) {
+    test(`header, cart badge and side menu work on ${path}`, async ({ page, inventoryPage }) => {
+      await inventoryPage.addProductToCart(backpack.name);
+      await page.goto(path);
+
+      const pageObject = create(page);
+
+      // The same API on every page
+      await expect(pageObject.header.logo).toHaveText('Swag Labs');
+      await expect(pageObject).toHaveCartCount(1);
+
+      await pageObject.sideMenu.open();
+      expect(await pageObject.sideMenu.isOpen()).toBe(true);
+      await pageObject.sideMenu.close();
+      expect(await pageObject.sideMenu.isOpen()).toBe(false);
+
+      if (title) {
+        expect(await pageObject.header.getTitle()).toBe(title);
+      }
+    });
+  }
+
+  test('cart badge is hidden for an empty cart and opens the cart', async ({ inventoryPage, page }) => {
+    await expect(inventoryPage).toHaveCartCount(0);
+    await expect(inventoryPage.cartBadge.badge).toBeHidden();
+
+    await inventoryPage.goToCart();
+
+    await expect(page).toHaveURL(/cart.html/);
+  });
+
+  test('side menu "All Items" returns to the inventory', async ({ page, cartPage }) => {
+    await page.goto('/cart.html');
+
+    await cartPage.sideMenu.goToAllItems();
+
+    await expect(page).toHaveURL(/inventory.html/);
+  });
+
+  test('side menu "Reset App State" empties the cart', async ({ inventoryPage }) => {
+    await inventoryPage.addProductToCart(backpack.name);
+    await expect(inventoryPage).toHaveCartCount(1);
+
+    await inventoryPage.sideMenu.resetAppState();
+
+    await expect(inventoryPage.cartBadge.badge).toBeHidden();
+    expect(await inventoryPage.sideMenu.isOpen()).toBe(false);
+  });
+
+  test('side menu waits for its open and close animations', async ({ inventoryPage }) => {
+    await inventoryPage.sideMenu.open();
+    // open() only returns once the menu has finished sliding in
+    await expect(inventoryPage.sideMenu.logoutLink).toBeVisible({ timeout: 0 });
+
+    // Opening an open menu is a no-op
+    await inventoryPage.sideMenu.open();
+    expect(await inventoryPage.sideMenu.isOpen()).toBe(true);
+
+    await inventoryPage.sideMenu.close();
+    await expect(inventoryPage.sideMenu.logoutLink).toBeHidden({ timeout: 0 });
+  });
+
+  test('side menu "About" links to Sauce Labs', async ({ inventoryPage }) => {
+    await inventoryPage.sideMenu.open();
+
+    await expect(inventoryPage.sideMenu.aboutLink).toHaveAttribute('href', /saucelabs\.com/);
+  });
+
+  test('side menu "Logout" returns to the login page', async ({ inventoryPage, loginPage }) => {
+    await inventoryPage.sideMenu.logout();
+
+    await expect(loginPage.loginButton).toBeVisible();
+  });
+});
+
+test.describe('Product cards', () => {
+
+  test.beforeEach(async ({ authenticatedPage }) => {
+    await expect(authenticatedPage).toHaveURL(/inventory.html/);
+  });
+
+  test('one typed card per product, in the default order', async ({ inventoryPage }) => {
+    const data = await inventoryPage.getCatalogue();
+
+    expect(data.map(card => card.name)).toEqual(products.map(p => p.name));
+    expect(data.map(card => card.itemId)).toEqual(products.map(p => p.itemId));
+  });
+
+  test('a card shows everything about its product', async ({ inventoryPage }) => {
+    const card = inventoryPage.getProductCardById(backpack.id);
+
+    expect(await card.getData()).toEqual({
+      itemId: backpack.itemId,
+      name: backpack.name,
+      description: backpack.description,
+      price: backpack.price,
+      imageSrc: expect.stringMatching(/\.(svg|jpg|png)$/),
+      buttonState: 'add-to-cart',
+      detailHref: `/inventory-item.html?id=${backpack.itemId}`
+    });
+  });
+
+  test('lookup by name is exact, so similar names are not mixed up', async ({ inventoryPage }) => {
+    await expect(inventoryPage.getProductCard('T-Shirt').root).toHaveCount(0);
+    await expect(inventoryPage.getProductCard(boltTShirt.name).root).toHaveCount(1);
+    await expect(inventoryPage.getProductCard(redTShirt.name).root).toHaveCount(1);
+
+    expect(await inventoryPage.getProductCard(redTShirt.name).getItemId()).toBe(redTShirt.itemId);
+  });
+
+  test('the button state follows the cart', async ({ inventoryPage }) => {
+    const card = inventoryPage.getProductCard(boltTShirt.name);
+
+    await card.addToCart();
+    expect(await card.getButtonState()).toBe('remove');
+    expect(await inventoryPage.getProductCard(redTShirt.name).getButtonState()).toBe('add-to-cart');
+
+    await card.removeFromCart();
+    expect(await card.getButtonState()).toBe('add-to-cart');
+  });
+
+  test('a card opens its detail page', async ({ inventoryPage }) => {
+    const productPage = await inventoryPage.getProductCardById(backpack.id).open();
+
+    expect(await productPage.getProductName()).toBe(backpack.name);
+  });
+});
+
+// Serial: both tests run in order on the same worker, so they really share one page
+test.describe('Shared session reset', () => {
+  test.describe.configure({ mode: 'serial' });
+
+  test('a test leaves items in the cart and a custom sort', async ({ sessionPage }) => {
+    const inventoryPage = new InventoryPage(sessionPage);
+
+    await inventoryPage.addProductToCart(backpack.name);
+    await inventoryPage.sortProducts('hilo');
+
+    await expect(inventoryPage).toHaveCartCount(1);
+  });
+
+  test('the next test starts with an empty cart and the default sort', async ({ sessionPage }) => {
+    const inventoryPage = new InventoryPage(sessionPage);
+
+    await expect(sessionPage).toHaveURL(/inventory.html/);
+    await expect(inventoryPage).toHaveCartCount(0);
+    expect(await inventoryPage.getActiveSort()).toBe('az');
+    expect(await inventoryPage.isProductInCart(backpack.name)).toBe(false);
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. BASE CLASS TYPES:
+ *    create: (page: Page) => BasePage accepts any subclass of BasePage
+ *
+ * 2. OPTIONAL PROPERTIES IN INLINE TYPES:
+ *    { title?: string } - entries may leave the title out
+ *
+ * 3. GENERATED TESTS:
+ *    for...of over pagesWithHeader creates one test per page
+ *
+ * 4. COMPONENT OBJECTS FOR REPEATED ELEMENTS:
+ *    getProductCards() returns ProductCard[] - one object per tile
+ *
+ * 5. WORKER-SCOPED FIXTURES:
+ *    sessionPage is shared by every test in a worker and reset between them
+ */
@@ -0,0 +1,158 @@
+/**
+ * CREDENTIALS AND REDACTION TESTS
+ *
+ * Checks the credential providers in utils/credentials.ts and the secret
+ * masking in utils/redaction.ts. No browser needed.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Testing factory functions with injected inputs
+ * - Temporary files with testInfo.outputPath()
+ */
+
+import fs from 'fs';
+import { test, expect } from '@playwright/test';
+import type { TestCase, TestResult } from '@playwright/test/reporter';
+import {
+  chainCredentialProviders,
+  decryptCredentials,
+  dotEnvCredentialProvider,
+  encryptCredentials,
+  encryptedFileCredentialProvider,
+  envCredentialProvider,
+  parseDotEnv,
+  passwordVariable
+} from '../utils/credentials';
+import { REDACTED, redact, redactTraceFile, registerSecret } from '../utils/redaction';
+import { crc32, readZip, writeZip } from '../utils/zip';
+import RedactingReporter from '../reporters/redacting-reporter';
+
+test.describe('Credential providers', () => {
+
+  test('environment variables: per-user variable wins over SAUCE_PASSWORD', () => {
+    const provider = envCredentialProvider({
+      SAUCE_PASSWORD: 'shared-pass',
+      [passwordVariable('problem_user')]: 'problem-pass'
+    });
+
+    expect(passwordVariable('problem_user')).toBe('SAUCE_PASSWORD_PROBLEM_USER');
+    expect(provider.getPassword('problem_user')).toBe('problem-pass');
+    expect(provider.getPassword('standard_user')).toBe('shared-pass');
+    expect(envCredentialProvider({}).getPassword('standard_user')).toBeUndefined();
+  });
+
+  test('.env parsing handles quotes, export and comments', () => {
+    const variables = parseDotEnv([
+      '# comment',
+      'SAUCE_PASSWORD=plain # trailing comment',
+      'export SAUCE_PASSWORD_STANDARD_USER="with # hash"',
+      "SAUCE_PASSWORD_VISUAL_USER='single quoted'",
+      'not a variable'
+    ].join('\n'));
+
+    expect(variables).toEqual({
+      SAUCE_PASSWORD: 'plain',
+      SAUCE_PASSWORD_STANDARD_USER: 'with # hash',
+      SAUCE_PASSWORD_VISUAL_USER: 'single quoted'
+    });
+  });
+
+  test('.env provider reads the file and ignores a missing one', async ({}, testInfo) => {
+    const file = testInfo.outputPath('.env');
+    fs.writeFileSync(file, 'SAUCE_PASSWORD_ERROR_USER=from-dotenv\n');
+
+    expect(dotEnvCredentialProvider(file).getPassword('error_user')).toBe('from-dotenv');
+    expect(dotEnvCredentialProvider(testInfo.outputPath('missing.env')).getPassword('error_user')).toBeUndefined();
+  });
+
+  test('encrypted file round-trips and rejects the wrong key', async ({}, testInfo) => {
+    const file = testInfo.outputPath('credentials.enc.json');
+    const encrypted = encryptCredentials({ standard_user: 'enc-standard', '*': 'enc-default' }, 'right key');
+    fs.writeFileSync(file, JSON.stringify(encrypted));
+
+    // The file never contains the plain passwords
+    expect(fs.readFileSync(file, 'utf-8')).not.toContain('enc-standard');
+
+    const provider = encryptedFileCredentialProvider(file, 'right key');
+    expect(provider.getPassword('standard_user')).toBe('enc-standard');
+    expect(provider.getPassword('visual_user')).toBe('enc-default');
+
+    expect(() => decryptCredentials(encrypted, 'wrong key')).toThrow(/wrong SAUCE_CREDENTIALS_KEY/);
+    expect(() => encryptedFileCredentialProvider(file, undefined).getPassword('standard_user'))
+      .toThrow(/SAUCE_CREDENTIALS_KEY is not set/);
+  });
+
+  test('a chain asks each provider in order', () => {
+    const provider = chainCredentialProviders([
+      envCredentialProvider({}),
+      envCredentialProvider({ SAUCE_PASSWORD: 'second' }),
+      envCredentialProvider({ SAUCE_PASSWORD: 'third' })
+    ]);
+
+    expect(provider.getPassword('standard_user')).toBe('second');
+  });
+});
+
+test.describe('Redaction', () => {
+
+  test('masks registered secrets in text', () => {
+    registerSecret('hunter22');
+
+    expect(redact('Fill "hunter22" locator(\'#password\')')).toBe(`Fill "${REDACTED}" locator('#password')`);
+    expect(redact('nothing to hide')).toBe('nothing to hide');
+  });
+
+  test('masks secrets inside a trace zip', async ({}, testInfo) => {
+    registerSecret('trace-secret');
+    const file = testInfo.outputPath('trace.zip');
+    fs.writeFileSync(file, writeZip([
+      { name: 'trace.trace', data: Buffer.from('{"params":{"value":"trace-secret"}}') },
+      { name: 'resources/page.html', data: Buffer.from('<p>no secrets</p>') }
+    ]));
+
+    expect(redactTraceFile(file)).toBe(true);
+
+    const entries = readZip(fs.readFileSync(file));
+    expect(entries.map(e => e.name)).toEqual(['trace.trace', 'resources/page.html']);
+    expect(entries[0].data.toString()).toBe(`{"params":{"value":"${REDACTED}"}}`);
+    expect(entries[1].data.toString()).toBe('<p>no secrets</p>');
+  });
+
+  test('CRC-32 works with and without zlib.crc32', () => {
+    const data = Buffer.from('123456789');
+
+    expect(crc32(data, false)).toBe(0xCBF43926);
+    expect(crc32(data)).toBe(0xCBF43926);
+  });
+
+  test('the reporter removes a trace it cannot redact', async ({}, testInfo) => {
+    const file = testInfo.outputPath('broken-trace.zip');
+    fs.writeFileSync(file, writeZip([{ name: 'trace.trace', data: Buffer.from('{}') }]).subarray(0, 20));
+    // TYPESCRIPT: Just the part of a TestResult the reporter reads
+    const result = {
+      steps: [], errors: [], stdout: [], stderr: [],
+      attachments: [
+        { name: 'trace', contentType: 'application/zip', path: file },
+        { name: 'note', contentType: 'text/plain', body: Buffer.from('kept') }
+      ]
+    } as unknown as TestResult;
+
+    new RedactingReporter().onTestEnd({} as TestCase, result);
+
+    expect(fs.existsSync(file)).toBe(false);
+    expect(result.attachments.map(a => a.name)).toEqual(['trace (removed)', 'note']);
+    expect(result.attachments[0].body?.toString()).toContain('could not be redacted: Not a zip archive');
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. COMPUTED PROPERTY NAMES:
+ *    { [passwordVariable('problem_user')]: '...' } uses a function result as a key
+ *
+ * 2. EMPTY FIXTURE DESTRUCTURING:
+ *    async ({}, testInfo) => ... when a test needs testInfo but no fixtures
+ *
+ * 3. BUFFERS:
+ *    Buffer.from(string) and buffer.toString() convert between text and bytes
+ */
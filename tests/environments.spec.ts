@@ -0,0 +1,91 @@
+/**
+ * ENVIRONMENT PROFILE TESTS
+ *
+ * Checks profile selection and env-var overrides in environments/index.ts.
+ * resolveProfile() takes the environment as a parameter, so no browser
+ * (and no real process.env changes) are needed.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Passing a plain object where process.env is expected
+ * - Asserting on thrown errors
+ */
+
+import { test, expect } from '@playwright/test';
+import { resolveProfile, profiles, DEFAULT_PROFILE, describeProfile, replicaPort } from '../environments';
+
+test.describe('Environment profiles', () => {
+
+  test('uses the default profile when SAUCE_PROFILE is unset', () => {
+    const profile = resolveProfile({});
+
+    expect(profile.name).toBe(DEFAULT_PROFILE);
+    expect(profile.baseURL).toBe('https://www.saucedemo.com');
+  });
+
+  test('selects a profile by name', () => {
+    const profile = resolveProfile({ SAUCE_PROFILE: 'slow-network' });
+
+    expect(profile.replica).toBe(true);
+    expect(profile.projects).toEqual(['chromium']);
+    expect(profile.timeouts.test).toBeGreaterThan(profiles.local.timeouts.test);
+  });
+
+  test('names the available profiles when the name is unknown', () => {
+    expect(() => resolveProfile({ SAUCE_PROFILE: 'qa' })).toThrow(/Unknown SAUCE_PROFILE "qa".*local.*staging/);
+  });
+
+  test('applies env-var overrides on top of the profile', () => {
+    const profile = resolveProfile({
+      SAUCE_PROFILE: 'staging',
+      SAUCE_BASE_URL: 'https://staging.example.com',
+      SAUCE_EXPECT_TIMEOUT_MS: '12000',
+      SAUCE_PROJECTS: 'webkit, chromium'
+    });
+
+    expect(profile.baseURL).toBe('https://staging.example.com');
+    expect(profile.timeouts.expect).toBe(12000);
+    expect(profile.timeouts.test).toBe(profiles.staging.timeouts.test);
+    expect(profile.projects).toEqual(['webkit', 'chromium']);
+  });
+
+  test('overrides the tax rate', () => {
+    expect(resolveProfile({}).tax).toBeUndefined();
+    expect(resolveProfile({ SAUCE_TAX_RATE: '0.0725' }).tax).toEqual({ rate: 0.0725, rounding: 'half-up' });
+  });
+
+  test('rejects malformed overrides', () => {
+    expect(() => resolveProfile({ SAUCE_TEST_TIMEOUT_MS: '30s' })).toThrow(/SAUCE_TEST_TIMEOUT_MS/);
+    expect(() => resolveProfile({ SAUCE_PROJECTS: 'chromium,edge' })).toThrow(/unknown project\(s\): edge/);
+    expect(() => resolveProfile({ SAUCE_TAX_RATE: '8%' })).toThrow(/SAUCE_TAX_RATE/);
+  });
+
+  test('a replica profile takes its port from the base URL', () => {
+    const profile = resolveProfile({ SAUCE_PROFILE: 'local', SAUCE_BASE_URL: 'http://127.0.0.1:5123' });
+
+    expect(replicaPort(profile.baseURL)).toBe(5123);
+    expect(replicaPort('http://localhost')).toBe(80);
+  });
+
+  test('rejects a replica base URL the replica can\'t serve', () => {
+    expect(() => resolveProfile({ SAUCE_PROFILE: 'local', SAUCE_BASE_URL: 'https://www.saucedemo.com' }))
+      .toThrow(/must be http:\/\/localhost:<port>/);
+    expect(() => resolveProfile({ SAUCE_PROFILE: 'slow-network', SAUCE_BASE_URL: '//localhost:4300' }))
+      .toThrow(/not a valid URL/);
+    // The live profiles accept any host
+    expect(resolveProfile({ SAUCE_PROFILE: 'staging', SAUCE_BASE_URL: 'https://qa.example.com' }).baseURL).toBe('https://qa.example.com');
+  });
+
+  test('describes the profile for the report header', () => {
+    expect(describeProfile(profiles.local)).toMatch(/^local - .* @ http:\/\/localhost:\d+$/);
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. DEPENDENCY INJECTION:
+ *    resolveProfile(env) reads from the object it is given, not from the global process.env
+ *
+ * 2. RECORD LOOKUPS:
+ *    profiles.local / profiles.staging index the profile registry
+ */
@@ -10,12 +10,14 @@
  * - Complex assertions
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../fixtures/auth.fixture';
 import { LoginPage } from '../pages/LoginPage';
 import { InventoryPage } from '../pages/InventoryPage';
 import { CartPage } from '../pages/CartPage';
-import users from '../test-data/users.json';
-import products from '../test-data/products.json';
+import { attachCatalogueDiff, diffCatalogue, formatCatalogueDiff, isCatalogueMatch } from '../utils/catalogue-diff';
+import { CartState } from '../utils/cart-state';
+import { SORT_LABELS, SORT_OPTIONS } from '../utils/sort-order';
+import { getPersona, getProduct, products } from '../utils/test-data';
 
 test.describe('Inventory Page', () => {
   
@@ -23,7 +25,7 @@ test.describe('Inventory Page', () => {
   // This runs before each test to ensure we're logged in
   test.beforeEach(async ({ page }) => {
     const loginPage = new LoginPage(page);
-    const user = users.validUsers[0];
+    const user = getPersona('standard_user');
     
     await loginPage.goto();
     await loginPage.login(user.username, user.password);
@@ -42,7 +44,7 @@ test.describe('Inventory Page', () => {
     const productCount = await inventoryPage.getProductItems().count();
     
     // TYPESCRIPT: Verify count matches expected number from test data
-    expect(productCount).toBe(products.products.length);
+    expect(productCount).toBe(products.length);
   });
 
   test('should display product names correctly', async ({ page }) => {
@@ -52,7 +54,7 @@ test.describe('Inventory Page', () => {
     const displayedNames = await inventoryPage.getAllProductNames();
     
     // TYPESCRIPT: Extract expected names from test data using map()
-    const expectedNames = products.products.map(p => p.name);
+    const expectedNames = products.map(p => p.name);
     
     // Verify all expected products are displayed
     for (const expectedName of expectedNames) {
@@ -60,6 +62,17 @@ test.describe('Inventory Page', () => {
     }
   });
 
+  test('should display the catalogue from products.json', async ({ page }, testInfo) => {
+    const inventoryPage = new InventoryPage(page);
+    
+    // TYPESCRIPT: One typed record per card - name, description, price, image, button and link
+    const diff = diffCatalogue(await inventoryPage.getCatalogue());
+    
+    // The diff goes into the HTML report either way; the message lists every difference
+    await attachCatalogueDiff(testInfo, diff);
+    expect(isCatalogueMatch(diff), formatCatalogueDiff(diff)).toBe(true);
+  });
+
   test('should display product prices correctly', async ({ page }) => {
     const inventoryPage = new InventoryPage(page);
     
@@ -67,81 +80,33 @@ test.describe('Inventory Page', () => {
     const displayedPrices = await inventoryPage.getAllProductPrices();
     
     // TYPESCRIPT: Extract expected prices from test data
-    const expectedPrices = products.products.map(p => p.price);
+    const expectedPrices = products.map(p => p.price);
     
     // Verify we have the right number of prices
     expect(displayedPrices.length).toBe(expectedPrices.length);
     
-    // Verify all prices are positive numbers
+    // Verify all prices are positive amounts
     for (const price of displayedPrices) {
-      expect(price).toBeGreaterThan(0);
+      expect(price.cents).toBeGreaterThan(0);
     }
   });
 
   // SORTING TESTS
 
-  test('should sort products by name A to Z', async ({ page }) => {
-    const inventoryPage = new InventoryPage(page);
-    
-    // Sort products A to Z
-    await inventoryPage.sortProducts('az');
-    
-    // Get product names after sorting
-    const sortedNames = await inventoryPage.getAllProductNames();
-    
-    // TYPESCRIPT: Create a sorted copy to compare
-    // [...array] creates a copy, then sort() sorts it
-    const expectedOrder = [...sortedNames].sort();
-    
-    // Verify the order matches
-    expect(sortedNames).toEqual(expectedOrder);
-  });
-
-  test('should sort products by name Z to A', async ({ page }) => {
-    const inventoryPage = new InventoryPage(page);
-    
-    // Sort products Z to A
-    await inventoryPage.sortProducts('za');
-    
-    // Get product names after sorting
-    const sortedNames = await inventoryPage.getAllProductNames();
-    
-    // TYPESCRIPT: Sort in reverse order
-    const expectedOrder = [...sortedNames].sort().reverse();
-    
-    // Verify the order matches
-    expect(sortedNames).toEqual(expectedOrder);
-  });
-
-  test('should sort products by price low to high', async ({ page }) => {
-    const inventoryPage = new InventoryPage(page);
-    
-    // Sort by price low to high
-    await inventoryPage.sortProducts('lohi');
-    
-    // Get prices after sorting
-    const sortedPrices = await inventoryPage.getAllProductPrices();
-    
-    // TYPESCRIPT: Verify prices are in ascending order
-    for (let i = 0; i < sortedPrices.length - 1; i++) {
-      expect(sortedPrices[i]).toBeLessThanOrEqual(sortedPrices[i + 1]);
-    }
-  });
-
-  test('should sort products by price high to low', async ({ page }) => {
-    const inventoryPage = new InventoryPage(page);
-    
-    // Sort by price high to low
-    await inventoryPage.sortProducts('hilo');
-    
-    // Get prices after sorting
-    const sortedPrices = await inventoryPage.getAllProductPrices();
-    
-    // TYPESCRIPT: Verify prices are in descending order
-    for (let i = 0; i < sortedPrices.length - 1; i++) {
-      expect(sortedPrices[i]).toBeGreaterThanOrEqual(sortedPrices[i + 1]);
-    }
-  });
+  // TYPESCRIPT: One test per SortOption; toBeSortedBy() knows the expected order,
+  // including the name tie-break for equal prices and locale-aware name comparison
+  for (const option of SORT_OPTIONS) {
+    test(`should sort products by ${SORT_LABELS[option]}`, async ({ page }) => {
+      const inventoryPage = new InventoryPage(page);
+      
+      await inventoryPage.sortProducts(option);
+      expect(await inventoryPage.getActiveSort()).toBe(option);
+      
+      // Retries until the list is re-rendered; on failure it names the first pair
+      // of products that is out of order and shows the expected order
+      await expect(inventoryPage).toBeSortedBy(option);
+    });
+  }
 
   // ADD TO CART TESTS
 
@@ -149,13 +114,13 @@ test.describe('Inventory Page', () => {
     const inventoryPage = new InventoryPage(page);
     
     // Get first product from test data
-    const product = products.products[0];
+    const product = getProduct('sauce-labs-backpack');
     
     // Add product to cart
     await inventoryPage.addProductToCart(product.name);
     
     // Verify cart badge shows 1 item
-    const cartCount = await inventoryPage.getCartItemCount();
+    const cartCount = await inventoryPage.cartBadge.getCount();
     expect(cartCount).toBe(1);
     
     // Verify product shows "Remove" button
@@ -167,30 +132,33 @@ test.describe('Inventory Page', () => {
     const inventoryPage = new InventoryPage(page);
     
     // TYPESCRIPT: Get first 3 products
-    const productsToAdd = products.products.slice(0, 3);
+    const productsToAdd = products.slice(0, 3);
     const productNames = productsToAdd.map(p => p.name);
     
     // Add multiple products
     await inventoryPage.addMultipleProductsToCart(productNames);
     
     // Verify cart badge shows correct count
-    const cartCount = await inventoryPage.getCartItemCount();
+    const cartCount = await inventoryPage.cartBadge.getCount();
     expect(cartCount).toBe(3);
+    
+    // Verify the app stored exactly those products
+    expect(await new CartState(page).read()).toEqual(productsToAdd.map(p => p.id));
   });
 
   test('should remove product from cart', async ({ page }) => {
     const inventoryPage = new InventoryPage(page);
-    const product = products.products[0];
+    const product = getProduct('sauce-labs-backpack');
     
     // Add product first
     await inventoryPage.addProductToCart(product.name);
-    expect(await inventoryPage.getCartItemCount()).toBe(1);
+    await expect(inventoryPage).toHaveCartCount(1);
     
     // Remove product
     await inventoryPage.removeProductFromCart(product.name);
     
     // Verify cart is empty (badge not visible)
-    const cartCount = await inventoryPage.getCartItemCount();
+    const cartCount = await inventoryPage.cartBadge.getCount();
     expect(cartCount).toBe(0);
     
     // Verify "Add to cart" button is back
@@ -203,8 +171,8 @@ test.describe('Inventory Page', () => {
     
     // Add products one by one and verify count
     for (let i = 0; i < 3; i++) {
-      await inventoryPage.addProductToCart(products.products[i].name);
-      const count = await inventoryPage.getCartItemCount();
+      await inventoryPage.addProductToCart(products[i].name);
+      const count = await inventoryPage.cartBadge.getCount();
       expect(count).toBe(i + 1);
     }
   });
@@ -213,7 +181,7 @@ test.describe('Inventory Page', () => {
 
   test('should navigate to product detail page when clicking product', async ({ page }) => {
     const inventoryPage = new InventoryPage(page);
-    const product = products.products[0];
+    const product = getProduct('sauce-labs-backpack');
     
     // Click on product name
     await inventoryPage.clickProduct(product.name);
@@ -232,16 +200,17 @@ test.describe('Inventory Page', () => {
     await expect(page).toHaveURL(/cart.html/);
   });
 
-  test('should logout successfully', async ({ page }) => {
+  test('should logout successfully', async ({ page, baseURL }) => {
     const inventoryPage = new InventoryPage(page);
     const loginPage = new LoginPage(page);
     
     // Logout
-    await inventoryPage.logout();
+    await inventoryPage.sideMenu.logout();
     
     // Verify we're back on login page
     await expect(loginPage.loginButton).toBeVisible();
-    await expect(page).toHaveURL(/^https:\/\/www\.saucedemo\.com\/?$/);
+    // TYPESCRIPT: 'baseURL' comes from playwright.config.ts, so this works for the live site and the replica
+    await expect(page).toHaveURL(`${baseURL}/`);
   });
 
   // CART INTEGRATION TESTS
@@ -249,7 +218,7 @@ test.describe('Inventory Page', () => {
   test('should maintain cart when navigating to cart and back', async ({ page }) => {
     const inventoryPage = new InventoryPage(page);
     const cartPage = new CartPage(page);
-    const product = products.products[0];
+    const product = getProduct('sauce-labs-backpack');
     
     // Add product to cart
     await inventoryPage.addProductToCart(product.name);
@@ -263,26 +232,24 @@ test.describe('Inventory Page', () => {
     await expect(inventoryPage.inventoryContainer).toBeVisible();
     
     // Verify cart still shows 1 item
-    const cartCount = await inventoryPage.getCartItemCount();
+    const cartCount = await inventoryPage.cartBadge.getCount();
     expect(cartCount).toBe(1);
   });
 
   test('should show correct products in cart', async ({ page }) => {
-    const inventoryPage = new InventoryPage(page);
     const cartPage = new CartPage(page);
+    const cartState = new CartState(page);
     
-    // Add specific products
-    const productsToAdd = [products.products[0].name, products.products[2].name];
-    await inventoryPage.addMultipleProductsToCart(productsToAdd);
-    
-    // Go to cart
-    await inventoryPage.goToCart();
+    // Seed specific products into the stored cart, then load the cart page
+    const productsToAdd = [getProduct('sauce-labs-backpack'), getProduct('sauce-labs-bolt-t-shirt')];
+    await cartState.seed(productsToAdd.map(p => p.id));
+    await page.goto('/cart.html');
     
     // Verify correct products are in cart
     const cartProductNames = await cartPage.getAllProductNames();
     
-    for (const productName of productsToAdd) {
-      expect(cartProductNames).toContain(productName);
+    for (const product of productsToAdd) {
+      expect(cartProductNames).toContain(product.name);
     }
   });
 
@@ -292,20 +259,20 @@ test.describe('Inventory Page', () => {
     const inventoryPage = new InventoryPage(page);
     
     // TYPESCRIPT: Test with all products from test data
-    for (const product of products.products) {
+    for (const product of products) {
       await inventoryPage.addProductToCart(product.name);
     }
     
     // Verify cart count matches total products
-    const cartCount = await inventoryPage.getCartItemCount();
-    expect(cartCount).toBe(products.products.length);
+    const cartCount = await inventoryPage.cartBadge.getCount();
+    expect(cartCount).toBe(products.length);
   });
 
   test('should display correct price for each product', async ({ page }) => {
     const inventoryPage = new InventoryPage(page);
     
     // TYPESCRIPT: Verify each product's price matches test data
-    for (const product of products.products) {
+    for (const product of products) {
       // Get the product element
       const productElement = inventoryPage.getProductByName(product.name);
       
@@ -313,7 +280,7 @@ test.describe('Inventory Page', () => {
       const priceText = await productElement.locator('.inventory_item_price').textContent();
       
       // Verify it matches expected price
-      expect(priceText).toBe(`$${product.price}`);
+      expect(priceText).toBe(product.price.format());
     }
   });
 
@@ -321,20 +288,20 @@ test.describe('Inventory Page', () => {
 
   test('should handle adding and removing same product multiple times', async ({ page }) => {
     const inventoryPage = new InventoryPage(page);
-    const product = products.products[0];
+    const product = getProduct('sauce-labs-backpack');
     
     // Add, remove, add, remove
     await inventoryPage.addProductToCart(product.name);
-    expect(await inventoryPage.getCartItemCount()).toBe(1);
+    await expect(inventoryPage).toHaveCartCount(1);
     
     await inventoryPage.removeProductFromCart(product.name);
-    expect(await inventoryPage.getCartItemCount()).toBe(0);
+    await expect(inventoryPage).toHaveCartCount(0);
     
     await inventoryPage.addProductToCart(product.name);
-    expect(await inventoryPage.getCartItemCount()).toBe(1);
+    await expect(inventoryPage).toHaveCartCount(1);
     
     await inventoryPage.removeProductFromCart(product.name);
-    expect(await inventoryPage.getCartItemCount()).toBe(0);
+    await expect(inventoryPage).toHaveCartCount(0);
   });
 
   test('should maintain sort order after adding to cart', async ({ page }) => {
@@ -345,7 +312,7 @@ test.describe('Inventory Page', () => {
     const namesBeforeAdd = await inventoryPage.getAllProductNames();
     
     // Add a product
-    await inventoryPage.addProductToCart(products.products[0].name);
+    await inventoryPage.addProductToCart(getProduct('sauce-labs-backpack').name);
     
     // Verify sort order is maintained
     const namesAfterAdd = await inventoryPage.getAllProductNames();
@@ -378,7 +345,7 @@ test.describe('Inventory Page', () => {
  *    toBeGreaterThanOrEqual() - Greater than or equal
  * 
  * 5. DATA-DRIVEN TESTING:
- *    Using test-data/products.json
+ *    Using products from utils/test-data.ts (validated products.json)
  *    Testing with multiple data sets
  *    Verifying against expected data
  * 
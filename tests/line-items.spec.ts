@@ -0,0 +1,65 @@
+/**
+ * CART vs OVERVIEW LINE ITEM TESTS
+ *
+ * compareLineItems() is a pure function, so these tests feed it hand-made
+ * cart and overview lists instead of opening a browser. The browser check is
+ * in end-to-end.spec.ts ('checkout overview lists the same items as the cart').
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Building typed test data from products.json
+ * - Asserting on structured results with toEqual
+ */
+
+import { test, expect } from '@playwright/test';
+import type { CartItem } from '../pages/CartPage';
+import { Money } from '../utils/money';
+import { compareLineItems } from '../utils/line-items';
+import { products } from '../utils/test-data';
+
+// TYPESCRIPT: A cart with the first three products, as CartPage.getAllCartItems() would read it
+const cart: CartItem[] = products.slice(0, 3).map(({ name, description, price }) => ({ name, description, price, quantity: 1 }));
+
+test.describe('compareLineItems', () => {
+
+  test('an identical overview matches', () => {
+    const check = compareLineItems(cart, [...cart]);
+
+    expect(check.ok).toBe(true);
+    expect(check.message).toBe('The overview lists the same 3 item(s) as the cart');
+  });
+
+  test('reports missing and unexpected items', () => {
+    const extra: CartItem = { name: 'Sauce Labs Jacket', description: 'New', price: Money.parse('$59.99'), quantity: 1 };
+    const check = compareLineItems(cart, [cart[0], cart[2], extra]);
+
+    expect(check.ok).toBe(false);
+    expect(check.missing).toEqual([cart[1]]);
+    expect(check.unexpected).toEqual([extra]);
+    expect(check.changed).toEqual([]);
+  });
+
+  test('reports each changed field of an item', () => {
+    const overview = [{ ...cart[0], price: Money.parse('$39.99'), quantity: 2 }, cart[1], cart[2]];
+    const check = compareLineItems(cart, overview);
+
+    expect(check.changed).toEqual([
+      { name: cart[0].name, field: 'quantity', expected: '1', actual: '2' },
+      { name: cart[0].name, field: 'price', expected: cart[0].price.format(), actual: '$39.99' }
+    ]);
+    expect(check.message).toContain(`changed price: ${cart[0].name}: "${cart[0].price}" -> "$39.99"`);
+  });
+
+  test('an empty overview is missing every cart item', () => {
+    expect(compareLineItems(cart, []).missing).toHaveLength(cart.length);
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. DESTRUCTURING IN PARAMETERS:
+ *    products.map(({ name, description, price }) => ({ ... })) keeps only those fields
+ *
+ * 2. SPREAD TO MODIFY A COPY:
+ *    { ...cart[0], quantity: 2 } - the same item with one field changed
+ */
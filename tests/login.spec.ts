@@ -14,7 +14,7 @@
 import { test, expect } from '@playwright/test';
 import { LoginPage } from '../pages/LoginPage';
 import { InventoryPage } from '../pages/InventoryPage';
-import users from '../test-data/users.json';
+import { getPersona, personaWith, validPersonas } from '../utils/test-data';
 
 // TYPESCRIPT LEARNING: test.describe()
 // Groups related tests together
@@ -38,8 +38,8 @@ test.describe('Login Feature', () => {
     const inventoryPage = new InventoryPage(page);
     
     // TYPESCRIPT: Access properties from imported JSON
-    // users.validUsers[0] gets the first valid user object
-    const user = users.validUsers[0];
+    // getPersona() looks a user up by username (and fails clearly if it's missing)
+    const user = getPersona('standard_user');
     
     // Perform login
     await loginPage.login(user.username, user.password);
@@ -65,7 +65,7 @@ test.describe('Login Feature', () => {
     
     // TYPESCRIPT: for...of loop through array
     // Test each valid user can login
-    for (const user of users.validUsers) {
+    for (const user of validPersonas()) {
       // Login with this user
       await loginPage.login(user.username, user.password);
       
@@ -73,7 +73,7 @@ test.describe('Login Feature', () => {
       await expect(inventoryPage.inventoryContainer).toBeVisible();
       
       // Logout to test next user
-      await inventoryPage.logout();
+      await inventoryPage.sideMenu.logout();
       
       // Wait for login page to appear
       await expect(loginPage.loginButton).toBeVisible();
@@ -100,7 +100,7 @@ test.describe('Login Feature', () => {
     const loginPage = new LoginPage(page);
     
     // Use invalid credentials from test data
-    const invalidUser = users.invalidUser;
+    const invalidUser = personaWith('invalid');
     
     // Attempt login with invalid credentials
     await loginPage.login(invalidUser.username, invalidUser.password);
@@ -120,7 +120,7 @@ test.describe('Login Feature', () => {
     const loginPage = new LoginPage(page);
     
     // Use locked out user from test data
-    const lockedUser = users.lockedOutUser;
+    const lockedUser = personaWith('locked');
     
     // Attempt login
     await loginPage.login(lockedUser.username, lockedUser.password);
@@ -137,7 +137,7 @@ test.describe('Login Feature', () => {
     const loginPage = new LoginPage(page);
     
     // Try to login with empty username
-    await loginPage.login('', 'secret_sauce');
+    await loginPage.login('', getPersona('standard_user').password);
     
     // Verify error message
     const errorText = await loginPage.getErrorMessage();
@@ -249,14 +249,14 @@ test.describe('Login Feature', () => {
  * 4. IMPORTING:
  *    import { test, expect } - Playwright test functions
  *    import { LoginPage } - Our page object
- *    import users from '../test-data/users.json' - Test data
+ *    import { getPersona } from '../utils/test-data' - Typed test data
  * 
  * 5. OBJECT ACCESS:
- *    users.validUsers[0] - Array index access
+ *    getPersona('standard_user') - Lookup by username
  *    user.username - Object property access
  * 
  * 6. LOOPS:
- *    for (const user of users.validUsers) - Iterate array
+ *    for (const user of validPersonas()) - Iterate array
  * 
  * 7. PAGE OBJECT USAGE:
  *    const loginPage = new LoginPage(page) - Create instance
@@ -0,0 +1,136 @@
+/**
+ * CUSTOM MATCHER TESTS
+ *
+ * Each matcher from fixtures/matchers.ts passes on a page that satisfies it,
+ * waits for a page that gets there a moment later, and fails with a
+ * readable message when the page never does.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Asserting on a failing assertion's message
+ * - @ts-expect-error to prove a matcher rejects the wrong receiver
+ */
+
+import { test, expect } from '../fixtures/auth.fixture';
+import { CartPage } from '../pages/CartPage';
+import { InventoryPage } from '../pages/InventoryPage';
+import { Money } from '../utils/money';
+import { getProduct } from '../utils/test-data';
+
+const backpack = getProduct('sauce-labs-backpack');
+const onesie = getProduct('sauce-labs-onesie');
+
+// Failing assertions give up quickly in these tests
+const quickly = { timeout: 1000 };
+
+/**
+ * The message of an assertion that must fail, without terminal colours
+ */
+async function failureOf(assertion: Promise<void>): Promise<string> {
+  const error = await assertion.then(() => undefined, (e: Error) => e);
+  expect(error, 'the assertion should have failed').toBeDefined();
+  return error!.message.replace(/\u001b\[\d+m/g, '');
+}
+
+test.describe('Custom matchers', () => {
+
+  test.beforeEach(async ({ authenticatedPage }) => {
+    await expect(authenticatedPage).toHaveURL(/inventory.html/);
+  });
+
+  test('toHaveCartCount waits for the badge to update', async ({ inventoryPage }) => {
+    await expect(inventoryPage).toHaveCartCount(0);
+
+    // No await: the assertion has to wait for the click
+    const adding = inventoryPage.addProductToCart(backpack.name);
+    await expect(inventoryPage).toHaveCartCount(1);
+    await adding;
+
+    await expect(inventoryPage.cartBadge).toHaveCartCount(1);
+    await expect(inventoryPage).not.toHaveCartCount(0);
+  });
+
+  test('toHaveCartCount explains a wrong count', async ({ inventoryPage }) => {
+    await inventoryPage.addProductToCart(backpack.name);
+
+    const message = await failureOf(expect(inventoryPage).toHaveCartCount(3, quickly));
+
+    expect(message).toContain('Expected cart count: 3\nReceived cart count: 1');
+  });
+
+  test('toContainProducts lists the missing products', async ({ page, cartState, cartPage }) => {
+    await cartState.seed([backpack.id]);
+    await page.goto('/cart.html');
+
+    await expect(cartPage).toContainProducts([backpack]);
+    await expect(cartPage).not.toContainProducts([onesie]);
+
+    const message = await failureOf(expect(cartPage).toContainProducts([backpack, onesie.name], quickly));
+    expect(message).toContain('Missing:  ["Sauce Labs Onesie"]');
+  });
+
+  test('toBeSortedBy checks every sort option', async ({ inventoryPage }) => {
+    await expect(inventoryPage).toBeSortedBy('az');
+
+    await inventoryPage.sortProducts('lohi');
+    await expect(inventoryPage).toBeSortedBy('lohi');
+    await expect(inventoryPage).not.toBeSortedBy('hilo');
+  });
+
+  test('toBeSortedBy shows the expected and the shown order', async ({ inventoryPage }) => {
+    const message = await failureOf(expect(inventoryPage).toBeSortedBy('za', quickly));
+
+    expect(message).toContain('Not sorted by Name (Z to A): item 1 "Sauce Labs Backpack" ($29.99)');
+    expect(message).toContain('Expected order');
+    expect(message).toContain('Shown order');
+  });
+
+  test('toShowPrice reads cards, the product page and price labels', async ({ inventoryPage, productPage }) => {
+    const card = inventoryPage.getProductCard(onesie.name);
+    await expect(card).toShowPrice(onesie.price);
+    await expect(card.priceLabel).toShowPrice(onesie.price);
+    await expect(card).not.toShowPrice(backpack.price);
+
+    await card.open();
+    await expect(productPage).toShowPrice(onesie.price);
+
+    const message = await failureOf(expect(productPage).toShowPrice(Money.parse('$1.00'), quickly));
+    expect(message).toContain('Expected price: "$1.00"\nShown price:    "$7.99"');
+  });
+
+  test('toMatchCatalogue compares the inventory with products.json', async ({ inventoryPage }) => {
+    await expect(inventoryPage).toMatchCatalogue();
+
+    // Without the backpack in the expected list, the page shows one product too many
+    const others = [getProduct('sauce-labs-bike-light'), onesie];
+    const message = await failureOf(expect(inventoryPage).toMatchCatalogue(others, quickly));
+
+    expect(message).toContain('added: Sauce Labs Backpack');
+  });
+});
+
+/**
+ * Compile-time guarantees
+ * TYPESCRIPT: Never called - each @ts-expect-error line must be a type error (see checkout-flow.spec.ts)
+ */
+export async function matcherTypeChecks(inventoryPage: InventoryPage, cartPage: CartPage): Promise<void> {
+  await expect(cartPage).toHaveCartCount(1);
+
+  // @ts-expect-error - only the inventory page can be sorted
+  await expect(cartPage).toBeSortedBy('lohi');
+
+  // @ts-expect-error - not a sort option
+  await expect(inventoryPage).toBeSortedBy('price');
+
+  // @ts-expect-error - prices are Money, not numbers
+  await expect(inventoryPage.getProductCard(backpack.name)).toShowPrice(29.99);
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. TESTING A FAILURE MESSAGE:
+ *    failureOf(expect(page).toHaveCartCount(3, quickly)) - the error message, colours removed
+ *
+ * 2. RECEIVER TYPES:
+ *    toBeSortedBy only exists on expect(inventoryPage)
+ */
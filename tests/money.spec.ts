@@ -0,0 +1,72 @@
+/**
+ * MONEY TESTS
+ *
+ * Money is plain TypeScript, so these tests run without a browser.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Testing a value object
+ * - Data-driven tests over arrays of inputs
+ */
+
+import { test, expect } from '@playwright/test';
+import { Money } from '../utils/money';
+import { products } from '../utils/test-data';
+
+test.describe('Money', () => {
+
+  test('parses and formats prices the way the app shows them', () => {
+    expect(Money.parse('$29.99').cents).toBe(2999);
+    expect(Money.parse(' $7.99\n').cents).toBe(799);
+    expect(Money.parse('$0.05').format()).toBe('$0.05');
+    expect(Money.fromCents(100000).format()).toBe('$1000.00');
+    expect(`${Money.fromCents(1599)}`).toBe('$15.99');
+  });
+
+  // TYPESCRIPT: One test per malformed input
+  for (const text of ['', '29.99', '$29.9', '$29.999', '$29', '$ 29.99', '$-1.00', '$1,000.00', 'Total: $29.99', 'NaN']) {
+    test(`rejects malformed price ${JSON.stringify(text)}`, () => {
+      expect(() => Money.parse(text)).toThrow(`Malformed price "${text}"`);
+    });
+  }
+
+  test('adds in whole cents, so there is no floating point error', () => {
+    // 0.1 + 0.2 === 0.30000000000000004 with numbers
+    expect(Money.parse('$0.10').plus(Money.parse('$0.20'))).toEqual(Money.parse('$0.30'));
+
+    const total = Money.sum(products.map(p => p.price));
+    expect(total.format()).toBe('$129.94');
+    expect(Money.sum([])).toEqual(Money.ZERO);
+  });
+
+  test('subtracts, multiplies and compares', () => {
+    const price = Money.parse('$9.99');
+
+    expect(price.times(3).format()).toBe('$29.97');
+    expect(price.minus(Money.parse('$10.00')).format()).toBe('-$0.01');
+    expect(price.equals(Money.fromCents(999))).toBe(true);
+    expect(price.compare(Money.parse('$15.99'))).toBeLessThan(0);
+    expect(() => price.times(1.5)).toThrow(/whole number/);
+  });
+
+  test('converts dollar amounts from test data, but not fractions of a cent', () => {
+    expect(Money.fromDollars(29.99).cents).toBe(2999);
+    expect(Money.fromDollars(15.99).cents).toBe(1599);
+    expect(() => Money.fromDollars(29.999)).toThrow(/at most 2 decimals/);
+    expect(() => Money.fromDollars(NaN)).toThrow(/at most 2 decimals/);
+    expect(() => Money.fromCents(0.5)).toThrow(/whole number of cents/);
+  });
+
+  test('serialises to JSON as a formatted price', () => {
+    expect(JSON.stringify({ price: Money.parse('$49.99') })).toBe('{"price":"$49.99"}');
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. DATA-DRIVEN TESTS:
+ *    for (const text of [...]) { test(...) } - one named test per input
+ *
+ * 2. toEqual ON VALUE OBJECTS:
+ *    Two Money objects with the same cents are equal, even though they are different objects
+ */
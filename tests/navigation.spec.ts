@@ -0,0 +1,115 @@
+/**
+ * NAVIGATION GUARD TESTS
+ *
+ * Page-object actions that leave the page return the next page object, and
+ * only after checking its URL and landmark (pages/navigation.ts). These tests
+ * cover the happy path (a whole journey chained through return values) and
+ * the failure messages when the app lands somewhere unexpected.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Methods that return other page objects
+ * - Asserting on thrown error messages
+ */
+
+import { test, expect } from '../fixtures/auth.fixture';
+import { InventoryPage } from '../pages/InventoryPage';
+import { PAGES, pageForPath, verifyOnPage } from '../pages/navigation';
+import { getPersona, getProduct, personaWith } from '../utils/test-data';
+
+const backpack = getProduct('sauce-labs-backpack');
+
+test.describe('Page identities', () => {
+
+  test('every page has its own path', () => {
+    const paths = Object.values(PAGES).map(identity => identity.path);
+    expect(new Set(paths).size).toBe(paths.length);
+  });
+
+  test('finds the page that owns a path', () => {
+    expect(pageForPath('/cart.html')).toBe(PAGES.cart);
+    expect(pageForPath('/checkout-step-two.html')).toBe(PAGES.checkoutOverview);
+    expect(pageForPath('/no-such-page.html')).toBeUndefined();
+  });
+});
+
+test.describe('Page transitions', () => {
+
+  test('a whole purchase chains through the returned page objects', async ({ loginPage }) => {
+    const user = getPersona('standard_user');
+    await loginPage.goto();
+
+    // TYPESCRIPT: Each await hands back the page object for where we landed
+    const inventoryPage = await loginPage.loginToInventory(user.username, user.password);
+    await inventoryPage.addProductToCart(backpack.name);
+
+    const cartPage = await inventoryPage.goToCart();
+    expect(await cartPage.getAllProductNames()).toEqual([backpack.name]);
+
+    const informationStep = await cartPage.checkout();
+    const overviewStep = await informationStep.completeCheckoutInfo({ firstName: 'John', lastName: 'Doe', postalCode: '12345' });
+    const completeStep = await overviewStep.finish();
+
+    const backOnInventory = await completeStep.backHome();
+    expect(await backOnInventory.isOnInventoryPage()).toBe(true);
+  });
+
+  test('product page round trip', async ({ authenticatedPage, inventoryPage }) => {
+    await expect(authenticatedPage).toHaveURL(/inventory.html/);
+
+    const productPage = await inventoryPage.clickProduct(backpack.name);
+    expect(await productPage.getProductName()).toBe(backpack.name);
+
+    const backOnInventory = await productPage.goBackToProducts();
+    expect(backOnInventory).toBeInstanceOf(InventoryPage);
+  });
+
+  test('the boolean checks agree with the guards', async ({ authenticatedPage, inventoryPage, cartPage }) => {
+    await expect(authenticatedPage).toHaveURL(/inventory.html/);
+
+    expect(await inventoryPage.isOnInventoryPage()).toBe(true);
+    expect(await cartPage.isOnCartPage()).toBe(false);
+
+    await inventoryPage.goToCart();
+
+    expect(await inventoryPage.isOnInventoryPage()).toBe(false);
+    expect(await cartPage.isOnCartPage()).toBe(true);
+  });
+});
+
+test.describe('Unexpected landings', () => {
+
+  test('a failed login names the page and its error', async ({ loginPage }) => {
+    const locked = personaWith('locked');
+    await loginPage.goto();
+
+    await expect(loginPage.loginToInventory(locked.username, locked.password)).rejects.toThrow(
+      /Expected the inventory page \(\/inventory.html\), but landed on the login page .* showing "Epic sadface: Sorry, this user has been locked out./
+    );
+  });
+
+  test('names the expected and the actual page', async ({ authenticatedPage }) => {
+    await expect(authenticatedPage).toHaveURL(/inventory.html/);
+
+    await expect(verifyOnPage(authenticatedPage, PAGES.cart, 1000)).rejects.toThrow(
+      /Expected the cart page \(\/cart.html\), but landed on the inventory page/
+    );
+  });
+
+  test('an unknown URL is reported as such', async ({ authenticatedPage }) => {
+    await authenticatedPage.goto('/no-such-page.html');
+
+    await expect(verifyOnPage(authenticatedPage, PAGES.inventory, 1000)).rejects.toThrow(
+      /but landed on an unknown page \(.*\/no-such-page.html\)/
+    );
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. RETURNING PAGE OBJECTS:
+ *    const cartPage = await inventoryPage.goToCart() - typed as CartPage
+ *
+ * 2. REJECTED PROMISES:
+ *    await expect(promise).rejects.toThrow(/regex/) checks the error message
+ */
@@ -0,0 +1,98 @@
+/**
+ * NO FIXED SLEEPS
+ *
+ * A lint check that runs with the suite: no spec and no page object may call
+ * waitForTimeout(). Wait for a condition instead (utils/waits.ts), e.g.
+ * waitForLocator(menu, 'visible') or waitForAnimations(menu).
+ *
+ * Comments are ignored, so explaining why a sleep is gone is fine.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Reading files with Node's fs module
+ * - Regular expressions with the global flag and matchAll()
+ */
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// The folders whose .ts files are checked
+const CHECKED_FOLDERS = ['tests', 'pages'];
+
+const FIXED_SLEEP = /\bwaitForTimeout\s*\(/g;
+
+interface Finding {
+  file: string;
+  line: number;
+  code: string;
+}
+
+/**
+ * Every .ts file under a folder
+ */
+function typeScriptFiles(folder: string): string[] {
+  return fs.readdirSync(folder, { withFileTypes: true, recursive: true })
+    .filter(entry => entry.isFile() && entry.name.endsWith('.ts'))
+    .map(entry => path.join(entry.parentPath, entry.name));
+}
+
+/**
+ * The source with its comments blanked out (newlines kept, so line numbers still match)
+ */
+function withoutComments(source: string): string {
+  const blank = (comment: string) => comment.replace(/[^\n]/g, ' ');
+  return source.replace(/\/\*[\s\S]*?\*\//g, blank).replace(/\/\/.*$/gm, blank);
+}
+
+/**
+ * The fixed sleeps in one file's source
+ */
+function findFixedSleeps(file: string, source: string): Finding[] {
+  const code = withoutComments(source);
+  const lines = source.split('\n');
+  return [...code.matchAll(FIXED_SLEEP)].map(match => {
+    const line = code.slice(0, match.index).split('\n').length;
+    return { file, line, code: lines[line - 1].trim() };
+  });
+}
+
+test.describe('No fixed sleeps', () => {
+
+  test('specs and page objects never call waitForTimeout()', () => {
+    const root = path.join(__dirname, '..');
+    const findings = CHECKED_FOLDERS
+      .flatMap(folder => typeScriptFiles(path.join(root, folder)))
+      // This file's own examples are strings, not calls
+      .filter(file => file !== __filename)
+      .flatMap(file => findFixedSleeps(path.relative(root, file), fs.readFileSync(file, 'utf-8')));
+
+    const report = findings.map(f => `  ${f.file}:${f.line}  ${f.code}`).join('\n');
+    expect(findings, `Fixed sleeps found - wait for a condition instead (utils/waits.ts):\n${report}`).toEqual([]);
+  });
+
+  test('the check finds sleeps in code, not in comments', () => {
+    const source = [
+      '// page.waitForTimeout(500) used to be here',
+      'await menu.click();',
+      'await page.waitForTimeout (500);',
+      '/* also page.waitForTimeout(1000) */'
+    ].join('\n');
+
+    expect(findFixedSleeps('example.spec.ts', source)).toEqual([
+      { file: 'example.spec.ts', line: 3, code: 'await page.waitForTimeout (500);' }
+    ]);
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. FILE SYSTEM ACCESS:
+ *    fs.readdirSync(folder, { withFileTypes: true, recursive: true }) - Dirent objects for a whole tree
+ *
+ * 2. matchAll():
+ *    [...code.matchAll(/.../g)] - every match with its index
+ *
+ * 3. flatMap():
+ *    folders -> files -> findings, flattened one level at each step
+ */
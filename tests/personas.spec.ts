@@ -0,0 +1,241 @@
+/**
+ * PERSONA DEFECT TESTS
+ *
+ * SauceDemo ships users with deliberate defects. Instead of ignoring them,
+ * these tests assert each documented defect, so we notice if a persona
+ * stops misbehaving the way we expect.
+ *
+ * The defects are reproduced deterministically by the local replica
+ * (see server/personas.ts), so this file only runs with a replica profile
+ * (SAUCE_PROFILE=local or slow-network).
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Conditional skipping with test.skip()
+ * - Handling browser dialogs
+ * - Measuring elapsed time
+ */
+
+import { test, expect, Page } from '@playwright/test';
+import { LoginPage } from '../pages/LoginPage';
+import { InventoryPage } from '../pages/InventoryPage';
+import { CartPage } from '../pages/CartPage';
+import { ProductPage } from '../pages/ProductPage';
+import { CheckoutCompleteStep } from '../pages/CheckoutCompleteStep';
+import { CheckoutFlow } from '../pages/checkout-flow';
+import { personaBehaviours } from '../server/personas';
+import { activeProfile } from '../environments';
+import { attachCatalogueDiff, diffCatalogue } from '../utils/catalogue-diff';
+import { getPersona, getProduct, products } from '../utils/test-data';
+
+// The live site's defects are not deterministic (e.g. random prices), so only assert them locally
+test.skip(!activeProfile.replica, 'Persona defects are asserted against the local replica only');
+
+/**
+ * Log in as one of the personas from users.json
+ * TYPESCRIPT: getPersona() throws if the persona is missing, so a typo fails loudly
+ */
+async function loginAs(page: Page, username: string): Promise<void> {
+  const user = getPersona(username);
+
+  const loginPage = new LoginPage(page);
+  await loginPage.goto();
+  await loginPage.login(user.username, user.password);
+}
+
+const backpack = getProduct('sauce-labs-backpack');        // Works for every persona
+const boltTShirt = getProduct('sauce-labs-bolt-t-shirt');  // Broken "Add to cart" for problem_user and error_user
+
+test.describe('problem_user defects', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await loginAs(page, 'problem_user');
+    await expect(new InventoryPage(page).inventoryContainer).toBeVisible();
+  });
+
+  test('every product shows the same broken image', async ({ page }) => {
+    const inventoryPage = new InventoryPage(page);
+
+    // TYPESCRIPT: evaluateAll() runs in the browser and returns a string[]
+    const sources = await inventoryPage.getProductItems()
+      .locator('img.inventory_item_img')
+      .evaluateAll(images => images.map(img => img.getAttribute('src')));
+
+    // TYPESCRIPT: new Set() removes duplicates - one unique src means every image is the same
+    expect(new Set(sources).size).toBe(1);
+    expect(sources[0]).toContain('sl-404');
+  });
+
+  test('sorting changes the label but not the order', async ({ page }) => {
+    const inventoryPage = new InventoryPage(page);
+    const namesBefore = await inventoryPage.getAllProductNames();
+
+    await inventoryPage.sortProducts('za');
+
+    await expect(page.locator('[data-test="active-option"]')).toHaveText('Name (Z to A)');
+    expect(await inventoryPage.getAllProductNames()).toEqual(namesBefore);
+  });
+
+  test('some "Add to cart" buttons do nothing', async ({ page }) => {
+    const inventoryPage = new InventoryPage(page);
+
+    await inventoryPage.addProductToCart(boltTShirt.name);
+
+    expect(await inventoryPage.cartBadge.getCount()).toBe(0);
+    await expect(inventoryPage.getAddToCartButton(boltTShirt.name)).toBeVisible();
+  });
+
+  test('product links open the wrong item', async ({ page }) => {
+    const inventoryPage = new InventoryPage(page);
+    const productPage = new ProductPage(page);
+
+    await inventoryPage.clickProduct(backpack.name);
+
+    await expect(page).toHaveURL(/inventory-item.html/);
+    await expect(productPage.productName).not.toHaveText(backpack.name);
+  });
+
+  test('last name input overwrites the first name', async ({ page }) => {
+    const inventoryPage = new InventoryPage(page);
+    const cartPage = new CartPage(page);
+
+    await inventoryPage.addProductToCart(backpack.name);
+    await inventoryPage.goToCart();
+    const informationStep = await cartPage.checkout();
+
+    // fill + continue rather than completeCheckoutInfo(): this user never reaches the overview
+    await informationStep.fillCheckoutInfo({
+      firstName: 'John',
+      lastName: 'Doe',
+      postalCode: '12345'
+    });
+    await informationStep.continue();
+
+    await expect(informationStep.firstNameInput).toHaveValue('Doe');
+    await expect(informationStep.lastNameInput).toHaveValue('');
+    await expect(informationStep.errorMessage).toHaveText('Error: Last Name is required');
+  });
+});
+
+test.describe('performance_glitch_user defects', () => {
+
+  test('login is delayed by the configured latency', async ({ page }) => {
+    const latencyMs = personaBehaviours.performance_glitch_user?.latencyMs ?? 0;
+
+    // TYPESCRIPT: The latency eats into the default timeouts, so give this test extra room
+    test.setTimeout(30 * 1000 + latencyMs);
+
+    const startedAt = Date.now();
+    await loginAs(page, 'performance_glitch_user');
+    await expect(new InventoryPage(page).inventoryContainer).toBeVisible({ timeout: latencyMs + 5000 });
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(latencyMs);
+  });
+});
+
+test.describe('error_user defects', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await loginAs(page, 'error_user');
+    await expect(new InventoryPage(page).inventoryContainer).toBeVisible();
+  });
+
+  test('sorting raises an error alert and keeps the order', async ({ page }) => {
+    const inventoryPage = new InventoryPage(page);
+    const namesBefore = await inventoryPage.getAllProductNames();
+
+    // TYPESCRIPT: Register the dialog handler BEFORE the action that opens the dialog
+    // waitForEvent() returns a Promise that resolves when the alert appears
+    const dialogPromise = page.waitForEvent('dialog');
+    const sortPromise = inventoryPage.sortProducts('hilo');
+    const dialog = await dialogPromise;
+
+    expect(dialog.message()).toContain('Sorting is broken');
+    await dialog.accept();
+    await sortPromise;
+
+    expect(await inventoryPage.getAllProductNames()).toEqual(namesBefore);
+  });
+
+  test('some "Add to cart" buttons do nothing', async ({ page }) => {
+    const inventoryPage = new InventoryPage(page);
+
+    await inventoryPage.addProductToCart(boltTShirt.name);
+
+    expect(await inventoryPage.cartBadge.getCount()).toBe(0);
+  });
+
+  test('finish does not complete the order', async ({ page }) => {
+    const inventoryPage = new InventoryPage(page);
+    const cartPage = new CartPage(page);
+
+    await inventoryPage.addProductToCart(backpack.name);
+    await inventoryPage.goToCart();
+
+    const overviewStep = await CheckoutFlow.from(cartPage)
+      .withInfo({ firstName: 'John', lastName: 'Doe', postalCode: '12345' })
+      .stopAt('overview');
+    await expect(overviewStep.finishButton).toBeVisible();
+
+    // A plain click rather than finish(): finish() would fail because the order never completes
+    await overviewStep.finishButton.click();
+
+    await expect(page).toHaveURL(/checkout-step-two.html/);
+    await expect(new CheckoutCompleteStep(page).completeHeader).toBeHidden();
+  });
+});
+
+test.describe('visual_user defects', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await loginAs(page, 'visual_user');
+    await expect(new InventoryPage(page).inventoryContainer).toBeVisible();
+  });
+
+  test('inventory prices do not match the catalogue', async ({ page }, testInfo) => {
+    const inventoryPage = new InventoryPage(page);
+
+    const diff = diffCatalogue(await inventoryPage.getCatalogue());
+    await attachCatalogueDiff(testInfo, diff);
+
+    // Every price is wrong, but names and descriptions are fine
+    expect(diff.repriced.map(change => change.id)).toEqual(products.map(p => p.id));
+    expect(diff.renamed).toEqual([]);
+    expect(diff.redescribed).toEqual([]);
+  });
+
+  test('cart icon and last card button are misaligned', async ({ page }) => {
+    await expect(page.locator('.shopping_cart_container')).toHaveClass(/visual_failure/);
+    await expect(page.locator('.btn_inventory_misaligned')).toHaveCount(1);
+  });
+
+  test('backpack shows the broken image', async ({ page }) => {
+    const inventoryPage = new InventoryPage(page);
+
+    const src = await inventoryPage.getProductByName(backpack.name)
+      .locator('img.inventory_item_img')
+      .getAttribute('src');
+
+    expect(src).toContain('sl-404');
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. FILE-LEVEL SKIP:
+ *    test.skip(condition, reason) at the top of a file skips every test in it
+ *
+ * 2. DIALOG HANDLING:
+ *    page.waitForEvent('dialog') resolves with a Dialog object
+ *    dialog.message() / dialog.accept()
+ *
+ * 3. OPTIONAL CHAINING AND NULLISH COALESCING:
+ *    personaBehaviours.performance_glitch_user?.latencyMs ?? 0
+ *
+ * 4. SETS FOR UNIQUENESS:
+ *    new Set(array).size counts distinct values
+ *
+ * RUNNING THESE TESTS:
+ *
+ * SAUCE_PROFILE=local npx playwright test personas.spec.ts
+ */
@@ -0,0 +1,131 @@
+/**
+ * SEEDED RANDOM TESTS
+ *
+ * Covers utils/random.ts and the random helpers in test-helpers.ts: the same
+ * seed gives the same numbers, shuffles are unbiased, and every test gets its
+ * own generator whose seed is recorded on the test.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Automatic fixtures (random) and testInfo.annotations
+ * - Counting outcomes with a Map
+ */
+
+import { test, expect } from '../fixtures/auth.fixture';
+import { SeededRandom, currentRandom, parseSeed, seedFromEnv } from '../utils/random';
+import { randomItem, randomItems, randomString } from '../utils/test-helpers';
+import { products } from '../utils/test-data';
+
+test.describe('Seeded random numbers', () => {
+
+  test('the same seed gives the same sequence', () => {
+    const first = new SeededRandom(42);
+    const second = new SeededRandom(42);
+
+    const rolls = Array.from({ length: 20 }, () => first.int(1, 6));
+
+    expect(Array.from({ length: 20 }, () => second.int(1, 6))).toEqual(rolls);
+    expect(new Set(rolls).size).toBeGreaterThan(1);
+  });
+
+  test('different seeds give different sequences', () => {
+    const a = new SeededRandom(1);
+    const b = new SeededRandom(2);
+
+    expect(Array.from({ length: 5 }, () => a.next())).not.toEqual(Array.from({ length: 5 }, () => b.next()));
+  });
+
+  test('int() stays within its bounds', () => {
+    const random = new SeededRandom(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = random.int(3, 5);
+      expect(value >= 3 && value <= 5, `got ${value}`).toBe(true);
+    }
+  });
+
+  test('rejects seeds that are not unsigned 32-bit integers', () => {
+    expect(() => new SeededRandom(-1)).toThrow('A seed must be a whole number');
+    expect(() => new SeededRandom(1.5)).toThrow('A seed must be a whole number');
+    expect(() => new SeededRandom(2 ** 32)).toThrow('A seed must be a whole number');
+  });
+
+  test('parseSeed() reads typed seeds and names bad ones', () => {
+    expect(parseSeed(' 1234 ')).toBe(1234);
+    expect(() => parseSeed('abc')).toThrow('"abc" is not a seed');
+    expect(() => parseSeed('')).toThrow('is not a seed');
+  });
+
+  test('SAUCE_SEED replays a seed', () => {
+    expect(seedFromEnv({ SAUCE_SEED: '1234' })).toBe(1234);
+    expect(() => seedFromEnv({ SAUCE_SEED: 'soon' })).toThrow('SAUCE_SEED: "soon" is not a seed');
+    expect(Number.isInteger(seedFromEnv({}))).toBe(true);
+  });
+});
+
+test.describe('Shuffling', () => {
+
+  test('a shuffle is a copy with the same items', () => {
+    const items = ['a', 'b', 'c', 'd', 'e'];
+
+    const shuffled = new SeededRandom(11).shuffle(items);
+
+    expect([...shuffled].sort()).toEqual(items);
+    expect(items).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  test('every order of three items is about equally likely', () => {
+    const random = new SeededRandom(2024);
+    const runs = 6000;
+    // TYPESCRIPT: Map<order, count>, e.g. 'bca' -> 1012
+    const counts = new Map<string, number>();
+
+    for (let i = 0; i < runs; i++) {
+      const order = random.shuffle(['a', 'b', 'c']).join('');
+      counts.set(order, (counts.get(order) ?? 0) + 1);
+    }
+
+    // 6 orders, 1000 each on average; sort(() => 0.5 - Math.random()) misses this by far
+    expect(counts.size).toBe(6);
+    for (const [order, count] of counts) {
+      expect(count, `${order} came up ${count} times in ${runs}`).toBeGreaterThan(900);
+      expect(count, `${order} came up ${count} times in ${runs}`).toBeLessThan(1100);
+    }
+  });
+
+  test('sample() picks different items', () => {
+    const picked = new SeededRandom(5).sample(products, 3);
+
+    expect(picked).toHaveLength(3);
+    expect(new Set(picked.map(p => p.id)).size).toBe(3);
+  });
+});
+
+test.describe('Per-test random', () => {
+
+  test('the seed is recorded as an annotation', ({ random }, testInfo) => {
+    const annotation = testInfo.annotations.find(a => a.type === 'seed');
+
+    expect(annotation?.description).toBe(`${random.seed} (replay with SAUCE_SEED=${random.seed})`);
+  });
+
+  test('the test helpers use the test\'s generator', ({ random }) => {
+    const replay = new SeededRandom(random.seed);
+
+    expect(currentRandom()).toBe(random);
+    expect(randomItem(products)).toBe(replay.pick(products));
+    expect(randomItems(products, 2)).toEqual(replay.sample(products, 2));
+    expect(randomString(8)).toHaveLength(8);
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. AUTOMATIC FIXTURES:
+ *    ({ random }) - the fixture runs for every test; naming it just gives the test access
+ *
+ * 2. MAP COUNTERS:
+ *    counts.set(key, (counts.get(key) ?? 0) + 1)
+ *
+ * 3. DETERMINISM AS A TEST TOOL:
+ *    new SeededRandom(random.seed) replays exactly what the test's generator did
+ */
@@ -0,0 +1,69 @@
+/**
+ * REPLICA SERVER TESTS
+ *
+ * Starts the offline replica in server/ on a free port and talks to it over a
+ * raw socket, so requests a browser would never send can be tested - no browser.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Node's net module for raw TCP
+ * - Narrowing server.address() (string | AddressInfo | null)
+ */
+
+import { test, expect } from '@playwright/test';
+import http from 'http';
+import net from 'net';
+import { startReplicaServer } from '../server/saucedemo-server';
+
+/**
+ * Send a raw HTTP request and return the response's status line
+ */
+function sendRaw(port: number, request: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(port, 'localhost', () => socket.write(request));
+    let response = '';
+    socket.setEncoding('utf-8');
+    socket.on('data', chunk => { response += chunk; });
+    socket.on('end', () => resolve(response.split('\r\n')[0]));
+    socket.on('error', reject);
+  });
+}
+
+test.describe('Replica server', () => {
+  let server: http.Server;
+  let port: number;
+
+  test.beforeAll(async () => {
+    // Port 0 = any free port
+    server = await startReplicaServer(0);
+    const address = server.address();
+    // TYPESCRIPT: address() is an AddressInfo only for a TCP server that is listening
+    if (address === null || typeof address === 'string') {
+      throw new Error(`Unexpected server address: ${address}`);
+    }
+    port = address.port;
+  });
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('answers the health check', async () => {
+    expect(await sendRaw(port, 'GET /health HTTP/1.1\r\nHost: localhost\r\nConnection: close\r\n\r\n')).toBe('HTTP/1.1 200 OK');
+  });
+
+  test('rejects a request target it cannot parse and keeps running', async () => {
+    expect(await sendRaw(port, 'GET //[ HTTP/1.1\r\nHost: localhost\r\nConnection: close\r\n\r\n')).toBe('HTTP/1.1 400 Bad Request');
+
+    expect(await sendRaw(port, 'GET /health HTTP/1.1\r\nHost: localhost\r\nConnection: close\r\n\r\n')).toBe('HTTP/1.1 200 OK');
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. PROMISES OVER EVENTS:
+ *    sendRaw() resolves on the socket's 'end' event and rejects on 'error'
+ *
+ * 2. NARROWING A UNION:
+ *    address === null || typeof address === 'string' leaves AddressInfo
+ */
@@ -0,0 +1,164 @@
+/**
+ * RETRY TESTS
+ *
+ * retry() from utils/retry.ts with actions that fail on purpose - no browser.
+ * Delays are kept to a few milliseconds so the tests stay fast.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Catching a specific error class (instanceof RetryError)
+ * - Closures that count calls
+ */
+
+import { test, expect } from '../fixtures/auth.fixture';
+import { SeededRandom } from '../utils/random';
+import { RetryError, RetryOptions, backoffDelay, retry } from '../utils/retry';
+import { StepLogEntry } from '../utils/steps';
+import { retryAction } from '../utils/test-helpers';
+
+// Short, predictable delays
+const fast: RetryOptions = { initialDelayMs: 1, jitter: 'none' };
+
+/**
+ * An action that fails the first `failures` times, then returns 'done'
+ */
+function flaky(failures: number) {
+  let calls = 0;
+  const action = async () => {
+    calls++;
+    if (calls <= failures) {
+      throw new Error(`failure ${calls}`);
+    }
+    return 'done';
+  };
+  return { action, calls: () => calls };
+}
+
+/**
+ * The RetryError a retry must end with
+ */
+async function retryErrorOf(retrying: Promise<unknown>): Promise<RetryError> {
+  const error = await retrying.then(() => undefined, (e: unknown) => e);
+  expect(error).toBeInstanceOf(RetryError);
+  return error as RetryError;
+}
+
+test.describe('Backoff', () => {
+
+  test('delays grow by the factor up to the cap', () => {
+    const delays = [1, 2, 3, 4, 5].map(failures => backoffDelay(failures, { initialDelayMs: 100, maxDelayMs: 1000, jitter: 'none' }));
+
+    expect(delays).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  test('jitter stays within its range and replays with the seed', () => {
+    const random = new SeededRandom(3);
+    for (let i = 0; i < 200; i++) {
+      const equal = backoffDelay(3, { jitter: 'equal' }, random);
+      const full = backoffDelay(3, { jitter: 'full' }, random);
+      expect(equal >= 400 && equal <= 800, `equal jitter gave ${equal}`).toBe(true);
+      expect(full >= 0 && full <= 800, `full jitter gave ${full}`).toBe(true);
+    }
+
+    expect(backoffDelay(2, {}, new SeededRandom(9))).toBe(backoffDelay(2, {}, new SeededRandom(9)));
+  });
+});
+
+test.describe('retry()', () => {
+
+  test('returns the first success', async () => {
+    const { action, calls } = flaky(2);
+
+    expect(await retry(action, fast)).toBe('done');
+    expect(calls()).toBe(3);
+  });
+
+  test('keeps every attempt\'s error when it runs out of attempts', async () => {
+    const { action, calls } = flaky(10);
+
+    const error = await retryErrorOf(retry(action, { ...fast, title: 'Load products', attempts: 3 }));
+
+    expect(calls()).toBe(3);
+    expect(error.reason).toBe('attempts');
+    expect(error.errors.map(e => (e as Error).message)).toEqual(['failure 1', 'failure 2', 'failure 3']);
+    expect((error.lastError as Error).message).toBe('failure 3');
+    expect(error.history.map(a => a.attempt)).toEqual([1, 2, 3]);
+    expect(error.message).toContain('Load products failed after 3 attempt(s): no attempts left');
+    expect(error.message).toContain('attempt 2 (');
+  });
+
+  test('retryIf stops at an error that is not worth retrying', async () => {
+    const { action, calls } = flaky(10);
+
+    const error = await retryErrorOf(retry(action, { ...fast, attempts: 5, retryIf: (_error, attempt) => attempt < 2 }));
+
+    expect(calls()).toBe(2);
+    expect(error.reason).toBe('not-retryable');
+  });
+
+  test('gives up when the next attempt would miss the deadline', async () => {
+    const { action, calls } = flaky(10);
+
+    const error = await retryErrorOf(retry(action, { attempts: 10, initialDelayMs: 200, jitter: 'none', deadlineMs: 300 }));
+
+    // 1st attempt, 200ms pause, 2nd attempt - a 400ms pause would pass the deadline
+    expect(calls()).toBe(2);
+    expect(error.reason).toBe('deadline');
+  });
+
+  test('an aborted signal stops the retries and reaches the action', async () => {
+    const controller = new AbortController();
+    const seen: AbortSignal[] = [];
+
+    const retrying = retry(async ({ signal }) => {
+      seen.push(signal);
+      controller.abort();
+      throw new Error('busy');
+    }, { ...fast, attempts: 5, signal: controller.signal });
+
+    const error = await retryErrorOf(retrying);
+    expect(error.reason).toBe('aborted');
+    expect(error.history).toHaveLength(1);
+    expect(seen[0].aborted).toBe(true);
+  });
+
+  test('a signal aborted beforehand means no attempt at all', async () => {
+    const { action, calls } = flaky(0);
+
+    const error = await retryErrorOf(retry(action, { signal: AbortSignal.abort() }));
+
+    expect(calls()).toBe(0);
+    expect(error.lastError).toBeUndefined();
+  });
+
+  test('each attempt is a sub-step of the retry step', async ({ stepLog }) => {
+    await retry(flaky(1).action, { ...fast, title: 'Add to cart' });
+
+    const steps = stepLog.entries.filter((e): e is Extract<StepLogEntry, { type: 'step' }> => e.type === 'step');
+    expect(steps.map(s => [s.title, s.parents, s.status])).toEqual([
+      ['Add to cart', [], 'passed'],
+      ['Attempt 1 of 3', ['Add to cart'], 'failed'],
+      ['Attempt 2 of 3', ['Add to cart'], 'passed']
+    ]);
+  });
+
+  test('retryAction() keeps its fixed-delay signature', async () => {
+    const { action } = flaky(10);
+
+    const error = await retryErrorOf(retryAction(action, 2, 1));
+
+    expect(error.errors).toHaveLength(2);
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. ERROR SUBCLASSES:
+ *    expect(error).toBeInstanceOf(RetryError), then error.reason / error.history
+ *
+ * 2. CLOSURES:
+ *    flaky(2) returns an action and a calls() counter that share one variable
+ *
+ * 3. SPREADING OPTIONS:
+ *    { ...fast, attempts: 5 } - shared defaults plus this test's settings
+ */
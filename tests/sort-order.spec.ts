@@ -0,0 +1,91 @@
+/**
+ * SORT ORDER TESTS
+ *
+ * checkSortOrder() and expectedSortOrder() are pure functions, so these tests
+ * run without a browser, against products.json and small hand-made lists.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Narrowing a discriminated union before reading its fields
+ * - Data-driven tests over SORT_OPTIONS
+ */
+
+import { test, expect } from '@playwright/test';
+import { SORT_OPTIONS, checkSortOrder, expectedSortOrder, isSortOption } from '../utils/sort-order';
+import { Money } from '../utils/money';
+import { getProduct, products } from '../utils/test-data';
+
+const boltTShirt = getProduct('sauce-labs-bolt-t-shirt');
+const redTShirt = getProduct('test-allthethings-t-shirt-red');
+
+test.describe('Sort order', () => {
+
+  for (const option of SORT_OPTIONS) {
+    test(`expectedSortOrder() output passes checkSortOrder() for "${option}"`, () => {
+      const sorted = expectedSortOrder(products, option);
+
+      expect(sorted).toHaveLength(products.length);
+      expect(checkSortOrder(sorted, option).sorted).toBe(true);
+    });
+  }
+
+  test('equal prices are ordered by name in both price directions', () => {
+    // The two T-shirts both cost $15.99
+    expect(boltTShirt.price).toEqual(redTShirt.price);
+
+    for (const option of ['lohi', 'hilo'] as const) {
+      const names = expectedSortOrder(products, option).map(p => p.name);
+      expect(names.indexOf(boltTShirt.name)).toBe(names.indexOf(redTShirt.name) - 1);
+    }
+
+    const swapped = [redTShirt, boltTShirt];
+    expect(checkSortOrder(swapped, 'lohi').sorted).toBe(false);
+    expect(checkSortOrder(swapped, 'hilo').sorted).toBe(false);
+  });
+
+  test('names are compared by locale, not by character code', () => {
+    const items = [
+      { name: 'apple', price: Money.parse('$1.00') },
+      { name: 'Banana', price: Money.parse('$1.00') },
+      { name: 'Éclair', price: Money.parse('$1.00') },
+      { name: 'zucchini', price: Money.parse('$1.00') }
+    ];
+
+    // With < and >, 'Banana' < 'apple' and 'zucchini' < 'Éclair'
+    expect(checkSortOrder(items, 'az').sorted).toBe(true);
+    expect(checkSortOrder([...items].reverse(), 'za').sorted).toBe(true);
+  });
+
+  test('reports the first pair that is out of order', () => {
+    const items = [
+      { name: 'A', price: Money.parse('$1.00') },
+      { name: 'B', price: Money.parse('$3.00') },
+      { name: 'C', price: Money.parse('$2.00') },
+      { name: 'D', price: Money.parse('$0.50') }
+    ];
+
+    const check = checkSortOrder(items, 'lohi');
+
+    // TYPESCRIPT: Narrow the union first - index/first/second only exist when sorted is false
+    expect(check.sorted).toBe(false);
+    if (!check.sorted) {
+      expect(check.index).toBe(1);
+      expect([check.first.name, check.second.name]).toEqual(['B', 'C']);
+      expect(check.message).toBe('Not sorted by Price (low to high): item 2 "B" ($3.00) comes before item 3 "C" ($2.00)');
+    }
+  });
+
+  test('recognises the four options', () => {
+    expect(SORT_OPTIONS.every(isSortOption)).toBe(true);
+    expect(isSortOption('price')).toBe(false);
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. 'as const' ARRAYS:
+ *    ['lohi', 'hilo'] as const has type readonly ['lohi', 'hilo'], so each item is a SortOption
+ *
+ * 2. NARROWING:
+ *    if (!check.sorted) { check.first } - the compiler knows which union member we have
+ */
@@ -0,0 +1,128 @@
+/**
+ * STEP LOGGING TESTS
+ *
+ * step() and the step log need a running test, not a browser, so these tests
+ * call step() directly and read the test's own stepLog fixture. The page
+ * objects' steps ("Log in", "Add to cart", ...) are seen in the report of any
+ * browser test.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Narrowing a discriminated union with filter() and a type guard
+ * - Asserting on errors from async functions (rejects.toThrow)
+ */
+
+import { test, expect } from '../fixtures/auth.fixture';
+import { REDACTED, registerSecret } from '../utils/redaction';
+import { StepLog, StepLogEntry, formatStepTitle, logMessage, redactParams, step } from '../utils/steps';
+import { logStep } from '../utils/test-helpers';
+
+// TYPESCRIPT: A type guard - after filter(isStep), the entries are the 'step' variant
+type StepEntry = Extract<StepLogEntry, { type: 'step' }>;
+const isStep = (entry: StepLogEntry): entry is StepEntry => entry.type === 'step';
+
+test.describe('Step titles and parameters', () => {
+
+  test('secret parameters are masked by name', () => {
+    expect(redactParams({ username: 'standard_user', password: 'anything', apiKey: 'abc123', count: 2 }))
+      .toEqual({ username: 'standard_user', password: REDACTED, apiKey: REDACTED, count: 2 });
+  });
+
+  test('registered secrets are masked wherever they appear', () => {
+    registerSecret('sesame-1234');
+
+    expect(redactParams({ note: 'typed sesame-1234 again' })).toEqual({ note: `typed ${REDACTED} again` });
+    expect(formatStepTitle('Fill sesame-1234', {})).toBe(`Fill ${REDACTED}`);
+  });
+
+  test('parameters are listed after the title', () => {
+    expect(formatStepTitle('Add to cart', { product: 'Sauce Labs Onesie' })).toBe('Add to cart (product: Sauce Labs Onesie)');
+    expect(formatStepTitle('Complete checkout', {})).toBe('Complete checkout');
+  });
+
+  test('undefined parameters are left out', () => {
+    expect(redactParams({ product: undefined, quantity: 1 })).toEqual({ quantity: 1 });
+  });
+
+  test('the log is one JSON object per line', () => {
+    const log = new StepLog();
+    log.entries.push({ type: 'log', message: 'one', parents: [], startMs: 0 });
+    log.entries.push({ type: 'log', message: 'two', parents: ['outer'], startMs: 5 });
+
+    const lines = log.toJsonl().trim().split('\n');
+
+    expect(lines.map(line => JSON.parse(line).message)).toEqual(['one', 'two']);
+  });
+});
+
+test.describe('step()', () => {
+
+  test('returns what the body returns', async () => {
+    expect(await step('Add numbers', async () => 1 + 2)).toBe(3);
+  });
+
+  test('nested steps are logged under their parents', async ({ stepLog }) => {
+    await step('Checkout', async () => {
+      await step('Enter details', async () => {
+        logMessage('typed the name');
+      });
+      await step('Finish', async () => undefined);
+    }, { persona: 'standard_user' });
+
+    const steps = stepLog.entries.filter(isStep);
+    expect(steps.map(s => [s.title, s.parents])).toEqual([
+      ['Checkout', []],
+      ['Enter details', ['Checkout']],
+      ['Finish', ['Checkout']]
+    ]);
+    expect(steps[0].params).toEqual({ persona: 'standard_user' });
+    expect(steps.every(s => s.status === 'passed' && s.durationMs >= 0)).toBe(true);
+
+    const note = stepLog.entries.find(entry => entry.type === 'log');
+    expect(note).toMatchObject({ message: 'typed the name', parents: ['Checkout', 'Enter details'] });
+  });
+
+  test('logStep() keeps its timestamp prefix', async ({ stepLog }) => {
+    logStep('cart emptied');
+
+    const note = stepLog.entries.find(entry => entry.type === 'log');
+    expect(note?.message).toMatch(/^\[\d{4}-\d\d-\d\dT[\d:.]+Z\] cart emptied$/);
+  });
+
+  test('parallel steps keep their own parents', async ({ stepLog }) => {
+    await Promise.all([
+      step('Left', () => step('Left child', async () => undefined)),
+      step('Right', () => step('Right child', async () => undefined))
+    ]);
+
+    const parentsOf = (title: string) => stepLog.entries.filter(isStep).find(s => s.title === title)?.parents;
+    expect(parentsOf('Left child')).toEqual(['Left']);
+    expect(parentsOf('Right child')).toEqual(['Right']);
+  });
+
+  test('a failing step is logged with its error and rethrows', async ({ stepLog }) => {
+    await expect(step('Break', async () => {
+      throw new Error('out of stock');
+    })).rejects.toThrow('out of stock');
+
+    expect(stepLog.entries.filter(isStep)[0]).toMatchObject({ title: 'Break', status: 'failed', error: 'out of stock' });
+  });
+
+  test('passwords never reach the log', async ({ stepLog }) => {
+    await step('Log in', async () => undefined, { username: 'standard_user', password: 'not-logged' });
+
+    expect(stepLog.toJsonl()).not.toContain('not-logged');
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. EXTRACT ON A UNION:
+ *    Extract<StepLogEntry, { type: 'step' }> - just the step variant
+ *
+ * 2. TYPE GUARDS IN FILTER:
+ *    entries.filter(isStep) is StepEntry[], so s.durationMs is allowed
+ *
+ * 3. REJECTS:
+ *    await expect(promise).rejects.toThrow('...')
+ */
@@ -0,0 +1,120 @@
+/**
+ * TAX RULE TESTS
+ *
+ * The tax calculators and checkOverviewTotals() are pure functions, so these
+ * tests feed them hand-made overview amounts instead of opening a browser.
+ * The browser check is in end-to-end.spec.ts ('verify cart total calculation').
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Plugging a custom object into an interface parameter
+ * - Data-driven tests with tuples
+ */
+
+import { test, expect } from '@playwright/test';
+import { Money } from '../utils/money';
+import { profiles } from '../environments';
+import { OverviewAmounts, TaxCalculator, checkOverviewTotals, percentageTax, roundCents, taxCalculatorFor } from '../utils/tax';
+import { getProduct } from '../utils/test-data';
+
+const backpack = getProduct('sauce-labs-backpack');
+const bikeLight = getProduct('sauce-labs-bike-light');
+
+// What SauceDemo shows for the backpack and bike light: $29.99 + $9.99, 8% tax
+const correct: OverviewAmounts = {
+  lines: [{ price: backpack.price, quantity: 1 }, { price: bikeLight.price, quantity: 1 }],
+  subtotal: Money.parse('$39.98'),
+  tax: Money.parse('$3.20'),
+  total: Money.parse('$43.18')
+};
+
+test.describe('Tax calculators', () => {
+
+  // TYPESCRIPT: [exact cents, mode, expected] tuples
+  const cases: [number, Parameters<typeof roundCents>[1], number][] = [
+    [239.92, 'half-up', 240],
+    [12.5, 'half-up', 13],
+    [12.5, 'half-even', 12],
+    [13.5, 'half-even', 14],
+    [12.4, 'ceil', 13],
+    [12.6, 'floor', 12],
+    [2999 * 0.08, 'floor', 239]
+  ];
+  for (const [exact, mode, expected] of cases) {
+    test(`rounds ${exact.toFixed(2)} cents ${mode} to ${expected}`, () => {
+      expect(roundCents(exact, mode)).toBe(expected);
+    });
+  }
+
+  test('SauceDemo charges 8%, rounded half-up', () => {
+    const calculator = taxCalculatorFor(profiles.local);
+
+    expect(calculator.description).toBe('8% tax, rounded half-up');
+    expect(calculator.taxOn(backpack.price)).toEqual(Money.parse('$2.40'));
+    // $15.99 * 8% = 127.92 cents -> $1.28
+    expect(calculator.taxOn(Money.parse('$15.99'))).toEqual(Money.parse('$1.28'));
+  });
+
+  test('a profile can set its own rule', () => {
+    const calculator = taxCalculatorFor({ ...profiles.staging, tax: { rate: 0.0725, rounding: 'half-even' } });
+
+    expect(calculator.description).toBe('7.25% tax, rounded half-even');
+    // $10.00 * 7.25% = 72.5 cents -> 72 (even)
+    expect(calculator.taxOn(Money.parse('$10.00'))).toEqual(Money.parse('$0.72'));
+  });
+
+  test('rejects a negative rate', () => {
+    expect(() => percentageTax({ rate: -0.08, rounding: 'half-up' })).toThrow(/non-negative/);
+  });
+});
+
+test.describe('checkOverviewTotals', () => {
+  const sauceDemoTax = percentageTax({ rate: 0.08, rounding: 'half-up' });
+
+  test('accepts a correct overview', () => {
+    const check = checkOverviewTotals(correct, sauceDemoTax);
+
+    expect(check.ok).toBe(true);
+    expect(check.mismatches).toEqual([]);
+    expect(check.message).toBe('Checkout overview is correct (8% tax, rounded half-up)');
+  });
+
+  test('reports a wrong tax on its own, with the rounding mode', () => {
+    const check = checkOverviewTotals({ ...correct, tax: Money.parse('$3.19'), total: Money.parse('$43.17') }, sauceDemoTax);
+
+    expect(check.ok).toBe(false);
+    expect(check.rounding).toBe('half-up');
+    expect(check.mismatches.map(m => m.field)).toEqual(['tax', 'total']);
+    expect(check.mismatches[0].message).toBe(
+      'tax: expected $3.20 (8% tax, rounded half-up, on $39.98), but the page shows $3.19'
+    );
+  });
+
+  test('recomputes the subtotal from the lines, including quantities', () => {
+    const lines = [{ price: backpack.price, quantity: 2 }];
+    const check = checkOverviewTotals({ ...correct, lines }, sauceDemoTax);
+
+    expect(check.expected.subtotal).toEqual(Money.parse('$59.98'));
+    expect(check.mismatches.map(m => m.field)).toEqual(['subtotal', 'tax', 'total']);
+  });
+
+  test('accepts any TaxCalculator', () => {
+    // TYPESCRIPT: An object literal is enough - no class needed to implement an interface
+    const noTax: TaxCalculator = { description: 'no tax', rounding: 'floor', taxOn: () => Money.ZERO };
+    const check = checkOverviewTotals({ ...correct, tax: Money.ZERO, total: Money.parse('$39.98') }, noTax);
+
+    expect(check.ok, check.message).toBe(true);
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. STRUCTURAL TYPING:
+ *    { description, rounding, taxOn } satisfies TaxCalculator without 'implements'
+ *
+ * 2. PARAMETERS<>:
+ *    Parameters<typeof roundCents>[1] is the type of roundCents' second parameter (RoundingMode)
+ *
+ * 3. SPREAD TO MODIFY A COPY:
+ *    { ...correct, tax: ... } - the same overview with one amount changed
+ */
@@ -0,0 +1,141 @@
+/**
+ * TEST DATA REGISTRY TESTS
+ *
+ * Checks the lookups and schema validation in utils/test-data.ts.
+ * No browser is needed - these are plain function calls.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Testing functions that throw (expect(() => ...).toThrow())
+ * - Cloning and mutating data to build invalid inputs
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  getPersona,
+  getProduct,
+  getProductByItemId,
+  getProductByName,
+  personaWith,
+  personasWith,
+  products,
+  validateProductsData,
+  validateUsersData,
+  validPersonas
+} from '../utils/test-data';
+import usersJson from '../test-data/users.json';
+import productsJson from '../test-data/products.json';
+
+test.describe('Persona lookups', () => {
+
+  test('finds a persona by username', () => {
+    const persona = getPersona('problem_user');
+
+    expect(persona.username).toBe('problem_user');
+    expect(persona.tags).toContain('broken-images');
+  });
+
+  test('names the known usernames when a persona is missing', () => {
+    expect(() => getPersona('nobody')).toThrow(/No persona "nobody".*standard_user/);
+  });
+
+  test('finds personas by capability tag', () => {
+    const buyers = personasWith('can-checkout').map(p => p.username);
+
+    expect(buyers).toContain('standard_user');
+    expect(buyers).not.toContain('problem_user');
+    expect(personaWith('locked').username).toBe('locked_out_user');
+  });
+
+  test('valid personas exclude locked and invalid users', () => {
+    const tags = validPersonas().flatMap(p => p.tags);
+
+    expect(tags).not.toContain('locked');
+    expect(tags).not.toContain('invalid');
+  });
+});
+
+test.describe('Product lookups', () => {
+
+  test('finds a product by id, item id and name', () => {
+    const backpack = getProduct('sauce-labs-backpack');
+
+    expect(backpack.name).toBe('Sauce Labs Backpack');
+    expect(getProductByName('Sauce Labs Backpack')).toBe(backpack);
+    expect(getProductByItemId(4)).toBe(backpack);
+  });
+
+  test('names the known ids when a product is missing', () => {
+    expect(() => getProduct('sauce-labs-spaceship')).toThrow(/No product "sauce-labs-spaceship".*sauce-labs-onesie/);
+  });
+
+  test('lists every product from products.json', () => {
+    expect(products).toHaveLength(productsJson.products.length);
+  });
+});
+
+test.describe('Schema validation', () => {
+
+  // TYPESCRIPT: structuredClone() gives us a deep copy we can break without touching the real data
+  test('reports every problem in users.json at once', () => {
+    const broken = structuredClone(usersJson);
+    broken.validUsers[1].tags = ['can-fly'];
+    // TYPESCRIPT: Record<string, unknown> lets us add a field the type doesn't have and delete a required one
+    (broken.validUsers[0] as Record<string, unknown>).password = '';
+    const raw: Record<string, unknown> = { ...broken };
+    delete raw.lockedOutUser;
+
+    expect(() => validateUsersData(raw)).toThrow(
+      /validUsers\[0\]\.password[\s\S]*validUsers\[1\]\.tags\[0\]: unknown tag "can-fly"[\s\S]*lockedOutUser/
+    );
+  });
+
+  test('rejects duplicate usernames', () => {
+    const broken = structuredClone(usersJson);
+    broken.validUsers.push({ ...broken.validUsers[0] });
+
+    expect(() => validateUsersData(broken)).toThrow(/duplicate username "standard_user"/);
+  });
+
+  test('rejects malformed products', () => {
+    const broken = structuredClone(productsJson);
+    broken.products[0].price = 29.999;
+    broken.products[1].id = 'Bike Light';
+
+    expect(() => validateProductsData(broken)).toThrow(/products\[0\]\.price[\s\S]*products\[1\]\.id/);
+  });
+
+  test('accepts two-decimal prices that aren\'t exact in binary', () => {
+    // 19.99 * 100 is 1998.9999999999998 in floating point
+    for (const price of [19.99, 4.35, 1.15]) {
+      const product = structuredClone(productsJson);
+      product.products[0].price = price;
+
+      expect(() => validateProductsData(product), `price ${price}`).not.toThrow();
+    }
+  });
+
+  test('rejects duplicate item ids', () => {
+    const broken = structuredClone(productsJson);
+    broken.products[1].itemId = broken.products[0].itemId;
+
+    expect(() => validateProductsData(broken)).toThrow(/duplicate product itemId 4/);
+  });
+
+  test('accepts the real data files', () => {
+    expect(() => validateUsersData(usersJson)).not.toThrow();
+    expect(() => validateProductsData(productsJson)).not.toThrow();
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. TESTING ERRORS:
+ *    expect(() => fn()).toThrow(/regex/) - the function must be wrapped so expect can call it
+ *
+ * 2. DEEP COPIES:
+ *    structuredClone(value) copies nested objects and arrays
+ *
+ * 3. UNTYPED COPIES:
+ *    Record<string, unknown> lets a test remove a required field; the validators take unknown
+ */
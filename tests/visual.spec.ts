@@ -17,7 +17,10 @@
 import { test, expect } from '@playwright/test';
 import { LoginPage } from '../pages/LoginPage';
 import { InventoryPage } from '../pages/InventoryPage';
-import users from '../test-data/users.json';
+import { getPersona } from '../utils/test-data';
+
+// TYPESCRIPT: Looked up once; getPersona() throws a clear error if users.json changes
+const standardUser = getPersona('standard_user');
 
 test.describe('Visual Regression Tests', () => {
 
@@ -40,7 +43,7 @@ test.describe('Visual Regression Tests', () => {
     
     // Login first
     await loginPage.goto();
-    await loginPage.login(users.validUsers[0].username, users.validUsers[0].password);
+    await loginPage.login(standardUser.username, standardUser.password);
     
     // Wait for page to load
     await expect(inventoryPage.inventoryContainer).toBeVisible();
@@ -65,12 +68,12 @@ test.describe('Visual Regression Tests', () => {
     const inventoryPage = new InventoryPage(page);
     
     await loginPage.goto();
-    await loginPage.login(users.validUsers[0].username, users.validUsers[0].password);
+    await loginPage.login(standardUser.username, standardUser.password);
     
     // TYPESCRIPT: Mask dynamic content that changes between runs
     // Useful for timestamps, random IDs, etc.
     await expect(page).toHaveScreenshot('inventory-masked.png', {
-      mask: [inventoryPage.shoppingCartBadge], // Mask cart badge (changes)
+      mask: [inventoryPage.cartBadge.badge], // Mask cart badge (changes)
       fullPage: true
     });
   });
@@ -157,7 +160,7 @@ test.describe('Component Visual Tests', () => {
     const inventoryPage = new InventoryPage(page);
     
     await loginPage.goto();
-    await loginPage.login(users.validUsers[0].username, users.validUsers[0].password);
+    await loginPage.login(standardUser.username, standardUser.password);
     
     // TYPESCRIPT: Screenshot first product card
     const firstProduct = inventoryPage.getProductItems().first();
@@ -182,13 +185,13 @@ test.describe('Component Visual Tests', () => {
     const inventoryPage = new InventoryPage(page);
     
     await loginPage.goto();
-    await loginPage.login(users.validUsers[0].username, users.validUsers[0].password);
+    await loginPage.login(standardUser.username, standardUser.password);
     
     // Add item to cart
     await inventoryPage.addProductToCart('Sauce Labs Backpack');
     
     // Screenshot cart badge with count
-    await expect(inventoryPage.shoppingCartBadge).toHaveScreenshot('cart-badge-with-item.png');
+    await expect(inventoryPage.cartBadge.badge).toHaveScreenshot('cart-badge-with-item.png');
   });
 });
 
@@ -199,7 +202,7 @@ test.describe('State-Based Visual Tests', () => {
     const inventoryPage = new InventoryPage(page);
     
     await loginPage.goto();
-    await loginPage.login(users.validUsers[0].username, users.validUsers[0].password);
+    await loginPage.login(standardUser.username, standardUser.password);
     
     const addButton = inventoryPage.getAddToCartButton('Sauce Labs Backpack');
     
@@ -219,7 +222,7 @@ test.describe('State-Based Visual Tests', () => {
     const inventoryPage = new InventoryPage(page);
     
     await loginPage.goto();
-    await loginPage.login(users.validUsers[0].username, users.validUsers[0].password);
+    await loginPage.login(standardUser.username, standardUser.password);
     
     // Screenshot default sort
     await expect(page).toHaveScreenshot('products-default-sort.png', {
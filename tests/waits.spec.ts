@@ -0,0 +1,139 @@
+/**
+ * WAIT-CONDITION TESTS
+ *
+ * The helpers in utils/waits.ts only talk to a Locator or a Page through a
+ * few methods, so these tests hand them small stand-ins instead of a browser.
+ * The side menu's waitForAnimations() is covered by components.spec.ts.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Stand-in objects cast with 'as unknown as'
+ * - EventEmitter as a fake source of page events
+ */
+
+import { test, expect } from '../fixtures/auth.fixture';
+import { Locator, Page, Request } from '@playwright/test';
+import { EventEmitter } from 'events';
+import { NetworkWatcher, waitForLocator, waitForNetworkIdle, waitForStableDom, waitUntil } from '../utils/waits';
+
+// Timeouts for the waits that must fail
+const quickly = { timeout: 500 };
+
+/**
+ * A locator whose evaluate() and boundingBox() return the next value of a list,
+ * then keep returning the last one
+ */
+function changingLocator<T>(values: T[]): Locator {
+  let index = 0;
+  const next = async () => values[Math.min(index++, values.length - 1)];
+  return { evaluate: next, boundingBox: next, toString: () => 'changingLocator' } as unknown as Locator;
+}
+
+function fakeRequest(url: string): Request {
+  return { url: () => url, method: () => 'GET' } as unknown as Request;
+}
+
+test.describe('waitUntil()', () => {
+
+  test('resolves once the condition holds', async () => {
+    let checks = 0;
+
+    await waitUntil(() => ++checks >= 3);
+
+    expect(checks).toBe(3);
+  });
+
+  test('names the condition when it never holds', async () => {
+    await expect(waitUntil(() => false, { ...quickly, message: 'the cart fills' })).rejects.toThrow('the cart fills');
+  });
+});
+
+test.describe('Stable content', () => {
+
+  test('waitForStableDom() waits until the content stops changing', async () => {
+    const list = changingLocator(['<ul></ul>', '<ul><li>1</li></ul>', '<ul><li>1</li><li>2</li></ul>']);
+
+    await waitForStableDom(list, { quietMs: 100 });
+  });
+
+  test('waitForStableDom() fails while the content keeps changing', async () => {
+    let renders = 0;
+    const ticker = { evaluate: async () => `<p>${renders++}</p>`, toString: () => 'ticker' } as unknown as Locator;
+
+    await expect(waitForStableDom(ticker, { ...quickly, quietMs: 200 })).rejects.toThrow('ticker has not changed for 200ms');
+  });
+
+  test('a locator is stable once its box stops moving', async () => {
+    const sliding = changingLocator([
+      { x: 0, y: 0, width: 10, height: 10 },
+      { x: 50, y: 0, width: 10, height: 10 },
+      { x: 100, y: 0, width: 10, height: 10 }
+    ]);
+
+    await waitForLocator(sliding, 'stable');
+  });
+
+  test('a hidden locator (no box) is never stable', async () => {
+    await expect(waitForLocator(changingLocator([null]), 'stable', quickly)).rejects.toThrow('changingLocator is stable');
+  });
+});
+
+test.describe('Network idle', () => {
+
+  test('only matching requests are tracked', async () => {
+    const page = new EventEmitter();
+    const watcher = new NetworkWatcher(page as unknown as Page, /\/api\//);
+    const api = fakeRequest('https://shop.test/api/cart');
+
+    page.emit('request', api);
+    page.emit('request', fakeRequest('https://shop.test/static/logo.svg'));
+
+    expect(watcher.pending).toEqual(['GET https://shop.test/api/cart']);
+    expect(watcher.idleForMs()).toBe(0);
+
+    page.emit('requestfinished', api);
+    expect(watcher.pending).toEqual([]);
+
+    watcher.dispose();
+    expect(page.listenerCount('request')).toBe(0);
+  });
+
+  test('waits for the requests the action starts', async () => {
+    const page = new EventEmitter();
+    const request = fakeRequest('https://shop.test/inventory.html');
+    let finished = false;
+
+    await waitForNetworkIdle(page as unknown as Page, '/inventory', async () => {
+      page.emit('request', request);
+      setImmediate(() => {
+        finished = true;
+        page.emit('requestfailed', request);
+      });
+    }, { quietMs: 100 });
+
+    expect(finished).toBe(true);
+    expect(page.listenerCount('requestfinished')).toBe(0);
+  });
+
+  test('lists the requests still in flight when it times out', async () => {
+    const page = new EventEmitter();
+
+    const waiting = waitForNetworkIdle(page as unknown as Page, '/api/', async () => {
+      page.emit('request', fakeRequest('https://shop.test/api/slow'));
+    }, quickly);
+
+    await expect(waiting).rejects.toThrow('still in flight:\n  GET https://shop.test/api/slow');
+  });
+});
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. STAND-INS:
+ *    { evaluate, boundingBox } as unknown as Locator - only what the helper calls
+ *
+ * 2. GENERIC HELPERS:
+ *    changingLocator<T>(values: T[]) - HTML strings or bounding boxes
+ *
+ * 3. EVENT EMITTERS:
+ *    page.emit('request', request) plays the part of the browser
+ */
@@ -0,0 +1,301 @@
+/**
+ * PAGE-OBJECT ACTION TRACING
+ *
+ * Put @traced on a page object class and every public async method on it is
+ * recorded - no logging code in the methods themselves:
+ *
+ *   @traced
+ *   export class InventoryPage extends BasePage { ... }
+ *
+ * Each call becomes an ActionRecord in the running test's action timeline:
+ * "InventoryPage.addProductToCart", its arguments, when it started, how long
+ * it took, the page URL before and after, and the error if it threw. Calls
+ * made inside another traced method are recorded too, one level deeper.
+ *
+ * - @untraced leaves a method out (helpers that are private in TypeScript are
+ *   still plain methods at runtime, so they need it)
+ * - @secretArgs(1) masks arguments by position, e.g. the password of login()
+ * - Arguments are also masked wherever they contain a registered secret
+ *
+ * The actionTimeline fixture attaches each test's timeline as actions.json,
+ * and the action summary reporter (reporters/action-summary-reporter.ts)
+ * turns the timelines of the whole run into "most-used page actions" and
+ * "slowest page actions".
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Standard (TC39) class and method decorators
+ * - Replacing methods on a prototype with property descriptors
+ * - WeakSet / WeakMap to tag functions without changing them
+ */
+
+import type { Page } from '@playwright/test';
+import { AsyncLocalStorage } from 'async_hooks';
+import { REDACTED, redact } from './redaction';
+import { isSecretName } from './steps';
+
+/**
+ * One call of a page-object method
+ */
+export interface ActionRecord {
+  // Class and method, e.g. 'InventoryPage.addProductToCart'
+  action: string;
+  // The arguments as short, redacted text
+  args: string[];
+  // 0 = called by the test, 1 = called by another traced method, ...
+  depth: number;
+  // Milliseconds since the test started
+  startMs: number;
+  durationMs: number;
+  urlBefore?: string;
+  urlAfter?: string;
+  error?: string;
+}
+
+/**
+ * How one action did across many calls
+ */
+export interface ActionStats {
+  action: string;
+  calls: number;
+  failures: number;
+  totalMs: number;
+  averageMs: number;
+  maxMs: number;
+}
+
+export interface ActionSummary {
+  // Most calls first
+  mostUsed: ActionStats[];
+  // Highest average duration first
+  slowest: ActionStats[];
+}
+
+// The name of the report attachment holding a test's timeline
+export const ACTION_TIMELINE_ATTACHMENT = 'actions.json';
+
+// Longest argument text kept in a record
+const MAX_ARG_LENGTH = 120;
+
+// TYPESCRIPT: never[] parameters accept any method signature
+type AsyncMethod = (this: object, ...args: never[]) => Promise<unknown>;
+
+/**
+ * The page-object calls of one test, in the order they started
+ */
+export class ActionTimeline {
+  readonly records: ActionRecord[] = [];
+  private readonly startedAt = Date.now();
+
+  /**
+   * Milliseconds since the timeline was created (the start of the test)
+   */
+  elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+}
+
+// The running test's timeline, set by the actionTimeline fixture
+let current: ActionTimeline | undefined;
+
+/**
+ * Make a timeline the current test's (the actionTimeline fixture calls this; pass undefined after the test)
+ */
+export function setCurrentActionTimeline(timeline: ActionTimeline | undefined): void {
+  current = timeline;
+}
+
+// How deep the current call is nested in traced methods
+const callDepth = new AsyncLocalStorage<number>();
+
+// TYPESCRIPT: Weak collections hold the method functions without keeping them alive
+const untracedMethods = new WeakSet<Function>();
+const tracedMethods = new WeakSet<Function>();
+const secretArgIndexes = new WeakMap<Function, readonly number[]>();
+
+/**
+ * Class decorator: trace every async method the class declares itself
+ * (inherited methods are traced by decorating the base class)
+ *
+ * @example
+ * @traced
+ * export class CartPage extends BasePage { ... }
+ */
+export function traced<C extends abstract new (...args: never[]) => object>(target: C, _context: ClassDecoratorContext<C>): void {
+  const prototype = target.prototype as object;
+
+  for (const name of Object.getOwnPropertyNames(prototype)) {
+    const descriptor = Object.getOwnPropertyDescriptor(prototype, name);
+    // Getters (the locators) have no value; the constructor isn't async
+    const method: unknown = descriptor?.value;
+    if (typeof method !== 'function' || !isAsyncFunction(method) || untracedMethods.has(method) || tracedMethods.has(method)) {
+      continue;
+    }
+    Object.defineProperty(prototype, name, { ...descriptor, value: traceMethod(name, method as AsyncMethod) });
+  }
+}
+
+/**
+ * Method decorator: leave this method out of the timeline
+ * @example @untraced private async readAmount(label: Locator, prefix: string): Promise<Money>
+ */
+export function untraced(method: Function, _context: ClassMethodDecoratorContext): void {
+  untracedMethods.add(method);
+}
+
+/**
+ * Method decorator: mask the arguments at these positions (0 = first)
+ * @example @secretArgs(1) async login(username: string, password: string): Promise<void>
+ */
+export function secretArgs(...indexes: number[]) {
+  return (method: Function, _context: ClassMethodDecoratorContext): void => {
+    secretArgIndexes.set(method, indexes);
+  };
+}
+
+/**
+ * An argument as short text for the timeline, with secrets masked
+ * @example describeArg('Sauce Labs Onesie') // '"Sauce Labs Onesie"'
+ * @example describeArg({ username: 'a', password: 'b' }) // '{"username":"a","password":"*****"}'
+ */
+export function describeArg(value: unknown): string {
+  let text: string;
+  if (value === undefined) {
+    text = 'undefined';
+  } else if (typeof value === 'function') {
+    text = `[function ${value.name || 'anonymous'}]`;
+  } else {
+    try {
+      // Money and other value objects serialise through their own toJSON()
+      text = JSON.stringify(value, (key, inner: unknown) => key !== '' && isSecretName(key) ? REDACTED : inner) ?? String(value);
+    } catch {
+      // Circular objects, e.g. a page object passed along
+      text = `[${(value as object).constructor?.name ?? 'object'}]`;
+    }
+  }
+
+  const safe = redact(text);
+  return safe.length > MAX_ARG_LENGTH ? `${safe.slice(0, MAX_ARG_LENGTH - 3)}...` : safe;
+}
+
+/**
+ * Per-action counts and durations across any number of timelines
+ * @param limit - How many actions each list keeps
+ */
+export function summarizeActions(records: readonly ActionRecord[], limit: number = 10): ActionSummary {
+  // TYPESCRIPT: Map<action, stats> - one entry per distinct action
+  const byAction = new Map<string, ActionStats>();
+  for (const record of records) {
+    const stats = byAction.get(record.action) ?? { action: record.action, calls: 0, failures: 0, totalMs: 0, averageMs: 0, maxMs: 0 };
+    stats.calls++;
+    stats.failures += record.error === undefined ? 0 : 1;
+    stats.totalMs += record.durationMs;
+    stats.maxMs = Math.max(stats.maxMs, record.durationMs);
+    stats.averageMs = Math.round(stats.totalMs / stats.calls);
+    byAction.set(record.action, stats);
+  }
+
+  const all = [...byAction.values()];
+  const byName = (a: ActionStats, b: ActionStats) => a.action.localeCompare(b.action);
+  return {
+    mostUsed: [...all].sort((a, b) => b.calls - a.calls || byName(a, b)).slice(0, limit),
+    slowest: [...all].sort((a, b) => b.averageMs - a.averageMs || byName(a, b)).slice(0, limit)
+  };
+}
+
+/**
+ * The summary as two plain-text tables
+ */
+export function formatActionSummary(summary: ActionSummary): string {
+  const lines = ['Most-used page actions:'];
+  for (const stats of summary.mostUsed) {
+    const failed = stats.failures > 0 ? ` (${stats.failures} failed)` : '';
+    lines.push(`  ${String(stats.calls).padStart(5)}x  ${stats.action}${failed}`);
+  }
+
+  lines.push('', 'Slowest page actions (average / max):');
+  for (const stats of summary.slowest) {
+    lines.push(`  ${`${stats.averageMs}ms`.padStart(8)} / ${`${stats.maxMs}ms`.padEnd(8)} ${stats.action} (${stats.calls} calls)`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The wrapper that records one call and then runs the original method
+ */
+function traceMethod(name: string, method: AsyncMethod): AsyncMethod {
+  const secret = secretArgIndexes.get(method) ?? [];
+
+  const wrapper = async function (this: object, ...args: never[]): Promise<unknown> {
+    const timeline = current;
+    // Outside a test (or before the fixture ran) there is nothing to record into
+    if (!timeline) {
+      return await method.apply(this, args);
+    }
+
+    const depth = callDepth.getStore() ?? 0;
+    const record: ActionRecord = {
+      action: `${this.constructor.name}.${name}`,
+      args: args.map((arg, index) => secret.includes(index) ? REDACTED : describeArg(arg)),
+      depth,
+      startMs: timeline.elapsed(),
+      durationMs: 0,
+      urlBefore: urlOf(this)
+    };
+    timeline.records.push(record);
+
+    try {
+      return await callDepth.run(depth + 1, () => method.apply(this, args));
+    } catch (error) {
+      record.error = redact((error as Error).message ?? String(error));
+      throw error;
+    } finally {
+      record.durationMs = timeline.elapsed() - record.startMs;
+      record.urlAfter = urlOf(this);
+    }
+  };
+
+  tracedMethods.add(wrapper);
+  return wrapper;
+}
+
+function isAsyncFunction(fn: Function): boolean {
+  return fn.constructor.name === 'AsyncFunction';
+}
+
+/**
+ * The URL of the page a page object drives (undefined if it has none, or it's closed)
+ */
+function urlOf(pageObject: object): string | undefined {
+  const page = (pageObject as { page?: Page }).page;
+  try {
+    return page ? redact(page.url()) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. CLASS DECORATORS:
+ *    traced(target, context: ClassDecoratorContext) - runs once, when the class is defined
+ *
+ * 2. METHOD DECORATORS:
+ *    untraced / secretArgs(1) run before the class decorator and tag the method in a WeakSet / WeakMap
+ *
+ * 3. DECORATOR FACTORIES:
+ *    secretArgs(...indexes) returns the decorator, so it can take arguments
+ *
+ * 4. PROPERTY DESCRIPTORS:
+ *    Object.defineProperty(prototype, name, { ...descriptor, value: wrapper }) - same method, now traced
+ *
+ * USAGE:
+ *
+ * import { secretArgs, traced, untraced } from '../utils/action-trace';
+ *
+ * @traced
+ * export class LoginPage {
+ *   @secretArgs(1)
+ *   async login(username: string, password: string): Promise<void> { ... }
+ * }
+ */
@@ -0,0 +1,42 @@
+/**
+ * APP STATE RESET
+ *
+ * Brings a logged-in page back to a clean starting point: inventory page,
+ * empty cart, default sort, menu closed. Used by the sessionPage fixture so
+ * tests that share one logged-in page don't see each other's cart or sort.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Composing page objects inside a helper
+ * - Constants for default values
+ */
+
+import { Page } from '@playwright/test';
+import { InventoryPage } from '../pages/InventoryPage';
+import { SortOption } from './sort-order';
+
+// The sort SauceDemo shows after a fresh page load
+export const DEFAULT_SORT: SortOption = 'az';
+
+/**
+ * Reset cart and sort state on a logged-in page
+ * @param page - A page that is logged in to SauceDemo
+ */
+export async function resetAppState(page: Page): Promise<void> {
+  const inventoryPage = new InventoryPage(page);
+
+  // A fresh load closes the menu and drops half-filled forms; the sort is not persisted
+  await page.goto('/inventory.html');
+  await inventoryPage.inventoryContainer.waitFor({ state: 'visible' });
+
+  if (await inventoryPage.cartBadge.getCount() > 0) {
+    await inventoryPage.sideMenu.resetAppState();
+
+    // SauceDemo leaves "Remove" buttons on screen after a reset until the page is reloaded
+    await page.reload();
+    await inventoryPage.inventoryContainer.waitFor({ state: 'visible' });
+  }
+
+  if (await inventoryPage.getActiveSort() !== DEFAULT_SORT) {
+    await inventoryPage.sortProducts(DEFAULT_SORT);
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * CART STATE
+ *
+ * SauceDemo keeps the cart in the browser, in localStorage under
+ * 'cart-contents', as a JSON array of numeric item ids (e.g. "[4,0]").
+ *
+ * Many tests only add products to reach the state they actually want to
+ * test. CartState writes that state directly instead of clicking
+ * "Add to cart" over and over, and reads it back to check what the app stored.
+ * Products are named by their products.json id ('sauce-labs-backpack');
+ * the numeric ids stay inside this file.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Running a script in every new document with addInitScript()
+ * - Describing browser APIs when the DOM types aren't loaded
+ * - Reading localStorage through Playwright's storageState()
+ */
+
+import { Page } from '@playwright/test';
+import { getProduct, getProductByItemId } from './test-data';
+
+// The localStorage key SauceDemo uses for the cart
+export const CART_STORAGE_KEY = 'cart-contents';
+
+// TYPESCRIPT: tsconfig has no DOM types, so we describe the part of Storage we use
+interface BrowserStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+// Counts seeds per process so every seed gets its own "already applied" marker
+let seedCounter = 0;
+
+export class CartState {
+  readonly page: Page;
+
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  /**
+   * Put products in the cart before the next navigation
+   *
+   * localStorage belongs to an origin, so it can only be written once a
+   * SauceDemo page is loading. The seed is therefore installed as an init
+   * script that runs ONCE, at the start of the next document, before the app
+   * reads its cart. Later navigations leave the cart alone.
+   *
+   * @param productIds - products.json ids, e.g. ['sauce-labs-backpack']; [] empties the cart
+   * @example
+   * await cartState.seed(['sauce-labs-backpack', 'sauce-labs-bike-light']);
+   * await page.goto('/cart.html');
+   */
+  async seed(productIds: string[]): Promise<void> {
+    // Unknown ids fail here, in the test, rather than as a confusing empty cart
+    const itemIds = productIds.map(id => getProduct(id).itemId);
+    const marker = `cart-state-seed-${process.pid}-${++seedCounter}`;
+
+    // TYPESCRIPT: This function is serialised and runs IN THE BROWSER, so it
+    // can only use its argument and browser globals - not variables from this file
+    await this.page.addInitScript(({ key, value, marker }) => {
+      const { localStorage, sessionStorage } = globalThis as unknown as {
+        localStorage: BrowserStorage;
+        sessionStorage: BrowserStorage;
+      };
+
+      // sessionStorage survives navigations in this tab, so it remembers that the seed ran
+      if (sessionStorage.getItem(marker)) {
+        return;
+      }
+      sessionStorage.setItem(marker, 'applied');
+      localStorage.setItem(key, value);
+    }, { key: CART_STORAGE_KEY, value: JSON.stringify(itemIds), marker });
+  }
+
+  /**
+   * The numeric item ids stored for the page's current origin, in the order they were added
+   */
+  async readItemIds(): Promise<number[]> {
+    const origin = new URL(this.page.url()).origin;
+    const state = await this.page.context().storageState();
+    const stored = state.origins
+      .find(o => o.origin === origin)?.localStorage
+      .find(entry => entry.name === CART_STORAGE_KEY)?.value;
+
+    if (!stored) {
+      return [];
+    }
+
+    const itemIds: unknown = JSON.parse(stored);
+    if (!Array.isArray(itemIds) || !itemIds.every(id => Number.isInteger(id))) {
+      throw new Error(`Unexpected ${CART_STORAGE_KEY} in localStorage: ${stored}`);
+    }
+    return itemIds;
+  }
+
+  /**
+   * The products stored in the cart, as products.json ids, in the order they were added
+   * @throws Error if the cart holds an item id that products.json doesn't know
+   */
+  async read(): Promise<string[]> {
+    const itemIds = await this.readItemIds();
+    return itemIds.map(itemId => getProductByItemId(itemId).id);
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. SERIALISED FUNCTIONS:
+ *    addInitScript(fn, arg) sends fn's source to the browser - arg carries the data
+ *
+ * 2. LOCAL TYPE DESCRIPTIONS:
+ *    interface BrowserStorage describes only the browser methods we call
+ *
+ * 3. OPTIONAL CHAINING:
+ *    origins.find(...)?.localStorage.find(...)?.value is undefined if anything is missing
+ *
+ * USAGE:
+ *
+ * test('cart page lists seeded products', async ({ page, cartState }) => {
+ *   await cartState.seed(['sauce-labs-backpack']);
+ *   await page.goto('/cart.html');
+ *   expect(await cartState.read()).toEqual(['sauce-labs-backpack']);
+ * });
+ */
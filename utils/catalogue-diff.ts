@@ -0,0 +1,153 @@
+/**
+ * CATALOGUE DIFF
+ *
+ * Compares the catalogue the inventory page renders (InventoryPage.getCatalogue())
+ * with what test-data/products.json says it should be, and describes every
+ * difference as data:
+ *
+ *   added       shown on the page, but not in products.json
+ *   removed     in products.json, but not shown
+ *   renamed     same product, different name
+ *   repriced    same product, different price
+ *   redescribed same product, different description
+ *
+ * Products are matched by SauceDemo's numeric item id (products.json "itemId",
+ * read from the card's data-test ids), so a renamed product is reported as
+ * renamed - not as one removed and one added product.
+ *
+ * The result is plain data (prices serialise as "$29.99"): tests assert on it, and attachCatalogueDiff() adds
+ * it to the HTML report.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Generic interfaces (FieldChange<T>)
+ * - Map for lookups by key
+ * - Pick<> to reuse part of another type
+ */
+
+import { TestInfo } from '@playwright/test';
+import { ProductCardData } from '../pages/components/ProductCard';
+import { Money } from './money';
+import { Product, products } from './test-data';
+
+// TYPESCRIPT: Pick<> takes just the fields the diff needs from a card,
+// so anything with these fields (not only a ProductCardData) can be compared
+export type RenderedProduct = Pick<ProductCardData, 'itemId' | 'name' | 'description' | 'price'>;
+
+/**
+ * One field of one product that differs
+ * TYPESCRIPT: Generic interface - T is string for names, Money for prices
+ */
+export interface FieldChange<T> {
+  id: string;        // products.json id
+  name: string;      // Name from products.json, to make reports readable
+  expected: T;
+  actual: T;
+}
+
+export interface CatalogueDiff {
+  added: RenderedProduct[];
+  removed: Product[];
+  renamed: FieldChange<string>[];
+  repriced: FieldChange<Money>[];
+  redescribed: FieldChange<string>[];
+}
+
+/**
+ * Compare a rendered catalogue with the expected one
+ * TYPESCRIPT: Pure function - no browser needed, easy to unit test
+ *
+ * @param rendered - What the page shows, e.g. await inventoryPage.getCatalogue()
+ * @param expected - Defaults to every product in products.json
+ */
+export function diffCatalogue(
+  rendered: readonly RenderedProduct[],
+  expected: readonly Product[] = products
+): CatalogueDiff {
+  const diff: CatalogueDiff = { added: [], removed: [], renamed: [], repriced: [], redescribed: [] };
+
+  // TYPESCRIPT: Map<number, RenderedProduct> - look rendered items up by item id
+  const renderedById = new Map(rendered.map(item => [item.itemId, item]));
+  const expectedIds = new Set(expected.map(product => product.itemId));
+
+  for (const product of expected) {
+    const item = renderedById.get(product.itemId);
+    if (!item) {
+      diff.removed.push(product);
+      continue;
+    }
+
+    const change = { id: product.id, name: product.name };
+    if (item.name !== product.name) {
+      diff.renamed.push({ ...change, expected: product.name, actual: item.name });
+    }
+    if (!item.price.equals(product.price)) {
+      diff.repriced.push({ ...change, expected: product.price, actual: item.price });
+    }
+    if (item.description !== product.description) {
+      diff.redescribed.push({ ...change, expected: product.description, actual: item.description });
+    }
+  }
+
+  diff.added = rendered.filter(item => !expectedIds.has(item.itemId));
+
+  return diff;
+}
+
+/**
+ * true if the diff found no differences at all
+ */
+export function isCatalogueMatch(diff: CatalogueDiff): boolean {
+  return Object.values(diff).every(changes => changes.length === 0);
+}
+
+/**
+ * Describe a diff in a few readable lines (for assertion messages)
+ * @example
+ * repriced: Sauce Labs Backpack $29.99 -> $39.99
+ */
+export function formatCatalogueDiff(diff: CatalogueDiff): string {
+  if (isCatalogueMatch(diff)) {
+    return 'The catalogue matches products.json';
+  }
+
+  const lines: string[] = [
+    ...diff.added.map(item => `added: ${item.name} (item ${item.itemId})`),
+    ...diff.removed.map(product => `removed: ${product.name}`),
+    ...diff.renamed.map(c => `renamed: "${c.expected}" -> "${c.actual}"`),
+    ...diff.repriced.map(c => `repriced: ${c.name} ${c.expected.format()} -> ${c.actual.format()}`),
+    ...diff.redescribed.map(c => `redescribed: ${c.name}: "${c.expected}" -> "${c.actual}"`)
+  ];
+  return `The catalogue differs from products.json:\n  ${lines.join('\n  ')}`;
+}
+
+/**
+ * Attach a diff to the test's HTML report as JSON
+ * @param testInfo - The second argument of the test function
+ */
+export async function attachCatalogueDiff(testInfo: TestInfo, diff: CatalogueDiff): Promise<void> {
+  await testInfo.attach('catalogue-diff', {
+    body: JSON.stringify(diff, null, 2),
+    contentType: 'application/json'
+  });
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. GENERIC INTERFACES:
+ *    FieldChange<Money> for prices, FieldChange<string> for names and descriptions
+ *
+ * 2. PICK:
+ *    Pick<ProductCardData, 'itemId' | 'name' | ...> reuses part of an existing type
+ *
+ * 3. MAP AND SET:
+ *    new Map(entries) / new Set(values) for fast lookups by id
+ *
+ * USAGE:
+ *
+ * test('catalogue is up to date', async ({ inventoryPage }, testInfo) => {
+ *   const diff = diffCatalogue(await inventoryPage.getCatalogue());
+ *   await attachCatalogueDiff(testInfo, diff);
+ *   expect(isCatalogueMatch(diff), formatCatalogueDiff(diff)).toBe(true);
+ * });
+ */
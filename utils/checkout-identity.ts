@@ -0,0 +1,219 @@
+/**
+ * CHECKOUT IDENTITIES
+ *
+ * Realistic names and postal codes for the checkout information form, in
+ * four locales:
+ *
+ *   en-US  Jennifer Davis     02134       (5-digit ZIP)
+ *   en-GB  Oliver Hughes      SW14 7QD    (outward + inward code)
+ *   en-CA  Étienne Tremblay   K1A 0B1     (letter-digit-letter digit-letter-digit)
+ *   de-DE  Lena Müller        10115       (5-digit PLZ)
+ *
+ * plus edge-case names that forms often get wrong: apostrophes (O'Brien),
+ * hyphens (Smith-Jones), diacritics (Dvořák) and right-to-left scripts.
+ *
+ * Everything comes from a SeededRandom, so the same seed gives the same
+ * identities in the same order. The checkoutIdentity fixture uses the test's
+ * seed (recorded as a test annotation); set SAUCE_SEED to it to replay a
+ * failing run - see utils/random.ts.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Record types keyed by string literal unions
+ * - Functions stored in a lookup table
+ * - Interfaces extending interfaces
+ */
+
+import type { CheckoutInfo } from '../pages/CheckoutInformationStep';
+import { SeededRandom } from './random';
+
+export type IdentityLocale = 'en-US' | 'en-GB' | 'en-CA' | 'de-DE';
+
+export type EdgeCaseProfile = 'apostrophe' | 'hyphenated' | 'diacritics' | 'rtl-arabic' | 'rtl-hebrew';
+
+export const IDENTITY_LOCALES: readonly IdentityLocale[] = ['en-US', 'en-GB', 'en-CA', 'de-DE'];
+
+export const EDGE_CASE_PROFILES: readonly EdgeCaseProfile[] = ['apostrophe', 'hyphenated', 'diacritics', 'rtl-arabic', 'rtl-hebrew'];
+
+interface NamePool {
+  first: readonly string[];
+  last: readonly string[];
+}
+
+/**
+ * A generated identity: the form fields, plus where they came from
+ * TYPESCRIPT: extends CheckoutInfo, so it can be passed straight to fillCheckoutInfo()
+ */
+export interface CheckoutIdentity extends CheckoutInfo {
+  locale: IdentityLocale;
+  edgeCase: EdgeCaseProfile | null;
+  // The generator's seed and this identity's position in its sequence (0, 1, 2, ...)
+  seed: number;
+  index: number;
+}
+
+export interface IdentityOptions {
+  // Picked at random when not given
+  locale?: IdentityLocale;
+  // Use an edge-case name instead of the locale's (the postal code still follows the locale)
+  edgeCase?: EdgeCaseProfile;
+}
+
+const LOCALE_NAMES: Record<IdentityLocale, NamePool> = {
+  'en-US': {
+    first: ['James', 'Maria', 'Michael', 'Jennifer', 'David', 'Linda', 'Robert', 'Patricia'],
+    last: ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis']
+  },
+  'en-GB': {
+    first: ['Oliver', 'Amelia', 'Harry', 'Isla', 'George', 'Ava', 'Jack', 'Emily'],
+    last: ['Taylor', 'Wilson', 'Evans', 'Thomas', 'Roberts', 'Walker', 'Wright', 'Hughes']
+  },
+  'en-CA': {
+    first: ['Liam', 'Olivia', 'Noah', 'Emma', 'William', 'Charlotte', 'Étienne', 'Gabrielle'],
+    last: ['Tremblay', 'Gagnon', 'Roy', 'Côté', 'Smith', 'Brown', 'Martin', 'Wilson']
+  },
+  'de-DE': {
+    first: ['Lukas', 'Anna', 'Leon', 'Sophie', 'Jonas', 'Marie', 'Felix', 'Lena'],
+    last: ['Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Meyer', 'Wagner', 'Becker']
+  }
+};
+
+const EDGE_CASE_NAMES: Record<EdgeCaseProfile, NamePool> = {
+  'apostrophe': {
+    first: ["D'Arcy", "D'Andre", "Ja'Net", "Le'Ann"],
+    last: ["O'Brien", "O'Connor", "D'Souza", "N'Diaye", "L'Estrange"]
+  },
+  'hyphenated': {
+    first: ['Mary-Jane', 'Jean-Luc', 'Anne-Marie', 'Hans-Peter'],
+    last: ['Smith-Jones', 'Bowes-Lyon', 'Garcia-Lopez', 'Taylor-Johnson']
+  },
+  'diacritics': {
+    first: ['Zoë', 'José', 'Chloé', 'Søren', 'Łukasz', 'İlkay'],
+    last: ['Núñez', 'Dvořák', 'Øvergård', 'Çelik', 'Nguyễn', 'Ó Súilleabháin']
+  },
+  'rtl-arabic': {
+    first: ['محمد', 'فاطمة', 'عمر', 'ليلى'],
+    last: ['الحسيني', 'حداد', 'العلي', 'منصور']
+  },
+  'rtl-hebrew': {
+    first: ['נועה', 'דוד', 'יעל', 'אריאל'],
+    last: ['כהן', 'לוי', 'מזרחי', 'פרץ']
+  }
+};
+
+// Letters Canada Post uses: the first letter of a postal code, and the other letters
+const CA_FIRST_LETTERS = 'ABCEGHJKLMNPRSTVXY';
+const CA_LETTERS = 'ABCEGHJKLMNPRSTVWXYZ';
+
+// Real UK postcode areas, and the letters allowed at the end of the inward code
+const UK_AREAS = ['B', 'E', 'G', 'L', 'M', 'N', 'S', 'W', 'AB', 'BS', 'CF', 'EH', 'LS', 'NE', 'OX', 'SW'];
+const UK_INWARD_LETTERS = 'ABDEFGHJLNPQRSTUWXYZ';
+
+/**
+ * What a postal code looks like in each locale
+ * TYPESCRIPT: Exported so tests (and anything else) can check a code's format
+ */
+export const POSTAL_CODE_FORMATS: Record<IdentityLocale, RegExp> = {
+  'en-US': /^\d{5}$/,
+  'en-GB': /^[A-Z]{1,2}\d{1,2} \d[ABD-HJLNP-UW-Z]{2}$/,
+  'en-CA': /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPR-TV-Z] \d[ABCEGHJ-NPR-TV-Z]\d$/,
+  'de-DE': /^\d{5}$/
+};
+
+// TYPESCRIPT: A Record of functions - one postal code generator per locale
+const POSTAL_CODES: Record<IdentityLocale, (random: SeededRandom) => string> = {
+  // 00501 is the lowest ZIP in use
+  'en-US': random => String(random.int(501, 99950)).padStart(5, '0'),
+  'en-GB': random => {
+    const letter = () => random.pick([...UK_INWARD_LETTERS]);
+    return `${random.pick(UK_AREAS)}${random.int(1, 20)} ${random.int(0, 9)}${letter()}${letter()}`;
+  },
+  'en-CA': random => {
+    const letter = () => random.pick([...CA_LETTERS]);
+    const digit = () => random.int(0, 9);
+    return `${random.pick([...CA_FIRST_LETTERS])}${digit()}${letter()} ${digit()}${letter()}${digit()}`;
+  },
+  // 01067 (Dresden) is the lowest PLZ in use
+  'de-DE': random => String(random.int(1067, 99998)).padStart(5, '0')
+};
+
+/**
+ * Makes any number of identities from one seed
+ *
+ * @example
+ * const identities = new CheckoutIdentityGenerator(1234);
+ * identities.next({ locale: 'en-GB' });           // same person every time for seed 1234
+ * identities.next({ edgeCase: 'apostrophe' });
+ */
+export class CheckoutIdentityGenerator {
+  private readonly random: SeededRandom;
+  private count = 0;
+
+  constructor(seed: number) {
+    this.random = new SeededRandom(seed);
+  }
+
+  get seed(): number {
+    return this.random.seed;
+  }
+
+  /**
+   * The next identity in the sequence
+   * @param options - Locale and edge-case profile (both optional)
+   */
+  next(options: IdentityOptions = {}): CheckoutIdentity {
+    const locale = options.locale ?? this.random.pick(IDENTITY_LOCALES);
+    const names = options.edgeCase ? EDGE_CASE_NAMES[options.edgeCase] : LOCALE_NAMES[locale];
+
+    return {
+      firstName: this.random.pick(names.first),
+      lastName: this.random.pick(names.last),
+      postalCode: POSTAL_CODES[locale](this.random),
+      locale,
+      edgeCase: options.edgeCase ?? null,
+      seed: this.seed,
+      index: this.count++
+    };
+  }
+}
+
+/**
+ * One identity, e.g. for a quick test
+ * @param options - Locale, edge-case profile and seed (a random seed if none is given)
+ */
+export function createCheckoutIdentity(options: IdentityOptions & { seed?: number } = {}): CheckoutIdentity {
+  return new CheckoutIdentityGenerator(options.seed ?? SeededRandom.randomSeed()).next(options);
+}
+
+/**
+ * One line for logs, e.g. "D'Arcy O'Brien, SW14 7QD (en-GB, apostrophe; seed 1234 #0)"
+ */
+export function describeIdentity(identity: CheckoutIdentity): string {
+  const origin = identity.edgeCase ? `${identity.locale}, ${identity.edgeCase}` : identity.locale;
+  return `${identity.firstName} ${identity.lastName}, ${identity.postalCode} (${origin}; seed ${identity.seed} #${identity.index})`;
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. RECORD OVER A UNION:
+ *    Record<IdentityLocale, NamePool> must have an entry for every locale
+ *
+ * 2. FUNCTIONS AS VALUES:
+ *    POSTAL_CODES['en-CA'](random) - look up a generator, then call it
+ *
+ * 3. INTERFACE EXTENSION:
+ *    CheckoutIdentity extends CheckoutInfo - usable wherever CheckoutInfo is
+ *
+ * 4. INTERSECTION TYPES:
+ *    IdentityOptions & { seed?: number }
+ *
+ * USAGE:
+ *
+ * test('checkout as a Canadian customer', async ({ checkoutIdentity, informationStep }) => {
+ *   const identity = checkoutIdentity({ locale: 'en-CA' });
+ *   await informationStep.completeCheckoutInfo(identity);
+ * });
+ *
+ * // Replay the identities of a failed run (the seed is in the test's annotations)
+ * SAUCE_SEED=1234 npx playwright test -g "Canadian customer"
+ */
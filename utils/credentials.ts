@@ -0,0 +1,282 @@
+/**
+ * CREDENTIAL PROVIDERS
+ *
+ * Persona passwords are NOT stored in test-data/users.json. They are looked up
+ * through a chain of providers, first match wins:
+ *
+ * 1. Environment variables   SAUCE_PASSWORD_<USERNAME> (e.g. SAUCE_PASSWORD_STANDARD_USER), then SAUCE_PASSWORD
+ * 2. A .env file             same keys, in .env at the repo root (or SAUCE_DOTENV_FILE)
+ * 3. An encrypted file       credentials.enc.json (or SAUCE_CREDENTIALS_FILE), unlocked with SAUCE_CREDENTIALS_KEY
+ * 4. The environment profile  e.g. the public SauceDemo password for the production and local profiles
+ *
+ * Every password handed out is registered with utils/redaction.ts, so it is
+ * masked in logStep() output, report attachments and traces.
+ *
+ * CREATING AN ENCRYPTED FILE:
+ *   echo '{ "standard_user": "s3cret", "*": "shared-password" }' > plain.json
+ *   SAUCE_CREDENTIALS_KEY=... npx tsx utils/credentials.ts encrypt plain.json credentials.enc.json
+ *   rm plain.json
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Interfaces as plug-in points (CredentialProvider)
+ * - Factory functions returning interface implementations
+ * - Node's crypto module (scrypt + AES-256-GCM)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { activeProfile } from '../environments';
+import { registerSecret } from './redaction';
+
+/**
+ * Anything that can look up a password for a username
+ * TYPESCRIPT: Returning undefined means "not mine - ask the next provider"
+ */
+export interface CredentialProvider {
+  // Shown in error messages, e.g. 'environment variables'
+  readonly name: string;
+  getPassword(username: string): string | undefined;
+}
+
+// TYPESCRIPT: The shape of process.env - every value may be undefined
+type Env = Record<string, string | undefined>;
+
+// Username -> password, with '*' as the fallback for every user
+type PasswordMap = Record<string, string>;
+
+const ROOT_DIR = path.join(__dirname, '..');
+
+/**
+ * Variable name for a user's password: standard_user -> SAUCE_PASSWORD_STANDARD_USER
+ */
+export function passwordVariable(username: string): string {
+  return `SAUCE_PASSWORD_${username.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Look a user up in a set of KEY=VALUE variables (process.env or a parsed .env file)
+ */
+function passwordFromVariables(variables: Env, username: string): string | undefined {
+  return variables[passwordVariable(username)] || variables.SAUCE_PASSWORD || undefined;
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+/**
+ * Provider 1: environment variables
+ * @param env - Defaults to process.env; tests pass their own object
+ */
+export function envCredentialProvider(env: Env = process.env): CredentialProvider {
+  return {
+    name: 'environment variables',
+    getPassword: username => passwordFromVariables(env, username)
+  };
+}
+
+/**
+ * Parse the contents of a .env file
+ * Supports KEY=value, KEY="quoted value", KEY='quoted value', `export KEY=value` and # comments.
+ */
+export function parseDotEnv(contents: string): Env {
+  const variables: Env = {};
+
+  for (const line of contents.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+    if (!match) {
+      continue;
+    }
+
+    let value = match[2];
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.endsWith(quote) && value.length >= 2) {
+      value = value.slice(1, -1);
+    } else {
+      // Unquoted values may carry a trailing comment
+      value = value.replace(/\s+#.*$/, '');
+    }
+    variables[match[1]] = value;
+  }
+
+  return variables;
+}
+
+/**
+ * Provider 2: a .env file (read lazily, once)
+ * @param filePath - Missing files are fine: the provider just never matches
+ */
+export function dotEnvCredentialProvider(filePath: string): CredentialProvider {
+  let variables: Env | undefined;
+
+  return {
+    name: `.env file (${filePath})`,
+    getPassword: username => {
+      if (!variables) {
+        variables = fs.existsSync(filePath) ? parseDotEnv(fs.readFileSync(filePath, 'utf-8')) : {};
+      }
+      return passwordFromVariables(variables, username);
+    }
+  };
+}
+
+// TYPESCRIPT: What credentials.enc.json holds - all binary values are base64 strings
+interface EncryptedCredentialsFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32);
+}
+
+/**
+ * Encrypt a username -> password map with a passphrase (AES-256-GCM)
+ */
+export function encryptCredentials(passwords: PasswordMap, passphrase: string): EncryptedCredentialsFile {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(passwords), 'utf8'), cipher.final()]);
+
+  return {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+/**
+ * Decrypt what encryptCredentials() produced
+ * @throws Error if the passphrase is wrong or the file was tampered with
+ */
+export function decryptCredentials(file: EncryptedCredentialsFile, passphrase: string): PasswordMap {
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(passphrase, Buffer.from(file.salt, 'base64')),
+    Buffer.from(file.iv, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+
+  try {
+    const json = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    return JSON.parse(json.toString('utf8')) as PasswordMap;
+  } catch {
+    throw new Error('Could not decrypt the credentials file: wrong SAUCE_CREDENTIALS_KEY or corrupted file');
+  }
+}
+
+/**
+ * Provider 3: an encrypted JSON file (decrypted lazily, once)
+ * @param filePath - Missing files are fine: the provider just never matches
+ * @param passphrase - Required only if the file exists
+ */
+export function encryptedFileCredentialProvider(filePath: string, passphrase: string | undefined): CredentialProvider {
+  let passwords: PasswordMap | undefined;
+
+  return {
+    name: `encrypted file (${filePath})`,
+    getPassword: username => {
+      if (!passwords) {
+        if (!fs.existsSync(filePath)) {
+          passwords = {};
+        } else if (!passphrase) {
+          throw new Error(`${filePath} exists but SAUCE_CREDENTIALS_KEY is not set, so it cannot be decrypted`);
+        } else {
+          passwords = decryptCredentials(JSON.parse(fs.readFileSync(filePath, 'utf-8')), passphrase);
+        }
+      }
+      return passwords[username] ?? passwords['*'];
+    }
+  };
+}
+
+/**
+ * Provider 4: the password in the active environment profile (if any)
+ */
+export function profileCredentialProvider(password: string | undefined = activeProfile.credentials.password): CredentialProvider {
+  return {
+    name: `environment profile "${activeProfile.name}"`,
+    getPassword: () => password
+  };
+}
+
+/**
+ * Combine providers: the first one that knows the user wins
+ */
+export function chainCredentialProviders(providers: CredentialProvider[]): CredentialProvider {
+  return {
+    name: providers.map(p => p.name).join(' -> '),
+    getPassword: username => {
+      for (const provider of providers) {
+        const password = provider.getPassword(username);
+        if (password) {
+          return password;
+        }
+      }
+      return undefined;
+    }
+  };
+}
+
+/**
+ * The provider chain described at the top of this file
+ */
+export function defaultCredentialProvider(env: Env = process.env): CredentialProvider {
+  return chainCredentialProviders([
+    envCredentialProvider(env),
+    dotEnvCredentialProvider(env.SAUCE_DOTENV_FILE || path.join(ROOT_DIR, '.env')),
+    encryptedFileCredentialProvider(
+      env.SAUCE_CREDENTIALS_FILE || path.join(ROOT_DIR, 'credentials.enc.json'),
+      env.SAUCE_CREDENTIALS_KEY
+    ),
+    profileCredentialProvider()
+  ]);
+}
+
+let provider: CredentialProvider = defaultCredentialProvider();
+
+/**
+ * Swap the provider (e.g. for a secrets manager in CI)
+ */
+export function setCredentialProvider(custom: CredentialProvider): void {
+  provider = custom;
+}
+
+/**
+ * Resolve a user's password and register it for redaction
+ * @throws Error naming the variable to set when no provider knows the user
+ */
+export function resolvePassword(username: string): string {
+  const password = provider.getPassword(username);
+  if (!password) {
+    throw new Error(
+      `No password for "${username}". Set ${passwordVariable(username)} or SAUCE_PASSWORD ` +
+      `(checked: ${provider.name})`
+    );
+  }
+
+  registerSecret(password);
+  return password;
+}
+
+// Encrypt a plain JSON file: npx tsx utils/credentials.ts encrypt <plain.json> <out.enc.json>
+if (require.main === module) {
+  const [command, input, output] = process.argv.slice(2);
+  const passphrase = process.env.SAUCE_CREDENTIALS_KEY;
+
+  if (command !== 'encrypt' || !input || !output || !passphrase) {
+    console.error('Usage: SAUCE_CREDENTIALS_KEY=... npx tsx utils/credentials.ts encrypt <plain.json> <out.enc.json>');
+    process.exit(1);
+  }
+
+  const passwords = JSON.parse(fs.readFileSync(input, 'utf-8')) as PasswordMap;
+  fs.writeFileSync(output, JSON.stringify(encryptCredentials(passwords, passphrase), null, 2));
+  console.log(`Wrote ${output} (${Object.keys(passwords).length} entries)`);
+}
@@ -0,0 +1,101 @@
+/**
+ * CART vs CHECKOUT OVERVIEW LINE ITEMS
+ *
+ * The checkout overview (/checkout-step-two.html) lists the same items as the
+ * cart. compareLineItems() checks that nothing went missing, appeared or
+ * changed between the two:
+ *
+ *   missing     in the cart, but not on the overview
+ *   unexpected  on the overview, but not in the cart
+ *   changed     same item (by name), different description, quantity or price
+ *
+ * Capture the cart with cartPage.getAllCartItems() BEFORE clicking Checkout,
+ * then compare with overviewStep.getLineItems() on the overview.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - keyof to name the fields being compared
+ * - Type-only imports
+ */
+
+// TYPESCRIPT: 'import type' is erased at compile time, so CartPage isn't loaded
+// (and can't create an import cycle) just to borrow its interface
+import type { CartItem } from '../pages/CartPage';
+
+// The fields compared for an item present on both pages
+type ComparedField = Exclude<keyof CartItem, 'name'>;
+const COMPARED_FIELDS: readonly ComparedField[] = ['description', 'quantity', 'price'];
+
+export interface LineItemChange {
+  name: string;
+  field: ComparedField;
+  expected: string;     // Formatted for reading, e.g. "$29.99"
+  actual: string;
+}
+
+export interface LineItemCheck {
+  ok: boolean;
+  missing: CartItem[];
+  unexpected: CartItem[];
+  changed: LineItemChange[];
+  message: string;
+}
+
+/**
+ * Compare the cart captured before checkout with the overview's line items
+ * TYPESCRIPT: Pure function - no browser needed, easy to unit test
+ *
+ * @param cart - await cartPage.getAllCartItems(), read on the cart page
+ * @param overview - await overviewStep.getLineItems(), read on the overview
+ * @example
+ * const check = compareLineItems(cartItems, await overviewStep.getLineItems());
+ * expect(check.ok, check.message).toBe(true);
+ */
+export function compareLineItems(cart: readonly CartItem[], overview: readonly CartItem[]): LineItemCheck {
+  const overviewByName = new Map(overview.map(item => [item.name, item]));
+  const cartNames = new Set(cart.map(item => item.name));
+
+  const missing: CartItem[] = [];
+  const changed: LineItemChange[] = [];
+
+  for (const expected of cart) {
+    const actual = overviewByName.get(expected.name);
+    if (!actual) {
+      missing.push(expected);
+      continue;
+    }
+
+    for (const field of COMPARED_FIELDS) {
+      // TYPESCRIPT: String() turns a Money (via toString()), number or string into text
+      const [want, got] = [String(expected[field]), String(actual[field])];
+      if (want !== got) {
+        changed.push({ name: expected.name, field, expected: want, actual: got });
+      }
+    }
+  }
+
+  const unexpected = overview.filter(item => !cartNames.has(item.name));
+
+  const problems = [
+    ...missing.map(item => `missing: ${item.name}`),
+    ...unexpected.map(item => `unexpected: ${item.name}`),
+    ...changed.map(c => `changed ${c.field}: ${c.name}: "${c.expected}" -> "${c.actual}"`)
+  ];
+  const message = problems.length === 0
+    ? `The overview lists the same ${cart.length} item(s) as the cart`
+    : `The overview differs from the cart:\n  ${problems.join('\n  ')}`;
+
+  return { ok: problems.length === 0, missing, unexpected, changed, message };
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. KEYOF AND EXCLUDE:
+ *    Exclude<keyof CartItem, 'name'> is 'description' | 'quantity' | 'price'
+ *
+ * 2. TYPE-ONLY IMPORTS:
+ *    import type { CartItem } - the type is used, the module isn't loaded
+ *
+ * 3. MAP AND SET:
+ *    Look items up by name instead of nested loops
+ */
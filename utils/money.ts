@@ -0,0 +1,152 @@
+/**
+ * MONEY
+ *
+ * Prices and totals as whole cents, never as floating-point dollars.
+ * 0.1 + 0.2 !== 0.3 in JavaScript, so adding parseFloat()ed prices needs a
+ * tolerance; adding integer cents is exact, so totals can be compared with equals().
+ *
+ * Every page object returns Money for the prices it shows, and parsing is
+ * strict: "$29.99" is accepted, "29.99", "$29.9" or "Total: $29.99" are not
+ * (strip a label first). A malformed price on the page fails loudly instead
+ * of turning into 0 or NaN.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Value objects: immutable classes with readonly fields
+ * - Private constructors + static factory methods
+ * - toString() / toJSON() for readable output
+ */
+
+// "$29.99": a dollar sign, whole dollars, exactly two decimals
+const PRICE_PATTERN = /^\$(\d+)\.(\d{2})$/;
+
+export class Money {
+  // TYPESCRIPT: readonly - a Money never changes; plus() and minus() return new objects
+  readonly cents: number;
+
+  // TYPESCRIPT LEARNING: PRIVATE CONSTRUCTOR
+  // 'new Money(...)' only works inside this class; callers use the named factories below,
+  // which say what unit they expect (cents, dollars or "$29.99" text)
+  private constructor(cents: number) {
+    if (!Number.isSafeInteger(cents)) {
+      throw new Error(`Money must be a whole number of cents, got ${cents}`);
+    }
+    this.cents = cents;
+  }
+
+  static readonly ZERO = new Money(0);
+
+  /**
+   * @example Money.fromCents(2999) // $29.99
+   */
+  static fromCents(cents: number): Money {
+    return new Money(cents);
+  }
+
+  /**
+   * Convert a dollar amount from test data (e.g. products.json)
+   * @throws Error for amounts with more than two decimals (29.999) or non-numbers
+   * @example Money.fromDollars(29.99) // $29.99
+   */
+  static fromDollars(dollars: number): Money {
+    const cents = Math.round(dollars * 100);
+    // Tiny float noise (29.99 * 100 = 2998.9999999999995) is fine, a third decimal is not
+    if (!Number.isFinite(dollars) || Math.abs(dollars * 100 - cents) > 1e-6) {
+      throw new Error(`Not a dollar amount with at most 2 decimals: ${dollars}`);
+    }
+    return new Money(cents);
+  }
+
+  /**
+   * Parse a price as the app shows it
+   * @param text - e.g. "$29.99" (surrounding whitespace is ignored)
+   * @throws Error naming the text if it isn't a well-formed price
+   */
+  static parse(text: string): Money {
+    const match = text.trim().match(PRICE_PATTERN);
+    if (!match) {
+      throw new Error(`Malformed price "${text}": expected a dollar amount like "$29.99"`);
+    }
+    return new Money(parseInt(match[1], 10) * 100 + parseInt(match[2], 10));
+  }
+
+  /**
+   * Add up a list of amounts (an empty list is $0.00)
+   */
+  static sum(amounts: readonly Money[]): Money {
+    return amounts.reduce((total, amount) => total.plus(amount), Money.ZERO);
+  }
+
+  plus(other: Money): Money {
+    return new Money(this.cents + other.cents);
+  }
+
+  minus(other: Money): Money {
+    return new Money(this.cents - other.cents);
+  }
+
+  /**
+   * Multiply by a whole quantity (e.g. 3 x $9.99)
+   */
+  times(quantity: number): Money {
+    if (!Number.isInteger(quantity)) {
+      throw new Error(`Quantity must be a whole number, got ${quantity}`);
+    }
+    return new Money(this.cents * quantity);
+  }
+
+  equals(other: Money): boolean {
+    return this.cents === other.cents;
+  }
+
+  /**
+   * Comparator for sort(): negative if this is cheaper, 0 if equal, positive if dearer
+   */
+  compare(other: Money): number {
+    return this.cents - other.cents;
+  }
+
+  toDollars(): number {
+    return this.cents / 100;
+  }
+
+  /**
+   * Format like the app does: "$29.99"
+   */
+  format(): string {
+    const sign = this.cents < 0 ? '-' : '';
+    const cents = Math.abs(this.cents);
+    return `${sign}$${Math.floor(cents / 100)}.${String(cents % 100).padStart(2, '0')}`;
+  }
+
+  // TYPESCRIPT: Called by template literals and string concatenation: `${price}` -> "$29.99"
+  toString(): string {
+    return this.format();
+  }
+
+  // TYPESCRIPT: Called by JSON.stringify(), so report attachments show "$29.99" rather than { cents: 2999 }
+  toJSON(): string {
+    return this.format();
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. VALUE OBJECTS:
+ *    readonly cents + methods that return NEW Money objects
+ *
+ * 2. PRIVATE CONSTRUCTORS AND STATIC FACTORIES:
+ *    Money.parse('$29.99'), Money.fromDollars(29.99), Money.fromCents(2999)
+ *
+ * 3. STATIC PROPERTIES:
+ *    Money.ZERO belongs to the class, not to an instance
+ *
+ * 4. toString() AND toJSON():
+ *    Control how an object looks in strings and in JSON
+ *
+ * USAGE:
+ *
+ * const subtotal = await overviewStep.getSubtotal();              // Money
+ * const expected = Money.sum(products.map(p => p.price));          // Money
+ * expect(subtotal.equals(expected)).toBe(true);                    // exact, no tolerance
+ */
@@ -0,0 +1,199 @@
+/**
+ * SEEDED RANDOM NUMBERS
+ *
+ * Math.random() can't be replayed: when a test fails on random data, there is
+ * no way to get the same data back. SeededRandom produces the same sequence
+ * for the same seed, so printing the seed is enough to reproduce a run.
+ *
+ *   const random = new SeededRandom(1234);
+ *   random.int(1, 6);             // always the same first roll for seed 1234
+ *   random.pick(['a', 'b', 'c']);
+ *
+ * The generator is mulberry32: tiny, fast and plenty random for test data
+ * (not for anything security related).
+ *
+ * ONE SEED PER TEST:
+ * The `random` fixture (fixtures/auth.fixture.ts) gives every test its own
+ * SeededRandom and records the seed as a test annotation. The random helpers
+ * in test-helpers.ts (randomItem, randomItems, ...) use it through
+ * currentRandom(). To replay a failing test with the same "random" choices:
+ *
+ *   SAUCE_SEED=1234 npx playwright test -g "the failing test"
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Classes with private mutable state
+ * - Bitwise integer maths (Math.imul, >>> 0)
+ * - Generic methods over readonly arrays
+ */
+
+// Seeds are unsigned 32-bit integers - the generator's whole state
+const MAX_SEED = 0xFFFFFFFF;
+
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  /**
+   * @param seed - A whole number from 0 to 4294967295
+   * @throws Error if the seed is out of range or not a whole number
+   */
+  constructor(seed: number) {
+    if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+      throw new Error(`A seed must be a whole number from 0 to ${MAX_SEED}, got ${seed}`);
+    }
+    this.seed = seed;
+    this.state = seed;
+  }
+
+  /**
+   * A fresh seed for a run that wasn't given one (this is the only Math.random() call)
+   */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * (MAX_SEED + 1));
+  }
+
+  /**
+   * The next number in the sequence, from 0 (inclusive) to 1 (exclusive) - like Math.random()
+   */
+  next(): number {
+    // TYPESCRIPT: '| 0' and '>>> 0' keep the maths in 32-bit integers
+    this.state = (this.state + 0x6D2B79F5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * A whole number between min and max, both included
+   * @example random.int(1, 6) // a dice roll
+   */
+  int(min: number, max: number): number {
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min > max) {
+      throw new Error(`int() needs whole numbers with min <= max, got ${min} and ${max}`);
+    }
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * One item of an array
+   * @throws Error if the array is empty
+   */
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error('Cannot pick from an empty array');
+    }
+    return items[this.int(0, items.length - 1)];
+  }
+
+  /**
+   * A shuffled copy of an array (the original is left alone)
+   * Fisher-Yates: every order is equally likely, unlike sort(() => 0.5 - Math.random())
+   */
+  shuffle<T>(items: readonly T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.int(0, i);
+      // TYPESCRIPT: Destructuring assignment swaps two elements
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /**
+   * Up to count different items of an array, in random order
+   */
+  sample<T>(items: readonly T[], count: number): T[] {
+    return this.shuffle(items).slice(0, count);
+  }
+}
+
+/**
+ * Read a seed typed by a person (an environment variable or a command-line value)
+ * @throws Error naming the text if it isn't a valid seed
+ */
+export function parseSeed(text: string): number {
+  const seed = Number(text.trim());
+  if (text.trim() === '' || !Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+    throw new Error(`"${text}" is not a seed: expected a whole number from 0 to ${MAX_SEED}`);
+  }
+  return seed;
+}
+
+/**
+ * The seed for a test: SAUCE_SEED if it is set (to replay a run), otherwise a fresh one
+ *
+ * @param env - Environment variables (defaults to process.env; tests pass their own)
+ * @throws Error if SAUCE_SEED isn't a valid seed
+ */
+export function seedFromEnv(env: Record<string, string | undefined> = process.env): number {
+  const raw = env.SAUCE_SEED;
+  if (raw === undefined || raw === '') {
+    return SeededRandom.randomSeed();
+  }
+  try {
+    return parseSeed(raw);
+  } catch (error) {
+    throw new Error(`SAUCE_SEED: ${(error as Error).message}`);
+  }
+}
+
+// The running test's generator, set by the random fixture
+let current: SeededRandom | undefined;
+// Used by code running outside a fixture-based test (created on first use)
+let fallback: SeededRandom | undefined;
+
+/**
+ * Make a generator the current test's (the random fixture calls this; pass undefined after the test)
+ */
+export function setCurrentRandom(random: SeededRandom | undefined): void {
+  current = random;
+}
+
+/**
+ * The running test's generator
+ * TYPESCRIPT: Playwright runs one test at a time per worker process, so module state is per test
+ *
+ * Specs that import test from @playwright/test instead of fixtures/auth.fixture
+ * have no random fixture; they share one generator per worker. Its seed isn't
+ * reported anywhere (the fixture owns that), so set SAUCE_SEED to make such specs repeatable.
+ */
+export function currentRandom(): SeededRandom {
+  if (current) {
+    return current;
+  }
+  if (!fallback) {
+    fallback = new SeededRandom(seedFromEnv());
+  }
+  return fallback;
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. PRIVATE MUTABLE STATE:
+ *    readonly seed (for printing) vs private state (advanced by next())
+ *
+ * 2. STATIC METHODS:
+ *    SeededRandom.randomSeed() belongs to the class, not to an instance
+ *
+ * 3. GENERIC METHODS:
+ *    pick<T>(items: readonly T[]): T - works for strings, products, anything
+ *
+ * 4. DESTRUCTURING SWAP:
+ *    [a[i], a[j]] = [a[j], a[i]]
+ *
+ * 5. MODULE-LEVEL STATE:
+ *    let current - set per test by a fixture, read by currentRandom()
+ *
+ * USAGE:
+ *
+ * const random = new SeededRandom(SeededRandom.randomSeed());
+ * console.log(`seed: ${random.seed}`);   // print it, so a failure can be replayed
+ * const product = random.pick(products);
+ *
+ * // In a test, use the fixture - its seed is in the test's annotations
+ * test('example', async ({ random }) => {
+ *   const [first, second] = random.sample(products, 2);
+ * });
+ */
@@ -0,0 +1,115 @@
+/**
+ * SECRET REDACTION
+ *
+ * Keeps passwords out of everything a test run leaves behind: console output
+ * (logStep), report attachments, step titles and Playwright traces.
+ *
+ * Secrets are registered as they are resolved (see utils/credentials.ts), and
+ * redact() replaces every registered value with a fixed mask.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Module-level state behind a small function API
+ * - Searching and splicing Buffers
+ */
+
+import fs from 'fs';
+import { readZip, writeZip } from './zip';
+
+export const REDACTED = '*****';
+
+// TYPESCRIPT: A Set ignores duplicates, so registering the same secret twice is harmless
+const secrets = new Set<string>();
+
+// Very short values (e.g. "a") would mask unrelated text, so they are not treated as secrets
+const MIN_SECRET_LENGTH = 4;
+
+/**
+ * Remember a value that must never appear in output
+ */
+export function registerSecret(value: string | undefined): void {
+  if (value && value.length >= MIN_SECRET_LENGTH) {
+    secrets.add(value);
+  }
+}
+
+/**
+ * Every registered secret, longest first (so a secret containing another is masked whole)
+ */
+function sortedSecrets(): string[] {
+  return [...secrets].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Replace every registered secret in a piece of text
+ * @example redact('Fill "secret_sauce"') // 'Fill "*****"'
+ */
+export function redact(text: string): string {
+  let result = text;
+  for (const secret of sortedSecrets()) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result;
+}
+
+/**
+ * Buffer version of redact() - works on raw bytes, so binary files pass through unchanged
+ * unless they contain a secret
+ * @returns The same buffer when nothing was found, otherwise a redacted copy
+ */
+export function redactBuffer(data: Buffer): Buffer {
+  let result = data;
+  for (const secret of sortedSecrets()) {
+    const needle = Buffer.from(secret, 'utf8');
+    if (result.indexOf(needle) === -1) {
+      continue;
+    }
+
+    const parts: Buffer[] = [];
+    let start = 0;
+    let found = result.indexOf(needle, start);
+    while (found !== -1) {
+      parts.push(result.subarray(start, found), Buffer.from(REDACTED));
+      start = found + needle.length;
+      found = result.indexOf(needle, start);
+    }
+    parts.push(result.subarray(start));
+    result = Buffer.concat(parts);
+  }
+  return result;
+}
+
+/**
+ * Redact a text file in place
+ * @returns true if the file contained a secret
+ */
+export function redactFile(filePath: string): boolean {
+  const original = fs.readFileSync(filePath);
+  const redacted = redactBuffer(original);
+  if (redacted === original) {
+    return false;
+  }
+  fs.writeFileSync(filePath, redacted);
+  return true;
+}
+
+/**
+ * Redact every entry of a Playwright trace (a zip file) in place
+ * Action parameters (e.g. the value passed to fill()) and DOM snapshots live in these entries.
+ *
+ * @returns true if the trace contained a secret
+ */
+export function redactTraceFile(filePath: string): boolean {
+  const entries = readZip(fs.readFileSync(filePath));
+  let changed = false;
+
+  const redactedEntries = entries.map(entry => {
+    const data = redactBuffer(entry.data);
+    changed = changed || data !== entry.data;
+    return { name: entry.name, data };
+  });
+
+  if (changed) {
+    fs.writeFileSync(filePath, writeZip(redactedEntries));
+  }
+  return changed;
+}
@@ -0,0 +1,265 @@
+/**
+ * RETRYING WITH BACKOFF
+ *
+ * retry() runs an action until it succeeds, waiting a little longer after each
+ * failure:
+ *
+ *   const names = await retry(() => api.getProducts(), {
+ *     title: 'Load products',
+ *     attempts: 5,
+ *     retryIf: error => /ECONNRESET|503/.test(String(error))
+ *   });
+ *
+ * - Backoff: 200ms, 400ms, 800ms, ... (initialDelayMs * factor^n, capped at
+ *   maxDelayMs), with jitter from the test's seeded random so runs replay
+ * - retryIf decides which errors are worth another attempt; any other error
+ *   stops at once
+ * - A deadline: by default whatever is left of the test timeout, minus a
+ *   second so the failure is reported before the test times out
+ * - An AbortSignal stops the retries; the action gets a signal too, which
+ *   fires on abort or when the deadline passes
+ * - On failure a RetryError is thrown: an AggregateError holding every
+ *   attempt's error, with the history in its message
+ * - The retry is a step in the report, with one sub-step per attempt
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Subclassing a built-in error (AggregateError)
+ * - AbortController / AbortSignal
+ * - Union types for a reason code
+ */
+
+import { test } from '@playwright/test';
+import { SeededRandom, currentRandom } from './random';
+import { redact } from './redaction';
+import { currentStepLog, step } from './steps';
+
+// How the delay between attempts is randomised
+// 'full': 0..delay, 'equal': delay/2..delay, 'none': exactly delay
+export type Jitter = 'full' | 'equal' | 'none';
+
+export interface BackoffOptions {
+  // Delay after the first failure (default 200ms)
+  initialDelayMs?: number;
+  // Each delay is the previous one times this (default 2)
+  factor?: number;
+  // No delay is longer than this (default 5000ms)
+  maxDelayMs?: number;
+  jitter?: Jitter;
+}
+
+export interface RetryOptions extends BackoffOptions {
+  // Shown in the report and in the error (default 'Retry')
+  title?: string;
+  // Most attempts in total, the first one included (default 3)
+  attempts?: number;
+  // Whether an error is worth another attempt (default: every error is)
+  retryIf?: (error: unknown, attempt: number) => boolean;
+  // Give up this many ms from now (default: what's left of the test timeout)
+  deadlineMs?: number;
+  // Abort the retries from outside
+  signal?: AbortSignal;
+  // Jitter source (default: the current test's, see utils/random.ts)
+  random?: SeededRandom;
+}
+
+// What the action is told about its attempt
+export interface AttemptContext {
+  // 1 for the first attempt
+  attempt: number;
+  // Fires when the retry is aborted or its deadline passes
+  signal: AbortSignal;
+}
+
+// One failed attempt
+export interface AttemptRecord {
+  attempt: number;
+  error: string;
+  durationMs: number;
+}
+
+// Why the retries stopped
+export type GiveUpReason = 'attempts' | 'not-retryable' | 'deadline' | 'aborted';
+
+const GIVE_UP_DESCRIPTIONS: Record<GiveUpReason, string> = {
+  'attempts': 'no attempts left',
+  'not-retryable': 'the error is not retryable',
+  'deadline': 'the deadline passed',
+  'aborted': 'aborted'
+};
+
+// Time kept back from the test timeout, to report the RetryError before the test times out
+const DEADLINE_MARGIN_MS = 1000;
+
+// setTimeout fires at once for delays above this (about 24.8 days), so longer deadlines get no timer
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Thrown when retry() gives up
+ * TYPESCRIPT: extends AggregateError - .errors holds the original error of every attempt
+ */
+export class RetryError extends AggregateError {
+  constructor(
+    readonly title: string,
+    readonly reason: GiveUpReason,
+    readonly history: readonly AttemptRecord[],
+    errors: readonly unknown[]
+  ) {
+    super(errors, `${title} failed after ${history.length} attempt(s): ${GIVE_UP_DESCRIPTIONS[reason]}\n` +
+      history.map(a => `  attempt ${a.attempt} (${a.durationMs}ms): ${a.error}`).join('\n'));
+    this.name = 'RetryError';
+  }
+
+  /**
+   * The error of the last attempt (undefined if it was aborted before the first one)
+   */
+  get lastError(): unknown {
+    return this.errors[this.errors.length - 1];
+  }
+}
+
+/**
+ * The delay before the next attempt
+ *
+ * @param failures - How many attempts have failed so far (1 after the first)
+ * @example backoffDelay(3, { jitter: 'none' }) // 800
+ */
+export function backoffDelay(failures: number, options: BackoffOptions = {}, random: SeededRandom = currentRandom()): number {
+  const { initialDelayMs = 200, factor = 2, maxDelayMs = 5000, jitter = 'equal' } = options;
+  const delay = Math.min(maxDelayMs, initialDelayMs * factor ** (failures - 1));
+
+  switch (jitter) {
+    case 'full': return random.int(0, Math.round(delay));
+    case 'equal': return Math.round(delay / 2) + random.int(0, Math.round(delay / 2));
+    case 'none': return Math.round(delay);
+  }
+}
+
+/**
+ * Milliseconds left before the current test times out, minus a safety margin
+ * (Infinity outside a test, or when the test has no timeout)
+ */
+export function testTimeLeft(): number {
+  const log = currentStepLog();
+  let timeout: number;
+  try {
+    timeout = test.info().timeout;
+  } catch {
+    return Infinity;
+  }
+  if (timeout === 0 || !log) {
+    return Infinity;
+  }
+  return Math.max(0, timeout - log.elapsed() - DEADLINE_MARGIN_MS);
+}
+
+/**
+ * Run an action until it succeeds
+ *
+ * @param action - The work; gets the attempt number and a signal to stop early on
+ * @param options - Attempts, backoff, retryIf, deadline and signal (see RetryOptions)
+ * @returns What the first successful attempt returns
+ * @throws RetryError with every attempt's error when it gives up
+ * @example
+ * await retry(async ({ attempt }) => {
+ *   await cartPage.checkout();
+ * }, { title: 'Start checkout', attempts: 4, retryIf: error => error instanceof errors.TimeoutError });
+ */
+export async function retry<T>(action: (context: AttemptContext) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { title = 'Retry', attempts = 3, retryIf = () => true, random = currentRandom() } = options;
+  const deadlineMs = options.deadlineMs ?? testTimeLeft();
+  const deadline = Date.now() + deadlineMs;
+
+  // One signal for the action and the delays: fires on an outside abort or at the deadline
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) {
+    onAbort();
+  }
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = deadlineMs <= MAX_TIMER_MS
+    ? setTimeout(() => controller.abort(new Error(`${title}: deadline of ${deadlineMs}ms passed`)), deadlineMs)
+    : undefined;
+
+  const history: AttemptRecord[] = [];
+  const errors: unknown[] = [];
+  const giveUp = (reason: GiveUpReason) => new RetryError(redact(title), reason, history, errors);
+  const stopReason = (): GiveUpReason => options.signal?.aborted ? 'aborted' : 'deadline';
+
+  try {
+    return await step(title, async () => {
+      for (let attempt = 1; ; attempt++) {
+        if (controller.signal.aborted) {
+          throw giveUp(stopReason());
+        }
+
+        const startedAt = Date.now();
+        try {
+          return await step(`Attempt ${attempt} of ${attempts}`, () => action({ attempt, signal: controller.signal }));
+        } catch (error) {
+          errors.push(error);
+          history.push({ attempt, error: redact((error as Error)?.message ?? String(error)), durationMs: Date.now() - startedAt });
+
+          if (controller.signal.aborted) {
+            throw giveUp(stopReason());
+          }
+          if (!retryIf(error, attempt)) {
+            throw giveUp('not-retryable');
+          }
+          if (attempt >= attempts) {
+            throw giveUp('attempts');
+          }
+        }
+
+        const delayMs = backoffDelay(attempt, options, random);
+        if (Date.now() + delayMs >= deadline) {
+          throw giveUp('deadline');
+        }
+        await pause(delayMs, controller.signal);
+      }
+    }, { attempts });
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Wait between attempts; resolves early when the signal fires
+ */
+function pause(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. SUBCLASSING BUILT-IN ERRORS:
+ *    class RetryError extends AggregateError - instanceof works, .errors keeps every cause
+ *
+ * 2. PARAMETER PROPERTIES:
+ *    constructor(readonly title: string, ...) declares and sets this.title in one go
+ *
+ * 3. ABORT SIGNALS:
+ *    controller.abort() wakes the pause and tells the action to stop
+ *
+ * 4. EXHAUSTIVE SWITCH:
+ *    switch (jitter) covers every Jitter, so the function always returns
+ *
+ * USAGE:
+ *
+ * import { retry, RetryError } from '../utils/retry';
+ *
+ * try {
+ *   await retry(() => inventoryPage.addProductToCart('Sauce Labs Backpack'), { title: 'Add to cart', attempts: 3 });
+ * } catch (error) {
+ *   if (error instanceof RetryError) console.log(error.history);
+ * }
+ */
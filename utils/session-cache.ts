@@ -0,0 +1,157 @@
+/**
+ * SESSION CACHE
+ *
+ * Logging in through the UI before every test is slow. Instead, the 'setup'
+ * project (tests/auth.setup.ts) logs in ONCE per persona and saves the session
+ * cookies to playwright/.auth/<username>.json (in Playwright's storage state format).
+ *
+ * Only cookies are kept. localStorage holds SauceDemo's cart, and every test
+ * starts with an empty cart (or seeds one with CartState), so the saved
+ * state's origins are always empty.
+ *
+ * Tests then restore that state into their own browser context, which takes
+ * milliseconds. SauceDemo sessions expire after 10 minutes, so a saved state
+ * that has expired (or no longer works) is regenerated automatically.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Reading and writing JSON files with Node's fs module
+ * - Inferring types from library return values (ReturnType / Awaited)
+ * - Narrowing with early returns
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { BrowserContext, Page } from '@playwright/test';
+import { LoginPage } from '../pages/LoginPage';
+import { InventoryPage } from '../pages/InventoryPage';
+import { getPersona } from '../utils/test-data';
+
+// TYPESCRIPT LEARNING: DERIVING A TYPE FROM A LIBRARY METHOD
+// BrowserContext.storageState() returns a Promise of the saved state object.
+// Awaited<ReturnType<...>> unwraps that Promise to get the object type itself,
+// so we don't have to re-declare Playwright's shape by hand.
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+// Where saved sessions live (already ignored by .gitignore)
+export const AUTH_DIR = path.join(__dirname, '..', 'playwright', '.auth');
+
+// SauceDemo keeps the logged-in user in this cookie
+const SESSION_COOKIE = 'session-username';
+
+// Treat a session as expired slightly early, so it can't expire mid-test
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Path of the saved storage state for a persona
+ * @param username - e.g. 'standard_user'
+ */
+export function sessionFile(username: string): string {
+  return path.join(AUTH_DIR, `${username}.json`);
+}
+
+/**
+ * Read a saved session from disk
+ * @param file - Where the session is saved (default: the persona's shared file)
+ * @returns The storage state, or undefined if it was never saved or is unreadable
+ */
+export function readSavedSession(username: string, file: string = sessionFile(username)): StorageState | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as StorageState;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a saved session has (almost) expired
+ * TYPESCRIPT: Pure function - no browser needed, easy to unit test
+ *
+ * @param state - Saved storage state
+ * @param now - Current time in ms (injectable for tests)
+ * @returns true if the session cookie is missing or expires within the safety margin
+ */
+export function isSessionExpired(state: StorageState, now: number = Date.now()): boolean {
+  const cookie = state.cookies.find(c => c.name === SESSION_COOKIE);
+
+  if (!cookie) {
+    return true;
+  }
+
+  // Playwright stores 'expires' in SECONDS since the epoch; -1 means "session cookie"
+  if (cookie.expires === -1) {
+    return false;
+  }
+
+  return cookie.expires * 1000 <= now + EXPIRY_MARGIN_MS;
+}
+
+/**
+ * Log in through the UI and save the resulting storage state
+ * This is what the setup project runs once per persona.
+ *
+ * @param page - A page in a fresh (or disposable) context
+ * @param username - Persona to log in as (must exist in users.json)
+ * @param file - Where to save the session (default: the persona's shared file)
+ */
+export async function loginAndSaveSession(page: Page, username: string, file: string = sessionFile(username)): Promise<void> {
+  const user = getPersona(username);
+
+  // Start from a clean slate so a stale cookie can't leak into the saved state
+  await page.context().clearCookies();
+
+  const loginPage = new LoginPage(page);
+  await loginPage.goto();
+  await loginPage.login(user.username, user.password);
+  await new InventoryPage(page).inventoryContainer.waitFor({ state: 'visible' });
+
+  // Keep the cookies only - localStorage (the cart) must not carry over between tests
+  const { cookies } = await page.context().storageState();
+  const state: StorageState = { cookies, origins: [] };
+
+  // Write to a temp file first, then rename: parallel workers never read a half-written file
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(state, null, 2));
+  fs.renameSync(tempFile, file);
+}
+
+/**
+ * Restore a persona's saved session into the page's context and open the inventory page
+ *
+ * Regenerates the session through the UI when:
+ * - nothing was saved yet
+ * - the saved session cookie has expired
+ * - the app still sends us back to the login page (e.g. the state was saved for another baseURL)
+ *
+ * @param page - The test's page
+ * @param username - Persona to restore
+ * @param file - Where the session is saved (default: the persona's shared file;
+ *               tests that tamper with a session pass their own, so other workers never see it)
+ */
+export async function restoreSession(page: Page, username: string, file: string = sessionFile(username)): Promise<void> {
+  const saved = readSavedSession(username, file);
+
+  if (saved && !isSessionExpired(saved)) {
+    await page.context().addCookies(saved.cookies);
+    await page.goto('/inventory.html');
+
+    const inventoryPage = new InventoryPage(page);
+    const loginPage = new LoginPage(page);
+
+    // Wait for whichever page the app decides to show, then check which one it was
+    await inventoryPage.inventoryContainer.or(loginPage.loginButton).first().waitFor();
+    if (await inventoryPage.isOnInventoryPage()) {
+      return;
+    }
+  }
+
+  await loginAndSaveSession(page, username, file);
+}
+
+/**
+ * HOW IT FITS TOGETHER:
+ *
+ * 1. playwright.config.ts defines a 'setup' project that every browser project depends on
+ * 2. tests/auth.setup.ts calls loginAndSaveSession() for each persona
+ * 3. fixtures/auth.fixture.ts exposes asUser('problem_user'), which calls restoreSession()
+ */
@@ -0,0 +1,147 @@
+/**
+ * SORT ORDER VERIFICATION
+ *
+ * Knows what each inventory sort option means, so tests don't have to
+ * re-derive it (and get ties or case wrong):
+ *
+ *   az    name A to Z
+ *   za    name Z to A
+ *   lohi  price low to high, equal prices by name A to Z
+ *   hilo  price high to low, equal prices by name A to Z
+ *
+ * The tie-break matches SauceDemo: its sort is stable and the unsorted list is
+ * alphabetical, so equal prices keep name order in BOTH price directions
+ * (e.g. the two $15.99 T-shirts).
+ *
+ * Names are compared with Intl.Collator (locale-aware), not with < and >,
+ * which order by UTF-16 code unit ('Z' < 'a', 'É' after 'z').
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Record<SortOption, ...> to guarantee one entry per union member
+ * - Discriminated unions for results (sorted: true | false)
+ * - Comparator functions
+ */
+
+import { Money } from './money';
+
+// TYPESCRIPT LEARNING: STRING LITERAL TYPES
+// Instead of just 'string', we can specify exactly which strings are allowed
+// This is called a "union type" of string literals
+// The '|' means "or" - a SortOption can be one of these specific values
+export type SortOption = 'az' | 'za' | 'lohi' | 'hilo';
+
+// Every option, for data-driven tests
+export const SORT_OPTIONS: readonly SortOption[] = ['az', 'za', 'lohi', 'hilo'];
+
+// TYPESCRIPT: Record<SortOption, string> fails to compile if an option is missing
+export const SORT_LABELS: Record<SortOption, string> = {
+  az: 'Name (A to Z)',
+  za: 'Name (Z to A)',
+  lohi: 'Price (low to high)',
+  hilo: 'Price (high to low)'
+};
+
+/**
+ * Anything with a name and a price, e.g. a ProductCardData or a Product
+ */
+export interface SortableItem {
+  name: string;
+  price: Money;
+}
+
+// TYPESCRIPT: A comparator returns < 0 if a comes first, > 0 if b comes first, 0 if equal
+type Comparator = (a: SortableItem, b: SortableItem) => number;
+
+/**
+ * The result of a check
+ * TYPESCRIPT: A discriminated union - when sorted is false, the out-of-order pair is available
+ */
+export type SortCheck<T extends SortableItem> =
+  | { sorted: true; message: string }
+  | { sorted: false; message: string; index: number; first: T; second: T };
+
+/**
+ * Check if a string is one of the sort options
+ * TYPESCRIPT: A type guard - after 'if (isSortOption(x))', x is a SortOption
+ */
+export function isSortOption(value: string): value is SortOption {
+  return (SORT_OPTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Build the comparator for a sort option
+ * @param locale - Used to collate names (default 'en-US')
+ */
+export function comparatorFor(option: SortOption, locale: string = 'en-US'): Comparator {
+  const collator = new Intl.Collator(locale);
+  const byName: Comparator = (a, b) => collator.compare(a.name, b.name);
+  const byPrice: Comparator = (a, b) => a.price.compare(b.price);
+
+  // TYPESCRIPT: Record<SortOption, Comparator> - one comparator per option, checked by the compiler
+  const comparators: Record<SortOption, Comparator> = {
+    az: byName,
+    za: (a, b) => byName(b, a),
+    lohi: (a, b) => byPrice(a, b) || byName(a, b),
+    hilo: (a, b) => byPrice(b, a) || byName(a, b)
+  };
+  return comparators[option];
+}
+
+/**
+ * The order a list should have after sorting (does not change the input)
+ */
+export function expectedSortOrder<T extends SortableItem>(items: readonly T[], option: SortOption, locale?: string): T[] {
+  return [...items].sort(comparatorFor(option, locale));
+}
+
+function describeItem(item: SortableItem): string {
+  return `"${item.name}" (${item.price.format()})`;
+}
+
+/**
+ * Check that a list is in the order a sort option promises
+ * @param items - Usually await inventoryPage.getCatalogue()
+ * @returns { sorted: true } or the FIRST pair of neighbours that is out of order
+ * @example
+ * const check = checkSortOrder(await inventoryPage.getCatalogue(), 'lohi');
+ * expect(check.sorted, check.message).toBe(true);
+ */
+export function checkSortOrder<T extends SortableItem>(items: readonly T[], option: SortOption, locale?: string): SortCheck<T> {
+  const compare = comparatorFor(option, locale);
+
+  for (let i = 0; i < items.length - 1; i++) {
+    const first = items[i];
+    const second = items[i + 1];
+    if (compare(first, second) > 0) {
+      return {
+        sorted: false,
+        index: i,
+        first,
+        second,
+        message: `Not sorted by ${SORT_LABELS[option]}: item ${i + 1} ${describeItem(first)} ` +
+          `comes before item ${i + 2} ${describeItem(second)}`
+      };
+    }
+  }
+
+  return { sorted: true, message: `Sorted by ${SORT_LABELS[option]}` };
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. EXHAUSTIVE RECORDS:
+ *    Record<SortOption, Comparator> - adding a fifth option won't compile until it has a comparator
+ *
+ * 2. DISCRIMINATED UNIONS:
+ *    if (!check.sorted) { check.first; check.second } - only there when sorted is false
+ *
+ * 3. TYPE GUARDS:
+ *    isSortOption(value): value is SortOption
+ *
+ * 4. GENERIC CONSTRAINTS:
+ *    <T extends SortableItem> - any object with name and price, returned with its own type
+ *
+ * 5. SHORT-CIRCUIT TIE-BREAKS:
+ *    byPrice(a, b) || byName(a, b) - the name decides only when prices are equal (0)
+ */
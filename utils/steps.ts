@@ -0,0 +1,228 @@
+/**
+ * TEST STEPS AND THE STEP LOG
+ *
+ * step() is test.step() with bookkeeping:
+ *
+ *   await step('Add to cart', async () => { ... }, { product: 'Sauce Labs Backpack' });
+ *
+ * - It shows up in the HTML report's step tree and in traces, as
+ *   "Add to cart (product: Sauce Labs Backpack)"
+ * - Steps called inside a step nest under it, also across page objects
+ * - Parameters named like a secret (password, token, ...) are masked, and so
+ *   is every registered secret (utils/redaction.ts)
+ * - Every step is written to the test's step log with its parent steps,
+ *   start time, duration and result. The stepLog fixture attaches the log to
+ *   the report as steps.jsonl - one JSON object per line.
+ *
+ * Page objects report their main actions (login, addProductToCart, the
+ * checkout transitions) through step(), so tests get a readable step tree
+ * without writing any steps themselves.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Generic async wrappers (step<T> returns whatever the body returns)
+ * - Discriminated unions for log entries
+ * - AsyncLocalStorage to know the current parent step
+ */
+
+import { test } from '@playwright/test';
+import { AsyncLocalStorage } from 'async_hooks';
+import { REDACTED, redact } from './redaction';
+
+// Key parameters of a step: shown in its title and kept in the log
+export type StepParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * One line of the step log
+ * TYPESCRIPT: A discriminated union - 'type' says which fields are there
+ */
+export type StepLogEntry =
+  | {
+      type: 'step';
+      title: string;
+      // Titles of the enclosing steps, outermost first
+      parents: string[];
+      params: StepParams;
+      // Milliseconds since the test started
+      startMs: number;
+      durationMs: number;
+      status: 'passed' | 'failed' | 'running';
+      error?: string;
+    }
+  | {
+      type: 'log';
+      message: string;
+      parents: string[];
+      startMs: number;
+    };
+
+// Parameter names whose values are always masked
+const SECRET_PARAM = /pass(word)?|secret|token|credential|api[-_]?key/i;
+
+/**
+ * Whether a parameter (or property) name says its value is a secret
+ * @example isSecretName('password') // true
+ */
+export function isSecretName(name: string): boolean {
+  return SECRET_PARAM.test(name);
+}
+
+/**
+ * Mask secret parameters (by name, and any registered secret by value)
+ * @example redactParams({ username: 'standard_user', password: 'secret_sauce' })
+ *          // { username: 'standard_user', password: '*****' }
+ */
+export function redactParams(params: StepParams): StepParams {
+  const result: StepParams = {};
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) {
+      continue;
+    }
+    result[name] = isSecretName(name) ? REDACTED
+      : typeof value === 'string' ? redact(value)
+      : value;
+  }
+  return result;
+}
+
+/**
+ * The title shown in the report, e.g. "Log in (username: standard_user, password: *****)"
+ * @param params - Already redacted
+ */
+export function formatStepTitle(title: string, params: StepParams): string {
+  const shown = Object.entries(params).map(([name, value]) => `${name}: ${value}`);
+  return redact(shown.length === 0 ? title : `${title} (${shown.join(', ')})`);
+}
+
+/**
+ * The steps and log lines of one test
+ */
+export class StepLog {
+  readonly entries: StepLogEntry[] = [];
+  private readonly startedAt = Date.now();
+
+  /**
+   * Milliseconds since the log was created (the start of the test)
+   */
+  elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  /**
+   * The log as JSON Lines - one entry per line, in the order the steps started
+   */
+  toJsonl(): string {
+    return this.entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+  }
+}
+
+// The running test's log, set by the stepLog fixture
+let current: StepLog | undefined;
+
+/**
+ * Make a log the current test's (the stepLog fixture calls this; pass undefined after the test)
+ */
+export function setCurrentStepLog(log: StepLog | undefined): void {
+  current = log;
+}
+
+/**
+ * The running test's log (undefined outside a test that uses fixtures/auth.fixture)
+ */
+export function currentStepLog(): StepLog | undefined {
+  return current;
+}
+
+// TYPESCRIPT: AsyncLocalStorage carries a value through every await inside run(),
+// so a step knows its parents even when steps run in parallel (Promise.all)
+const parentSteps = new AsyncLocalStorage<string[]>();
+
+/**
+ * Run a body as a named test step
+ *
+ * @param title - What the step does, e.g. 'Log in'
+ * @param body - The step's work; its result is returned
+ * @param params - Key parameters for the title and the log (secrets are masked)
+ * @returns Whatever body returns
+ * @throws Whatever body throws (the step is logged as failed first)
+ * @example
+ * const overview = await step('Complete checkout information', () => informationStep.completeCheckoutInfo(info));
+ */
+export async function step<T>(title: string, body: () => Promise<T>, params: StepParams = {}): Promise<T> {
+  const safeParams = redactParams(params);
+  const parents = parentSteps.getStore() ?? [];
+  const nested = () => parentSteps.run([...parents, redact(title)], body);
+
+  // test.step() needs a running test; outside one (e.g. a script), just run the body
+  if (!isInsideTest()) {
+    return await nested();
+  }
+
+  const log = current;
+  const entry: StepLogEntry = {
+    type: 'step',
+    title: redact(title),
+    parents,
+    params: safeParams,
+    startMs: log?.elapsed() ?? 0,
+    durationMs: 0,
+    status: 'running'
+  };
+  log?.entries.push(entry);
+
+  try {
+    const result = await test.step(formatStepTitle(title, safeParams), nested);
+    entry.status = 'passed';
+    return result;
+  } catch (error) {
+    entry.status = 'failed';
+    entry.error = redact((error as Error).message ?? String(error));
+    throw error;
+  } finally {
+    entry.durationMs = (log?.elapsed() ?? 0) - entry.startMs;
+  }
+}
+
+/**
+ * Write a line to the console and the step log (under the current step, if any)
+ * @example logMessage(`Cart holds ${count} items`);
+ */
+export function logMessage(message: string): void {
+  const safe = redact(message);
+  const parents = parentSteps.getStore() ?? [];
+  current?.entries.push({ type: 'log', message: safe, parents, startMs: current.elapsed() });
+  console.log(parents.length > 0 ? `[${parents.join(' > ')}] ${safe}` : safe);
+}
+
+function isInsideTest(): boolean {
+  try {
+    test.info();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. GENERIC WRAPPERS:
+ *    step<T>(title, body: () => Promise<T>): Promise<T> - the step returns the body's result
+ *
+ * 2. DISCRIMINATED UNIONS:
+ *    StepLogEntry is { type: 'step', ... } | { type: 'log', ... }
+ *
+ * 3. TRY / CATCH / FINALLY:
+ *    The duration is recorded whether the body passed or threw
+ *
+ * 4. ASYNC CONTEXT:
+ *    parentSteps.run([...parents, title], body) - every await inside body sees the new parents
+ *
+ * USAGE:
+ *
+ * import { step } from '../utils/steps';
+ *
+ * await step('Fill in the form', async () => {
+ *   await step('Name', () => informationStep.firstNameInput.fill('John'));
+ *   await step('Postal code', () => informationStep.postalCodeInput.fill('12345'));
+ * }, { persona: 'standard_user' });
+ */
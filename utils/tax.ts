@@ -0,0 +1,199 @@
+/**
+ * TAX RULES
+ *
+ * CheckoutOverviewStep.verifyTotal() only checks total = subtotal + tax with whatever
+ * tax the page shows. To know the tax itself is right we need our own model:
+ * a TaxCalculator that turns an item total into a tax amount.
+ *
+ * The default is SauceDemo's: 8% of the item total, rounded half-up to whole
+ * cents. A profile can set its own rule (EnvironmentProfile.tax), and
+ * SAUCE_TAX_RATE overrides the rate - see environments/index.ts.
+ *
+ * checkOverviewTotals() recomputes the checkout overview from its line items
+ * and reports every wrong amount separately, naming the rounding mode used.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Interfaces as plug-in points (any object with taxOn() is a calculator)
+ * - Factory functions that return interface implementations
+ * - Exhaustive switch over a string literal union
+ */
+
+import { activeProfile, EnvironmentProfile, ProfileTaxRule, RoundingMode } from '../environments';
+import { Money } from './money';
+
+// SauceDemo charges 8% and rounds with Math.round() (half-up for positive amounts)
+export const SAUCEDEMO_TAX_RULE: ProfileTaxRule = { rate: 0.08, rounding: 'half-up' };
+
+/**
+ * Anything that can work out the tax on an item total
+ * TYPESCRIPT: Tests can plug in their own object - it only needs these members
+ */
+export interface TaxCalculator {
+  // For messages, e.g. "8% tax, rounded half-up"
+  readonly description: string;
+  readonly rounding: RoundingMode;
+  taxOn(itemTotal: Money): Money;
+}
+
+// Products of cents and a rate carry float noise (2999 * 0.08 = 239.92000000000002);
+// anything this close to a boundary counts as on it
+const EPSILON = 1e-9;
+
+/**
+ * Round a fractional number of cents to whole cents
+ * TYPESCRIPT: switch over every RoundingMode - a new mode won't compile until it is handled here
+ */
+export function roundCents(exact: number, mode: RoundingMode): number {
+  switch (mode) {
+    case 'floor':
+      return Math.floor(exact + EPSILON);
+    case 'ceil':
+      return Math.ceil(exact - EPSILON);
+    case 'half-up':
+      return Math.floor(exact + 0.5 + EPSILON);
+    case 'half-even': {
+      const below = Math.floor(exact);
+      const isHalf = Math.abs(exact - below - 0.5) < EPSILON;
+      if (!isHalf) {
+        return Math.round(exact);
+      }
+      // Exactly half a cent: go to the even neighbour (banker's rounding)
+      return below % 2 === 0 ? below : below + 1;
+    }
+  }
+}
+
+/**
+ * A calculator for a percentage rule
+ * @example percentageTax({ rate: 0.08, rounding: 'half-up' }).taxOn(Money.parse('$29.99')) // $2.40
+ */
+export function percentageTax(rule: ProfileTaxRule): TaxCalculator {
+  if (!Number.isFinite(rule.rate) || rule.rate < 0) {
+    throw new Error(`Tax rate must be a non-negative fraction (0.08 for 8%), got ${rule.rate}`);
+  }
+
+  // toFixed + Number drops float noise: 0.0725 * 100 prints as 7.25, not 7.249999999999999
+  const percent = Number((rule.rate * 100).toFixed(4));
+
+  return {
+    description: `${percent}% tax, rounded ${rule.rounding}`,
+    rounding: rule.rounding,
+    taxOn: itemTotal => Money.fromCents(roundCents(itemTotal.cents * rule.rate, rule.rounding))
+  };
+}
+
+/**
+ * The calculator for a profile (SauceDemo's 8% unless the profile sets its own rule)
+ * @param profile - Defaults to the profile this run uses
+ */
+export function taxCalculatorFor(profile: EnvironmentProfile = activeProfile): TaxCalculator {
+  return percentageTax(profile.tax ?? SAUCEDEMO_TAX_RULE);
+}
+
+// ============================================
+// CHECKOUT OVERVIEW VERIFICATION
+// ============================================
+
+/**
+ * One line on the overview: what it costs and how many
+ */
+export interface PricedLine {
+  price: Money;
+  quantity: number;
+}
+
+/**
+ * What the overview page shows
+ */
+export interface OverviewAmounts {
+  lines: readonly PricedLine[];
+  subtotal: Money;
+  tax: Money;
+  total: Money;
+}
+
+export type OverviewField = 'subtotal' | 'tax' | 'total';
+
+export interface OverviewMismatch {
+  field: OverviewField;
+  expected: Money;
+  actual: Money;
+  message: string;
+}
+
+export interface OverviewCheck {
+  ok: boolean;
+  rounding: RoundingMode;
+  // What the overview should show, recomputed from its lines
+  expected: Record<OverviewField, Money>;
+  // One entry per wrong amount (empty when ok)
+  mismatches: OverviewMismatch[];
+  message: string;
+}
+
+/**
+ * Recompute the overview from its line items and compare every amount
+ * TYPESCRIPT: Pure function - the page reads the amounts, this does the maths
+ *
+ * @param shown - The amounts read from the overview page
+ * @param calculator - The tax rule (defaults to the active profile's)
+ * @returns Every mismatch, each with its own message
+ * @example
+ * const check = checkOverviewTotals(shown);
+ * expect(check.ok, check.message).toBe(true);
+ */
+export function checkOverviewTotals(shown: OverviewAmounts, calculator: TaxCalculator = taxCalculatorFor()): OverviewCheck {
+  const subtotal = Money.sum(shown.lines.map(line => line.price.times(line.quantity)));
+  const tax = calculator.taxOn(subtotal);
+  const expected: Record<OverviewField, Money> = { subtotal, tax, total: subtotal.plus(tax) };
+
+  const reasons: Record<OverviewField, string> = {
+    subtotal: `sum of ${shown.lines.length} line(s)`,
+    tax: `${calculator.description}, on ${subtotal.format()}`,
+    total: `${subtotal.format()} + ${tax.format()}`
+  };
+
+  const mismatches: OverviewMismatch[] = [];
+  // TYPESCRIPT: 'as const' keeps the array typed as OverviewField[] rather than string[]
+  for (const field of ['subtotal', 'tax', 'total'] as const) {
+    if (!shown[field].equals(expected[field])) {
+      mismatches.push({
+        field,
+        expected: expected[field],
+        actual: shown[field],
+        message: `${field}: expected ${expected[field].format()} (${reasons[field]}), but the page shows ${shown[field].format()}`
+      });
+    }
+  }
+
+  const message = mismatches.length === 0
+    ? `Checkout overview is correct (${calculator.description})`
+    : `Checkout overview has ${mismatches.length} wrong amount(s) (${calculator.description}):\n  ` +
+      mismatches.map(m => m.message).join('\n  ');
+
+  return { ok: mismatches.length === 0, rounding: calculator.rounding, expected, mismatches, message };
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. INTERFACES AS PLUG-IN POINTS:
+ *    Any { description, rounding, taxOn() } object is a TaxCalculator
+ *
+ * 2. FACTORY FUNCTIONS:
+ *    percentageTax(rule) returns an object literal that implements TaxCalculator
+ *
+ * 3. EXHAUSTIVE SWITCH:
+ *    roundCents() handles every RoundingMode; the compiler knows every path returns
+ *
+ * 4. RECORD OVER A UNION:
+ *    Record<OverviewField, Money> has exactly subtotal, tax and total
+ *
+ * USAGE:
+ *
+ * const check = await overviewStep.verifyOverview();
+ * expect(check.ok, check.message).toBe(true);
+ *
+ * // A different rule, e.g. for a deployment with 7.25% tax
+ * await overviewStep.verifyOverview(percentageTax({ rate: 0.0725, rounding: 'half-even' }));
+ */
@@ -0,0 +1,406 @@
+/**
+ * TEST DATA REGISTRY
+ *
+ * Typed access to test-data/users.json and test-data/products.json.
+ *
+ * Specs used to import the JSON files directly and reach in with indexes
+ * (users.validUsers[0]) or non-null assertions (problemUser!). If the data
+ * changed, tests failed far away from the cause with "cannot read property
+ * of undefined". This module instead:
+ * - validates both files against a schema as soon as it is imported
+ * - offers lookups by username, product id and capability tag
+ * - throws an error that names the missing data and what IS available
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Validating `unknown` data before trusting it
+ * - String literal union types (PersonaTag)
+ * - `as const` arrays as the single source of truth for a union
+ * - Readonly arrays and objects
+ */
+
+import usersJson from '../test-data/users.json';
+import productsJson from '../test-data/products.json';
+import { resolvePassword } from './credentials';
+import { Money } from './money';
+
+// TYPESCRIPT LEARNING: `as const` ARRAY -> UNION TYPE
+// The array is used at runtime (to validate the JSON) AND at compile time:
+// typeof PERSONA_TAGS[number] is 'can-checkout' | 'locked' | ...
+export const PERSONA_TAGS = [
+  'can-checkout',         // Can complete a checkout end to end
+  'locked',               // Login is refused
+  'invalid',              // Credentials that don't exist
+  'slow',                 // Pages respond with extra latency
+  'broken-images',        // Product images are wrong
+  'broken-sort',          // Sorting does not work
+  'broken-cart-buttons',  // Some "Add to cart" buttons do nothing
+  'visual-defects'        // Prices and layout are visually wrong
+] as const;
+
+export type PersonaTag = typeof PERSONA_TAGS[number];
+
+/**
+ * A SauceDemo user account and what it can do
+ * The password is resolved on first use through utils/credentials.ts
+ */
+export interface Persona {
+  readonly username: string;
+  readonly password: string;
+  readonly description: string;
+  readonly tags: readonly PersonaTag[];
+}
+
+/**
+ * A product as listed in products.json
+ * id is our own stable key (e.g. 'sauce-labs-backpack'); name is what the UI shows;
+ * itemId is SauceDemo's numeric id, used in URLs and the localStorage cart
+ */
+export interface Product {
+  readonly id: string;
+  readonly itemId: number;
+  readonly name: string;
+  readonly price: Money;
+  readonly description: string;
+}
+
+// A user as stored in users.json: real accounts have no password there
+// TYPESCRIPT: Omit<> removes a property, '&' adds an optional one back
+type PersonaEntry = Omit<Persona, 'password'> & { password?: string };
+
+// Shapes of the two JSON files after validation
+interface UsersData {
+  validUsers: PersonaEntry[];
+  lockedOutUser: PersonaEntry;
+  invalidUser: PersonaEntry;
+}
+
+// A product as stored in products.json: the price is a plain dollar number there
+type ProductEntry = Omit<Product, 'price'> & { price: number };
+
+interface ProductsData {
+  products: ProductEntry[];
+}
+
+// ============================================
+// SCHEMA VALIDATION
+// ============================================
+
+// TYPESCRIPT: A type guard - when it returns true, TypeScript treats value as an object
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPersonaTag(value: unknown): value is PersonaTag {
+  return PERSONA_TAGS.includes(value as PersonaTag);
+}
+
+/**
+ * Check that a field is a non-empty string, recording a problem if not
+ * @param problems - List that collects every problem found (we report all of them at once)
+ */
+function checkString(record: Record<string, unknown>, field: string, where: string, problems: string[]): void {
+  const value = record[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    problems.push(`${where}.${field}: expected a non-empty string, got ${JSON.stringify(value)}`);
+  }
+}
+
+/**
+ * @param passwordAllowed - Only the deliberately invalid user may keep a password in users.json;
+ *                          real accounts get theirs from a credential provider
+ */
+function checkPersona(value: unknown, where: string, problems: string[], passwordAllowed: boolean = false): void {
+  if (!isRecord(value)) {
+    problems.push(`${where}: expected a user object, got ${JSON.stringify(value)}`);
+    return;
+  }
+
+  checkString(value, 'username', where, problems);
+  checkString(value, 'description', where, problems);
+
+  if (passwordAllowed) {
+    checkString(value, 'password', where, problems);
+  } else if ('password' in value) {
+    problems.push(`${where}.password: passwords must come from a credential provider (utils/credentials.ts), not users.json`);
+  }
+
+  if (!Array.isArray(value.tags)) {
+    problems.push(`${where}.tags: expected an array of tags, got ${JSON.stringify(value.tags)}`);
+    return;
+  }
+
+  value.tags.forEach((tag, i) => {
+    if (!isPersonaTag(tag)) {
+      problems.push(`${where}.tags[${i}]: unknown tag ${JSON.stringify(tag)} (expected one of: ${PERSONA_TAGS.join(', ')})`);
+    }
+  });
+}
+
+function checkProduct(value: unknown, where: string, problems: string[]): void {
+  if (!isRecord(value)) {
+    problems.push(`${where}: expected a product object, got ${JSON.stringify(value)}`);
+    return;
+  }
+
+  checkString(value, 'name', where, problems);
+  checkString(value, 'description', where, problems);
+
+  if (typeof value.id !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(value.id)) {
+    problems.push(`${where}.id: expected a lowercase-hyphenated id, got ${JSON.stringify(value.id)}`);
+  }
+
+  if (typeof value.itemId !== 'number' || !Number.isInteger(value.itemId) || value.itemId < 0) {
+    problems.push(`${where}.itemId: expected a non-negative whole number, got ${JSON.stringify(value.itemId)}`);
+  }
+
+  // Prices are dollars with at most two decimal places - Money.fromDollars decides,
+  // so float noise (19.99 * 100 = 1998.9999999999998) isn't mistaken for a third decimal
+  const price = value.price;
+  if (typeof price !== 'number' || price <= 0 || !isDollarAmount(price)) {
+    problems.push(`${where}.price: expected a positive amount with at most 2 decimals, got ${JSON.stringify(price)}`);
+  }
+}
+
+/**
+ * Whether Money.fromDollars() accepts an amount
+ */
+function isDollarAmount(dollars: number): boolean {
+  try {
+    Money.fromDollars(dollars);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Record every value that appears more than once
+ */
+function checkUnique(values: unknown[], what: string, problems: string[]): void {
+  const seen = new Set<unknown>();
+  for (const value of values) {
+    if (seen.has(value)) {
+      problems.push(`duplicate ${what} ${JSON.stringify(value)}`);
+    }
+    seen.add(value);
+  }
+}
+
+/**
+ * Build one error that lists every problem found in a data file
+ */
+function invalidData(file: string, problems: string[]): Error {
+  return new Error(`Invalid test data in ${file}:\n  - ${problems.join('\n  - ')}`);
+}
+
+/**
+ * Validate the contents of users.json
+ * TYPESCRIPT: Takes `unknown` - we prove the shape before returning a typed value
+ *
+ * @param raw - Parsed JSON
+ * @param file - File name used in error messages
+ * @throws Error listing every problem found
+ */
+export function validateUsersData(raw: unknown, file: string = 'test-data/users.json'): UsersData {
+  const problems: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw invalidData(file, ['expected an object with validUsers, lockedOutUser and invalidUser']);
+  }
+
+  if (!Array.isArray(raw.validUsers) || raw.validUsers.length === 0) {
+    problems.push('validUsers: expected a non-empty array');
+  } else {
+    raw.validUsers.forEach((user, i) => checkPersona(user, `validUsers[${i}]`, problems));
+  }
+  checkPersona(raw.lockedOutUser, 'lockedOutUser', problems);
+  checkPersona(raw.invalidUser, 'invalidUser', problems, true);
+
+  if (problems.length > 0) {
+    throw invalidData(file, problems);
+  }
+
+  const data = raw as unknown as UsersData;
+  checkUnique(
+    [...data.validUsers, data.lockedOutUser, data.invalidUser].map(user => user.username),
+    'username', problems
+  );
+  if (problems.length > 0) {
+    throw invalidData(file, problems);
+  }
+
+  return data;
+}
+
+/**
+ * Validate the contents of products.json
+ *
+ * @param raw - Parsed JSON
+ * @param file - File name used in error messages
+ * @throws Error listing every problem found
+ */
+export function validateProductsData(raw: unknown, file: string = 'test-data/products.json'): ProductsData {
+  const problems: string[] = [];
+
+  if (!isRecord(raw) || !Array.isArray(raw.products) || raw.products.length === 0) {
+    throw invalidData(file, ['products: expected a non-empty array']);
+  }
+
+  raw.products.forEach((product, i) => checkProduct(product, `products[${i}]`, problems));
+  if (problems.length > 0) {
+    throw invalidData(file, problems);
+  }
+
+  const data = raw as unknown as ProductsData;
+  checkUnique(data.products.map(p => p.id), 'product id', problems);
+  checkUnique(data.products.map(p => p.itemId), 'product itemId', problems);
+  checkUnique(data.products.map(p => p.name), 'product name', problems);
+  if (problems.length > 0) {
+    throw invalidData(file, problems);
+  }
+
+  return data;
+}
+
+// Validate once, when the suite loads - a broken data file fails every spec immediately
+const usersData = validateUsersData(usersJson);
+const productsData = validateProductsData(productsJson);
+
+// ============================================
+// PERSONAS
+// ============================================
+
+/**
+ * Turn a users.json entry into a Persona whose password is resolved on first use
+ * TYPESCRIPT: A getter - `persona.password` runs this code each time it is read,
+ * so a missing secret only fails the tests that actually log in
+ */
+function toPersona(entry: PersonaEntry): Persona {
+  return {
+    username: entry.username,
+    description: entry.description,
+    tags: entry.tags,
+    get password(): string {
+      return entry.password ?? resolvePassword(entry.username);
+    }
+  };
+}
+
+const loginPersonas: readonly Persona[] = usersData.validUsers.map(toPersona);
+
+/**
+ * Every persona: valid, locked and invalid
+ */
+export const personas: readonly Persona[] = [
+  ...loginPersonas,
+  toPersona(usersData.lockedOutUser),
+  toPersona(usersData.invalidUser)
+];
+
+/**
+ * Personas that can log in (the validUsers list)
+ */
+export function validPersonas(): readonly Persona[] {
+  return loginPersonas;
+}
+
+/**
+ * Look up a persona by username
+ * @throws Error naming the known usernames if there is no match
+ */
+export function getPersona(username: string): Persona {
+  const persona = personas.find(p => p.username === username);
+  if (!persona) {
+    throw new Error(
+      `No persona "${username}" in test-data/users.json. Known usernames: ${personas.map(p => p.username).join(', ')}`
+    );
+  }
+  return persona;
+}
+
+/**
+ * All personas carrying a capability tag
+ * @example personasWith('can-checkout')
+ */
+export function personasWith(tag: PersonaTag): Persona[] {
+  return personas.filter(p => p.tags.includes(tag));
+}
+
+/**
+ * The first persona carrying a capability tag
+ * @throws Error if no persona has the tag
+ */
+export function personaWith(tag: PersonaTag): Persona {
+  const [persona] = personasWith(tag);
+  if (!persona) {
+    throw new Error(`No persona in test-data/users.json is tagged "${tag}"`);
+  }
+  return persona;
+}
+
+// ============================================
+// PRODUCTS
+// ============================================
+
+/**
+ * Every product, in the order the inventory page lists them by default
+ * TYPESCRIPT: map() turns each JSON dollar price into Money once, at load time
+ */
+export const products: readonly Product[] = productsData.products.map(entry => ({
+  ...entry,
+  price: Money.fromDollars(entry.price)
+}));
+
+/**
+ * Look up a product by its products.json id
+ * @throws Error naming the known ids if there is no match
+ */
+export function getProduct(id: string): Product {
+  const product = products.find(p => p.id === id);
+  if (!product) {
+    throw new Error(
+      `No product "${id}" in test-data/products.json. Known ids: ${products.map(p => p.id).join(', ')}`
+    );
+  }
+  return product;
+}
+
+/**
+ * Look up a product by SauceDemo's numeric item id (as used in the cart and URLs)
+ * @throws Error naming the known item ids if there is no match
+ */
+export function getProductByItemId(itemId: number): Product {
+  const product = products.find(p => p.itemId === itemId);
+  if (!product) {
+    throw new Error(
+      `No product with itemId ${itemId} in test-data/products.json. Known item ids: ${products.map(p => p.itemId).join(', ')}`
+    );
+  }
+  return product;
+}
+
+/**
+ * Look up a product by its display name
+ * @throws Error naming the known names if there is no match
+ */
+export function getProductByName(name: string): Product {
+  const product = products.find(p => p.name === name);
+  if (!product) {
+    throw new Error(
+      `No product named "${name}" in test-data/products.json. Known names: ${products.map(p => p.name).join(', ')}`
+    );
+  }
+  return product;
+}
+
+/**
+ * USAGE EXAMPLES:
+ *
+ * import { getPersona, personaWith, getProduct, products } from '../utils/test-data';
+ *
+ * const user = getPersona('standard_user');
+ * const locked = personaWith('locked');
+ * const buyers = personasWith('can-checkout');
+ * const backpack = getProduct('sauce-labs-backpack');
+ * const firstThree = products.slice(0, 3);
+ */
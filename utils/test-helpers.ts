@@ -13,7 +13,11 @@
 
 import { Page, expect } from '@playwright/test';
 import { LoginPage } from '../pages/LoginPage';
-import users from '../test-data/users.json';
+import { getPersona } from '../utils/test-data';
+import { logMessage } from './steps';
+import { Money } from './money';
+import { SeededRandom, currentRandom } from './random';
+import { retry } from './retry';
 
 // TYPESCRIPT LEARNING: FUNCTION TYPE DEFINITIONS
 // We can define types for function parameters and return values
@@ -24,40 +28,34 @@ import users from '../test-data/users.json';
  * 
  * @param page - Playwright Page object
  * @param username - Optional username (defaults to standard_user)
- * @param password - Optional password (defaults to secret_sauce)
+ * @param password - Optional password (defaults to standard_user's, from the credential provider)
  */
 export async function loginAsStandardUser(
   page: Page,
-  username: string = users.validUsers[0].username,
-  password: string = users.validUsers[0].password
+  username: string = getPersona('standard_user').username,
+  password: string = getPersona('standard_user').password
 ): Promise<void> {
   const loginPage = new LoginPage(page);
   await loginPage.goto();
   await loginPage.login(username, password);
 }
 
-/**
- * Wait for a specific amount of time
- * TYPESCRIPT: Function with default parameter
- * 
- * @param ms - Milliseconds to wait (default: 1000)
- */
-export async function wait(ms: number = 1000): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 /**
  * Generate random string
  * TYPESCRIPT: Function returning string
  * 
+ * The random helpers below default to the current test's seeded generator
+ * (see utils/random.ts), so a failing test can be replayed with SAUCE_SEED.
+ * 
  * @param length - Length of random string
+ * @param random - Generator to use (default: the current test's)
  * @returns Random alphanumeric string
  */
-export function randomString(length: number = 10): string {
+export function randomString(length: number = 10, random: SeededRandom = currentRandom()): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
   let result = '';
   for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+    result += chars.charAt(random.int(0, chars.length - 1));
   }
   return result;
 }
@@ -90,33 +88,20 @@ export async function takeTimestampedScreenshot(
 
 /**
  * Retry an action until it succeeds or max attempts reached
- * TYPESCRIPT: Generic function with callback
+ * TYPESCRIPT: Shorthand for retry() with a fixed delay (see utils/retry.ts)
+ * For backoff, retryIf, a deadline or an AbortSignal, call retry() directly.
  * 
  * @param action - Async function to retry
  * @param maxAttempts - Maximum number of attempts (default: 3)
  * @param delayMs - Delay between attempts in ms (default: 1000)
+ * @throws RetryError with the error of every attempt
  */
 export async function retryAction<T>(
   action: () => Promise<T>,
   maxAttempts: number = 3,
   delayMs: number = 1000
 ): Promise<T> {
-  let lastError: Error | undefined;
-  
-  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-    try {
-      return await action();
-    } catch (error) {
-      lastError = error as Error;
-      if (attempt < maxAttempts) {
-        await wait(delayMs);
-      }
-    }
-  }
-  
-  throw new Error(
-    `Action failed after ${maxAttempts} attempts. Last error: ${lastError?.message}`
-  );
+  return await retry(action, { attempts: maxAttempts, initialDelayMs: delayMs, factor: 1, jitter: 'none' });
 }
 
 /**
@@ -144,25 +129,26 @@ export function getTimestamp(): string {
 }
 
 /**
- * Format price from number to string
- * TYPESCRIPT: Number to string conversion
+ * Format a price the way the app shows it
+ * TYPESCRIPT: Shorthand for price.format() (see utils/money.ts)
  * 
- * @param price - Price as number
+ * @param price - Price as Money
  * @returns Formatted price string (e.g., "$29.99")
  */
-export function formatPrice(price: number): string {
-  return `$${price.toFixed(2)}`;
+export function formatPrice(price: Money): string {
+  return price.format();
 }
 
 /**
- * Parse price from string to number
- * TYPESCRIPT: String to number conversion
+ * Parse a price string into Money
+ * TYPESCRIPT: Shorthand for Money.parse() (see utils/money.ts)
  * 
  * @param priceString - Price string (e.g., "$29.99")
- * @returns Price as number
+ * @returns Price as Money
+ * @throws Error if the string isn't a well-formed price
  */
-export function parsePrice(priceString: string): number {
-  return parseFloat(priceString.replace('$', ''));
+export function parsePrice(priceString: string): Money {
+  return Money.parse(priceString);
 }
 
 /**
@@ -216,10 +202,12 @@ export function isSortedDescending<T>(arr: T[]): boolean {
  * TYPESCRIPT: Generic function returning array item
  * 
  * @param arr - Array to pick from
+ * @param random - Generator to use (default: the current test's)
  * @returns Random item from array
+ * @throws Error if the array is empty
  */
-export function randomItem<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
+export function randomItem<T>(arr: readonly T[], random: SeededRandom = currentRandom()): T {
+  return random.pick(arr);
 }
 
 /**
@@ -228,11 +216,11 @@ export function randomItem<T>(arr: T[]): T {
  * 
  * @param arr - Array to pick from
  * @param count - Number of items to pick
- * @returns Array of random items
+ * @param random - Generator to use (default: the current test's)
+ * @returns Array of different random items, in random order (every order equally likely)
  */
-export function randomItems<T>(arr: T[], count: number): T[] {
-  const shuffled = [...arr].sort(() => 0.5 - Math.random());
-  return shuffled.slice(0, count);
+export function randomItems<T>(arr: readonly T[], count: number, random: SeededRandom = currentRandom()): T[] {
+  return random.sample(arr, count);
 }
 
 /**
@@ -252,25 +240,15 @@ export function chunkArray<T>(arr: T[], size: number): T[][] {
 }
 
 /**
- * Sleep for random duration
- * TYPESCRIPT: Function with min/max range
+ * Log a timestamped message to the console and the test's step log
+ * TYPESCRIPT: Shorthand for logMessage() (see utils/steps.ts) with a getTimestamp() prefix
+ * To show an action in the report's step tree, wrap it in step() instead.
  * 
- * @param minMs - Minimum milliseconds
- * @param maxMs - Maximum milliseconds
+ * @param message - What happened
  */
-export async function randomWait(minMs: number, maxMs: number): Promise<void> {
-  const ms = Math.floor(Math.random() * (maxMs - minMs + 1)) + minMs;
-  await wait(ms);
-}
-
-/**
- * Log test step with timestamp
- * TYPESCRIPT: Console logging helper
- * 
- * @param step - Step description
- */
-export function logStep(step: string): void {
-  console.log(`[${getTimestamp()}] ${step}`);
+export function logStep(message: string): void {
+  // Passwords never reach the console or the log (see utils/redaction.ts)
+  logMessage(`[${getTimestamp()}] ${message}`);
 }
 
 /**
@@ -291,20 +269,6 @@ export function assertCount(
   }
 }
 
-/**
- * Create test data object
- * TYPESCRIPT: Object factory function
- * 
- * @returns Test checkout info object
- */
-export function createCheckoutInfo() {
-  return {
-    firstName: `Test${randomString(5)}`,
-    lastName: `User${randomString(5)}`,
-    postalCode: Math.floor(10000 + Math.random() * 90000).toString()
-  };
-}
-
 /**
  * TYPESCRIPT CONCEPTS DEMONSTRATED:
  * 
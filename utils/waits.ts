@@ -0,0 +1,270 @@
+/**
+ * WAITING FOR CONDITIONS
+ *
+ * A fixed sleep ("wait 500ms, the menu should be open by then") is too long
+ * on a fast machine and too short on a slow one. These helpers wait for the
+ * thing the test actually needs, and fail with a message saying which thing
+ * never happened:
+ *
+ *   await waitUntil(async () => (await cartPage.getCartItemCount()) > 0, { message: 'the cart fills' });
+ *   await waitForLocator(checkoutButton, 'enabled');
+ *   await waitForAnimations(sideMenu.menu);
+ *   await waitForStableDom(page.locator('.inventory_list'));
+ *   await waitForNetworkIdle(page, /\/api\//, async () => { await page.reload(); });
+ *
+ * Everything is built on expect.poll() or Playwright's own locator waits, so
+ * timeouts default to the expect timeout from playwright.config.ts.
+ *
+ * Fixed sleeps are not allowed in specs or page objects: tests/no-fixed-sleeps.spec.ts
+ * fails when one appears.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Union types for states, narrowed by a switch
+ * - Callback parameters (conditions, route matchers)
+ * - A class that subscribes to page events and cleans up after itself
+ */
+
+import { expect, Locator, Page, Request } from '@playwright/test';
+
+export interface WaitOptions {
+  // Give up after this many ms (default: the expect timeout)
+  timeout?: number;
+  // What is being waited for, shown when the wait times out
+  message?: string;
+}
+
+export interface QuietOptions extends WaitOptions {
+  // How long nothing may change before it counts as settled (ms)
+  quietMs?: number;
+}
+
+// What a locator can be waited for
+// TYPESCRIPT: The first four are Playwright's own waitFor() states
+export type LocatorState = 'attached' | 'detached' | 'visible' | 'hidden' | 'enabled' | 'disabled' | 'stable';
+
+// Which requests count: a URL substring, a RegExp, or a test on the URL
+export type RouteMatcher = string | RegExp | ((url: string) => boolean);
+
+/**
+ * Wait until a condition is true
+ *
+ * @param condition - Checked again and again (100ms, 250ms, 500ms, 1s, ... apart)
+ * @throws Error naming the condition (options.message) when it is still false at the timeout
+ * @example await waitUntil(() => inventoryPage.isProductInCart('Sauce Labs Onesie'), { message: 'the onesie is in the cart' });
+ */
+export async function waitUntil(condition: () => boolean | Promise<boolean>, options: WaitOptions = {}): Promise<void> {
+  await expect.poll(condition, { message: options.message, timeout: options.timeout }).toBe(true);
+}
+
+/**
+ * Wait until a locator is in a state
+ * 'stable' = visible and not moving (the same bounding box twice in a row)
+ *
+ * @example await waitForLocator(informationStep.errorMessage, 'hidden');
+ */
+export async function waitForLocator(locator: Locator, state: LocatorState, options: WaitOptions = {}): Promise<void> {
+  const message = options.message ?? `${locator} is ${state}`;
+
+  switch (state) {
+    case 'attached':
+    case 'detached':
+    case 'visible':
+    case 'hidden':
+      await locator.waitFor({ state, timeout: options.timeout });
+      return;
+    case 'enabled':
+      await waitUntil(() => locator.isEnabled(), { ...options, message });
+      return;
+    case 'disabled':
+      await waitUntil(() => locator.isDisabled(), { ...options, message });
+      return;
+    case 'stable': {
+      let previous: string | undefined;
+      await waitUntil(async () => {
+        const box = await locator.boundingBox();
+        const current = box ? JSON.stringify(box) : undefined;
+        const stable = current !== undefined && current === previous;
+        previous = current;
+        return stable;
+      }, { ...options, message });
+      return;
+    }
+  }
+}
+
+/**
+ * Wait until the CSS animations and transitions in an element have finished
+ * (slide-ins, fades, ...). Endless animations such as spinners are ignored.
+ *
+ * @example await waitForAnimations(inventoryPage.sideMenu.menu);
+ */
+export async function waitForAnimations(locator: Locator, options: WaitOptions = {}): Promise<void> {
+  // TYPESCRIPT: evaluate() runs the arrow function IN THE BROWSER. tsconfig has
+  // no DOM types, so we describe the parts of an Animation we use.
+  type BrowserAnimation = { playState: string; effect: { getTiming(): { iterations?: number } } | null };
+
+  const running = () => locator.evaluate(element =>
+    element.getAnimations({ subtree: true })
+      .filter((animation: BrowserAnimation) => animation.playState === 'running' && animation.effect?.getTiming().iterations !== Infinity)
+      .length
+  );
+  await expect.poll(running, { message: options.message ?? `animations in ${locator} have finished`, timeout: options.timeout }).toBe(0);
+}
+
+/**
+ * Wait until an element's content has stopped changing for quietMs
+ * (lists that render in batches, text that is filled in after a fetch, ...)
+ *
+ * @example await waitForStableDom(page.locator('.inventory_list'), { quietMs: 300 });
+ */
+export async function waitForStableDom(locator: Locator, options: QuietOptions = {}): Promise<void> {
+  const quietMs = options.quietMs ?? 250;
+  let previous: string | undefined;
+  let changedAt = Date.now();
+
+  await expect.poll(async () => {
+    const html = await locator.evaluate(element => element.outerHTML as string);
+    if (html !== previous) {
+      previous = html;
+      changedAt = Date.now();
+    }
+    return Date.now() - changedAt >= quietMs;
+  }, {
+    message: options.message ?? `${locator} has not changed for ${quietMs}ms`,
+    timeout: options.timeout,
+    // Look often enough to notice quietMs of calm without waiting much longer
+    intervals: [Math.max(50, Math.round(quietMs / 2))]
+  }).toBe(true);
+}
+
+/**
+ * Counts a page's requests to some routes while they are in flight
+ * TYPESCRIPT: A class, because it keeps state between page events
+ *
+ * @example
+ * const network = new NetworkWatcher(page, /\/api\//);
+ * await page.reload();
+ * await network.waitForIdle();
+ * network.dispose();
+ */
+export class NetworkWatcher {
+  readonly page: Page;
+  private readonly matches: (url: string) => boolean;
+  private readonly inFlight = new Set<Request>();
+  private idleSince = Date.now();
+
+  constructor(page: Page, route: RouteMatcher) {
+    this.page = page;
+    this.matches = typeof route === 'string' ? url => url.includes(route)
+      : route instanceof RegExp ? url => route.test(url)
+      : route;
+
+    page.on('request', this.onRequest);
+    page.on('requestfinished', this.onDone);
+    page.on('requestfailed', this.onDone);
+  }
+
+  /**
+   * URLs of the matching requests that haven't finished
+   */
+  get pending(): string[] {
+    return [...this.inFlight].map(request => `${request.method()} ${request.url()}`);
+  }
+
+  /**
+   * How long no matching request has been in flight (0 while one is)
+   */
+  idleForMs(): number {
+    return this.inFlight.size > 0 ? 0 : Date.now() - this.idleSince;
+  }
+
+  /**
+   * Wait until no matching request has been in flight for quietMs (default 500ms)
+   * @throws Error listing the requests still in flight when it times out
+   */
+  async waitForIdle(options: QuietOptions = {}): Promise<void> {
+    const quietMs = options.quietMs ?? 500;
+    try {
+      await expect.poll(() => this.idleForMs(), {
+        message: options.message ?? `no matching request for ${quietMs}ms`,
+        timeout: options.timeout,
+        intervals: [Math.max(50, Math.round(quietMs / 2))]
+      }).toBeGreaterThanOrEqual(quietMs);
+    } catch (error) {
+      const pending = this.pending;
+      if (pending.length === 0) {
+        throw error;
+      }
+      throw new Error(`Network never went idle; still in flight:\n  ${pending.join('\n  ')}\n\n${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Stop listening to the page
+   */
+  dispose(): void {
+    this.page.off('request', this.onRequest);
+    this.page.off('requestfinished', this.onDone);
+    this.page.off('requestfailed', this.onDone);
+  }
+
+  // TYPESCRIPT: Arrow function properties keep 'this' when passed to page.on()
+  private readonly onRequest = (request: Request): void => {
+    if (this.matches(request.url())) {
+      this.inFlight.add(request);
+    }
+  };
+
+  private readonly onDone = (request: Request): void => {
+    if (this.inFlight.delete(request) && this.inFlight.size === 0) {
+      this.idleSince = Date.now();
+    }
+  };
+}
+
+/**
+ * Run an action and wait until its requests to some routes have all finished
+ * (the watcher starts before the action, so no request is missed)
+ *
+ * @param route - Which requests count, e.g. /\/api\// or '/inventory'
+ * @param action - What triggers the requests (default: nothing - just wait for the current ones)
+ * @example await waitForNetworkIdle(page, /\/static\/media\//, () => page.reload());
+ */
+export async function waitForNetworkIdle(
+  page: Page,
+  route: RouteMatcher,
+  action: () => Promise<unknown> = async () => undefined,
+  options: QuietOptions = {}
+): Promise<void> {
+  const watcher = new NetworkWatcher(page, route);
+  try {
+    await action();
+    await watcher.waitForIdle(options);
+  } finally {
+    watcher.dispose();
+  }
+}
+
+/**
+ * TYPESCRIPT CONCEPTS DEMONSTRATED:
+ *
+ * 1. SWITCH ON A UNION:
+ *    case 'attached': ... case 'stable': - TypeScript checks every LocatorState is handled
+ *
+ * 2. CALLBACK TYPES:
+ *    condition: () => boolean | Promise<boolean> - sync or async checks both work
+ *
+ * 3. UNION NARROWING WITH typeof / instanceof:
+ *    RouteMatcher is turned into one (url) => boolean in the constructor
+ *
+ * 4. ARROW FUNCTION PROPERTIES:
+ *    private readonly onDone = (request) => { ... } - safe to hand to page.on() and page.off()
+ *
+ * USAGE:
+ *
+ * import { waitForAnimations, waitForLocator, waitUntil } from '../utils/waits';
+ *
+ * await inventoryPage.sideMenu.openButton.click();
+ * await waitForAnimations(inventoryPage.sideMenu.menu);
+ * await waitForLocator(inventoryPage.sideMenu.logoutLink, 'visible');
+ */
@@ -0,0 +1,161 @@
+/**
+ * MINIMAL ZIP READER / WRITER
+ *
+ * Playwright traces are zip files. To redact secrets from a trace we need to
+ * read every entry, change some of them, and write the archive back.
+ * Node has no zip API, but zlib does the hard part (deflate + CRC-32), so
+ * the format itself is a few fixed-size headers.
+ *
+ * Supports what Playwright writes: stored or deflated entries, no zip64,
+ * no encryption. CRC-32 comes from zlib.crc32 where Node has it (20.15+ / 22.2+)
+ * and from a small lookup table otherwise.
+ *
+ * TYPESCRIPT LEARNING FOCUS:
+ * - Working with Buffers and binary offsets
+ * - Small interfaces for parsed data
+ */
+
+import zlib from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+// Signatures that start each zip record
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// zlib.crc32 only exists from Node 20.15 / 22.2 on
+// TYPESCRIPT: Partial<> makes the property optional, so TypeScript makes us check for it
+const nativeCrc32 = (zlib as Partial<typeof zlib>).crc32;
+
+// CRC-32 of every byte value (polynomial 0xEDB88320), for Node versions without zlib.crc32
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xEDB88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * CRC-32 checksum of a buffer, as stored in zip headers
+ * @param useNative - Use zlib.crc32 (default: when this Node has it)
+ * @example crc32(Buffer.from('123456789')) // 0xCBF43926
+ */
+export function crc32(data: Buffer, useNative: boolean = nativeCrc32 !== undefined): number {
+  if (useNative && nativeCrc32) {
+    return nativeCrc32(data);
+  }
+  let crc = 0xFFFFFFFF;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// Compression methods
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * Read every entry of a zip archive
+ * @throws Error if the buffer is not a zip this reader understands
+ */
+export function readZip(zip: Buffer): ZipEntry[] {
+  // The end-of-central-directory record sits at the end, before an optional comment (max 64KB)
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a zip archive: end of central directory not found');
+  }
+
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_HEADER) {
+      throw new Error(`Corrupt zip archive: bad central directory entry at offset ${offset}`);
+    }
+
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    // The local header has its own (possibly different) name/extra lengths
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+
+    if (method !== STORED && method !== DEFLATED) {
+      throw new Error(`Unsupported zip compression method ${method} for "${name}"`);
+    }
+    entries.push({ name, data: method === DEFLATED ? zlib.inflateRawSync(raw) : Buffer.from(raw) });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Build a zip archive from entries (every entry is deflated)
+ */
+export function writeZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = zlib.deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4);                     // version needed to extract
+    local.writeUInt16LE(0x0800, 6);                 // flags: names are UTF-8
+    local.writeUInt16LE(DEFLATED, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4);                   // version made by
+    central.writeUInt16LE(20, 6);                   // version needed to extract
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(DEFLATED, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}